@@ -0,0 +1,138 @@
+// This file compiles a whole module ahead of time to a single ES module. The
+// generated module contains the compiled code for every function, including
+// the wrappers for imports and exports, and never calls "eval" or "new
+// Function".
+//
+// Usage: deno run --allow-read --allow-write jsr:@blckbrry/polywasm/aot input.wasm output.js
+
+import { codeFactoryArgs, compileCodeToJS } from "./compile.ts";
+import { type InstanceOptions, exportFactoryArgs, exportWrapperToJS, importFactoryArgs, importWrapperToJS } from "./instantiate.ts";
+import { Desc, type FuncType, Module, type ModuleOptions, moduleMap } from "./parse.ts";
+
+export interface CompileToModuleOptions extends ModuleOptions {
+  // These are baked into the generated code, so they can't be changed when
+  // the generated module is instantiated
+  traps?: InstanceOptions['traps']
+  boundsChecks?: InstanceOptions['boundsChecks']
+  i64?: InstanceOptions['i64']
+  optimizationRules?: InstanceOptions['optimizationRules']
+  toolchain?: InstanceOptions['toolchain']
+
+  // The generated module imports the polywasm runtime (the "Module" parser,
+  // the instance, and the "Library" used by the generated code) from here
+  runtime?: string
+}
+
+const defaultRuntime = 'jsr:@blckbrry/polywasm'
+
+// Note: "btoa" only accepts strings of bytes, so the bytes are converted in
+// chunks to avoid exceeding the maximum argument count
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+// The generated module exports "module" and "instantiate(imports, options)",
+// which returns a "WebAssembly.Instance" that behaves exactly like one created
+// lazily from the same ".wasm" file with the same options
+export const compileToModule = (source: BufferSource, options: CompileToModuleOptions = {}): string => {
+  const module = new Module(source, options)
+  const wasm = moduleMap.get(module)!
+  const {
+    bytes_: bytes,
+    codeSection_: codeSection,
+    functionSection_: functionSection,
+    importSection_: importSection,
+    typeSection_: typeSection,
+  } = wasm
+  const instanceOptions: InstanceOptions = {
+    traps: !!options.traps,
+    boundsChecks: !!options.boundsChecks,
+    i64: options.i64 === 'pairs' ? 'pairs' : 'bigint',
+    optimizationRules: options.optimizationRules,
+    toolchain: options.toolchain,
+  }
+  const pairs = instanceOptions.i64 === 'pairs'
+
+  // Function types are indexed the same way as in "Instance"
+  const funcTypes: FuncType[] = []
+  for (const [, , desc, payload] of importSection) {
+    if (desc === Desc.Func) funcTypes.push(typeSection[payload])
+  }
+  const importCount = funcTypes.length
+  for (let i = 0; i < codeSection.length; i++) {
+    funcTypes.push(typeSection[functionSection[i]])
+  }
+
+  // Wrappers only depend on the function type, so functions with the same
+  // type share the same wrapper
+  const decls: string[] = []
+  const wrappers = new Map<string, string>()
+  const wrapper = (args: string[], js: string): string => {
+    const key = `function(${args}){${js}}`
+    let name = wrappers.get(key)
+    if (!name) {
+      name = 'w' + wrappers.size
+      wrappers.set(key, name)
+      decls.push(`const ${name}=${key}`)
+    }
+    return name
+  }
+
+  const code: string[] = []
+  for (let i = 0; i < codeSection.length; i++) {
+    const js = compileCodeToJS(funcTypes, wasm, instanceOptions, i, importCount + i)
+    code.push(`function(${codeFactoryArgs}){${js}}`)
+  }
+  const imports: string[] = []
+  for (let i = 0; i < importCount; i++) {
+    imports.push(wrapper(importFactoryArgs, importWrapperToJS(funcTypes[i], pairs)))
+  }
+  const exports: string[] = []
+  for (let i = 0; i < funcTypes.length; i++) {
+    exports.push(wrapper(exportFactoryArgs, exportWrapperToJS(funcTypes[i], pairs)))
+  }
+
+  return `// This file was generated by polywasm. Do not edit.
+import { WebAssembly } from ${JSON.stringify(options.runtime || defaultRuntime)}
+${decls.join('\n')}
+const precompiled = {
+code: [
+${code.join(',\n')}
+],
+imports: [${imports}],
+exports: [${exports}],
+}
+const bytes = Uint8Array.from(atob(${JSON.stringify(toBase64(bytes))}), c => c.charCodeAt(0))
+export const module = new WebAssembly.Module(bytes)
+export const instantiate = (imports, options) => new WebAssembly.Instance(module, imports, {
+...options,
+traps: ${instanceOptions.traps},
+boundsChecks: ${instanceOptions.boundsChecks},
+i64: ${JSON.stringify(instanceOptions.i64)},
+precompiled,
+})
+`
+}
+
+if (import.meta.main) {
+  const args = Deno.args.filter(arg => !arg.startsWith('--'))
+  const flags = Deno.args.filter(arg => arg.startsWith('--'))
+  if (args.length !== 2) {
+    console.error('Usage: aot.ts [--traps] [--bounds-checks] [--i64-pairs] [--validate] [--toolchain=name] [--runtime=specifier] input.wasm output.js')
+    Deno.exit(1)
+  }
+  const runtime = flags.find(flag => flag.startsWith('--runtime='))
+  const toolchain = flags.find(flag => flag.startsWith('--toolchain='))
+  Deno.writeTextFileSync(args[1], compileToModule(Deno.readFileSync(args[0]), {
+    traps: flags.includes('--traps'),
+    boundsChecks: flags.includes('--bounds-checks'),
+    i64: flags.includes('--i64-pairs') ? 'pairs' : 'bigint',
+    validate: flags.includes('--validate'),
+    toolchain: toolchain ? toolchain.slice('--toolchain='.length) as CompileToModuleOptions['toolchain'] : undefined,
+    runtime: runtime ? runtime.slice('--runtime='.length) : undefined,
+  }))
+}
@@ -0,0 +1,88 @@
+// This file provides a persistent cache for generated code. Decoding and
+// optimizing a function is the most expensive part of running it for the first
+// time, so caching the generated JavaScript avoids doing that again on every
+// cold start (e.g. in a serverless function).
+
+import { compileCodeToJS, compilerVersion } from "./compile.ts";
+import type { InstanceOptions } from "./instantiate.ts";
+import { rulesFingerprint } from "./optimize.ts";
+import { Desc, type FuncType, type Module, type WASM, wasmFor } from "./parse.ts";
+
+// The cache only needs to store strings by key. It's synchronous because
+// functions are compiled lazily when they are first called.
+export interface CodeCache {
+  get(key: string): string | undefined
+  set(key: string, value: string): void
+}
+
+export const createMemoryCache = (): CodeCache => {
+  const map = new Map<string, string>()
+  return {
+    get: key => map.get(key),
+    set: (key, value) => { map.set(key, value) },
+  }
+}
+
+// This is a 64-bit hash made of two independent 32-bit multiplicative hashes,
+// which is plenty to tell apart the modules and rules that a cache will see
+const hash = (length: number, at: (i: number) => number): string => {
+  let h1 = 0xDEADBEEF ^ length
+  let h2 = 0x41C6CE57 ^ length
+  for (let i = 0; i < length; i++) {
+    const x = at(i)
+    h1 = Math.imul(h1 ^ x, 0x9E3779B1)
+    h2 = Math.imul(h2 ^ x, 0x5F356495)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 0x85EBCA6B) ^ Math.imul(h2 ^ (h2 >>> 13), 0xC2B2AE35)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 0x85EBCA6B) ^ Math.imul(h1 ^ (h1 >>> 13), 0xC2B2AE35)
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0')
+}
+
+const moduleHashes = new WeakMap<WASM, string>()
+const compilerHashes = new Map<string, string>()
+
+// Keys only contain characters that are safe to use in file names. The
+// compiler part of the key includes the optimization rules (including any
+// extra rules and toolchain rules), so changing the rules in "optimize.ts" or
+// adding rules automatically uses new entries.
+export const cacheKey = (wasm: WASM, options: InstanceOptions, funcIndex: number): string => {
+  let moduleHash = moduleHashes.get(wasm)
+  if (!moduleHash) {
+    const bytes = wasm.bytes_
+    moduleHashes.set(wasm, moduleHash = hash(bytes.length, i => bytes[i]))
+  }
+  const rules = rulesFingerprint(wasm, options)
+  let compilerHash = compilerHashes.get(rules)
+  if (!compilerHash) {
+    compilerHashes.set(rules, compilerHash = compilerVersion + '-' + hash(rules.length, i => rules.charCodeAt(i)))
+  }
+  return `${compilerHash}-${moduleHash}-${+!!options.traps}${+!!options.boundsChecks}${+(options.i64 === 'pairs')}-${funcIndex}`
+}
+
+// This compiles every function in the module ahead of time and stores the
+// generated code in the cache, so that later instances created with the same
+// cache and options never have to compile anything
+export const prewarmCache = (module: Module, cache: CodeCache, options: InstanceOptions = {}): void => {
+  const wasm = wasmFor(module)
+  const {
+    codeSection_: codeSection,
+    functionSection_: functionSection,
+    importSection_: importSection,
+    typeSection_: typeSection,
+  } = wasm
+
+  // Function types are indexed the same way as in "Instance"
+  const funcTypes: FuncType[] = []
+  for (const [, , desc, payload] of importSection) {
+    if (desc === Desc.Func) funcTypes.push(typeSection[payload])
+  }
+  const importCount = funcTypes.length
+  for (let i = 0; i < codeSection.length; i++) {
+    funcTypes.push(typeSection[functionSection[i]])
+  }
+
+  for (let i = 0; i < codeSection.length; i++) {
+    const key = cacheKey(wasm, options, importCount + i)
+    if (cache.get(key) === undefined) cache.set(key, compileCodeToJS(funcTypes, wasm, options, i, importCount + i))
+  }
+}
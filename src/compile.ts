@@ -1,11 +1,13 @@
 // This file provides a way to parse a single WebAssembly function and convert
 // it to JavaScript. Functions are compiled lazily when they are first evaluated.
 
-import { type Context, ContextField } from "./instantiate.ts";
+import { type Context, ContextField, type Global, type InstanceOptions, type Table, type TypedFunction } from "./instantiate.ts";
 import type { Library } from "./library.ts";
-import { compileOptimizations } from "./optimize.ts";
-import { type FuncType, Type, type WASM } from "./parse.ts";
+import { cacheKey } from "./cache.ts";
+import { f32FromBits, f64FromBits, optimizerFor } from "./optimize.ts";
+import { Desc, type FuncType, Type, type WASM } from "./parse.ts";
 import { Op, Pack, BlockKind, type Block, metaTable, MetaFlag } from "./defs.ts";
+import { CompileError } from "./errors.ts";
 
 // The AST is stored in a fixed-sized array, which assumes we never generate an
 // AST bigger than this. This isn't so bad because we only ever generate an AST
@@ -13,19 +15,72 @@ import { Op, Pack, BlockKind, type Block, metaTable, MetaFlag } from "./defs.ts"
 // don't reallocate it every time we compile a function.
 const astBufferSingleton = new Int32Array(1 << 16)
 
-const optimizeNode = compileOptimizations()
+// This returns the number of bytes read or written by a load or store opcode
+const memoryAccessSize = (op: Op): number => {
+  switch (op) {
+    case Op.i32_load8_s: case Op.i32_load8_u: case Op.i64_load8_s: case Op.i64_load8_u:
+    case Op.i32_store8: case Op.i64_store8:
+      return 1
+    case Op.i32_load16_s: case Op.i32_load16_u: case Op.i64_load16_s: case Op.i64_load16_u:
+    case Op.i32_store16: case Op.i64_store16:
+      return 2
+    case Op.i64_load: case Op.S64_LOAD: case Op.f64_load: case Op.i64_store: case Op.f64_store:
+      return 8
+    default:
+      return 4
+  }
+}
+
+// Each compiled function is created by a factory that is passed the state of
+// the instance. The factory is either generated here using "new Function" or
+// ahead of time by "compileToModule" in "aot.ts".
+export type CodeFactory = (
+  f: Function[],
+  c: Context,
+  t: Table[],
+  g: Global[],
+  d: Uint8Array[],
+  p: unknown[][],
+  l: Library,
+  r: (index: number) => TypedFunction,
+) => Function
+
+export const codeFactoryArgs = ['f', 'c', 't', 'g', 'd', 'p', 'l', 'r']
+
+// This is part of the key for cached code (see "cache.ts"). Increment it when
+// changing the code that is generated for the same input.
+export const compilerVersion = 4
+
+// The range of a 64-bit integer that is computed using a number instead of a
+// BigInt (see "rangeOf"). The bounds are signed and always safe integers.
+// "usesBigInt" means computing it still involves a BigInt operation.
+type NumberRange = readonly [min: number, max: number, usesBigInt: boolean]
 
 export const compileCode = (
-  funcs: Function[],
   funcTypes: FuncType[],
-  table: (Function | null)[] | undefined,
-  globals: (number | bigint)[],
-  library: Library,
-  context: Context,
   wasm: WASM,
+  options: InstanceOptions,
   codeIndex: number,
   funcIndex: number,
-): Function => {
+): CodeFactory => {
+  const cache = options.cache
+  const key = cache ? cacheKey(wasm, options, funcIndex) : ''
+  let js = cache && cache.get(key)
+  if (js === undefined) {
+    js = compileCodeToJS(funcTypes, wasm, options, codeIndex, funcIndex)
+    if (cache) cache.set(key, js)
+  }
+  return new Function(...codeFactoryArgs, js) as CodeFactory
+}
+
+// This returns the body of the factory for the function at "codeIndex"
+export const compileCodeToJS = (
+  funcTypes: FuncType[],
+  wasm: WASM,
+  options: InstanceOptions,
+  codeIndex: number,
+  funcIndex: number,
+): string => {
   const readU32LEB = (): number => {
     let value = 0
     let shift = 0
@@ -62,63 +117,688 @@ export const compileCode = (
     return shift < 64 && (byte & 0x40) ? value | (~0n << shift) : value
   }
 
-  const readBlockType = (): [argCount: number, returnCount: number] => {
+  const readBlockType = (): FuncType => {
     const byte = bytes[bytesPtr]
     if (byte === 0x40) {
       bytesPtr++
-      return [0, 0]
+      return [[], []]
     }
     if (byte & 0x40) {
       bytesPtr++
-      return [0, 1]
+      return [[], [byte]]
     }
-    const typeIndex = readU32LEB()
-    const [argTypes, returnTypes] = typeSection[typeIndex]
-    return [argTypes.length, returnTypes.length]
+    return typeSection[readU32LEB()]
   }
 
   // A basic block is a sequence of non-branching instructions. Optimizations
-  // are only done within a basic block, but not across basic blocks. We decode
-  // WASM into our basic block IR until we hit a branch. Then we generate code
-  // for the whole basic block at once, optimizing as we go. We scan backwards
-  // through our IR so that we can process uses before definitions to apply our
-  // optimizations.
+  // on the AST are only done within a basic block, but not across basic blocks.
+  // We decode WASM into our basic block IR until we hit a branch. Then we
+  // generate code for the whole basic block at once, optimizing as we go. We
+  // scan backwards through our IR so that we can process uses before
+  // definitions to apply our optimizations.
   const ast = astBufferSingleton // Cache a reference in case it improves performance
   const astPtrs: (number | null)[] = []
+  const astSlots: number[] = [] // The stack slot that each top-level node writes to (or 0 for none)
   let astNextPtr = 0
 
   // Instructions can reference constants in here by index
   const constants: bigint[] = []
 
-  let stackLimit = 0
-  const stackSlotName = (stackSlot: number): string => {
-    while (stackLimit < stackSlot) decls.push('s' + ++stackLimit)
-    return 's' + stackSlot
+  // Each value that's stored in a stack slot belongs to a "web" of definitions
+  // and uses that must share the same variable. Webs are merged where control
+  // flow merges (e.g. every branch to the end of a block must leave the result
+  // in the same variable). Variables are only assigned once the whole function
+  // has been compiled, so webs are referenced using placeholders until then.
+  const webs: number[] = [] // This is a union-find forest
+  const pairWebs: boolean[] = [] // Webs that hold a 64-bit integer as a pair of variables (see "pairs")
+  const webRanges: (NumberRange | undefined)[] = [] // Webs that hold a 64-bit integer as a number (see "rangeOf")
+  const newWeb = (isPair = false): number => {
+    pairWebs.push(isPair)
+    return webs.push(webs.length) - 1
+  }
+  const findWeb = (web: number): number => {
+    while (webs[web] !== web) web = webs[web] = webs[webs[web]]
+    return web
+  }
+  const mergeWebs = (a: number, b: number): void => {
+    webs[findWeb(a)] = findWeb(b)
+  }
+  const webName = (web: number): string => `\0${web}\0`
+
+  // This tracks the web of the value that's currently in each stack slot. If
+  // that value is a constant, the constant is substituted wherever the stack
+  // slot is read instead (even in later basic blocks), and it's only stored in
+  // a variable if the stack slot is read after control flow merges.
+  //
+  // With "pairs", the high half of a 64-bit integer is stored in a second
+  // variable named by appending "h" to the variable for the low half.
+  const slotWebs: number[] = []
+  const slotValues: (string | undefined)[] = []
+  const slotHighValues: (string | undefined)[] = []
+  const slotWeb = (slot: number): number => {
+    const web = slotWebs[slot]
+    return web !== undefined ? web : slotWebs[slot] = newWeb()
+  }
+  const isPairSlot = (slot: number): boolean => pairWebs[slotWeb(slot)]
+  const readSlot = (slot: number): string => {
+    const value = slotValues[slot]
+    if (value !== undefined) return value
+    const web = slotWeb(slot)
+    const range = webRanges[web]
+    return range ? toBigInt(webName(web), range) : webName(web)
+  }
+  const readSlotHigh = (slot: number): string => {
+    const value = slotHighValues[slot]
+    return value !== undefined ? value : webName(slotWeb(slot)) + 'h'
+  }
+  const writeSlot = (slot: number, value?: string): string => {
+    slotValues[slot] = value
+    slotHighValues[slot] = undefined
+    return webName(slotWebs[slot] = newWeb())
+  }
+  const writePairSlot = (slot: number, lo?: string, hi?: string): string => {
+    slotValues[slot] = lo
+    slotHighValues[slot] = hi
+    return webName(slotWebs[slot] = newWeb(true))
+  }
+  // The high half may still read the destination's old low half (e.g. the
+  // carry of "x + 7" when "x" lives in the same variable), so the low half
+  // goes through a temporary until the high half has been computed
+  const assignPair = (name: string, lo: string, hi: string): string => {
+    return `P=${lo};${name}h=${hi};${name}=P;`
+  }
+  const materializeSlot = (slot: number): void => {
+    const value = slotValues[slot]
+    if (value !== undefined) {
+      const name = webName(slotWeb(slot))
+      body += `${name}=${value};`
+      if (isPairSlot(slot)) body += `${name}h=${slotHighValues[slot]};`
+      slotValues[slot] = slotHighValues[slot] = undefined
+    } else if (webRanges[slotWeb(slot)]) {
+      const value = readSlot(slot)
+      body += `${writeSlot(slot)}=${value};`
+    }
+  }
+  const forgetSlotsAbove = (slot: number): void => {
+    if (slotValues.length > slot + 1) slotValues.length = slotHighValues.length = slot + 1
+  }
+
+  // This replaces each web placeholder with a variable. Webs whose lifetimes
+  // don't overlap share the same variable. Control flow only ever goes forward
+  // in the generated code except for loops, so the lifetime of a web is from
+  // its first to its last occurrence in the code. But a web that's used inside
+  // a loop and was defined before the loop must live until the end of the loop
+  // because it's used again in the next iteration. Webs that are defined and
+  // used within a single iteration of a loop don't need to be extended.
+  const assignVariablesToWebs = (code: string): string => {
+    const placeholder = /\0(\d+)\0(h?)/g
+    const starts: number[] = []
+    const ends: number[] = []
+    const hasHigh: boolean[] = []
+    for (const match of code.matchAll(placeholder)) {
+      const web = findWeb(+match[1])
+      if (!(web in starts)) starts[web] = match.index
+      ends[web] = match.index
+      if (match[2]) hasHigh[web] = true
+    }
+    const roots: number[] = []
+    for (const web in starts) roots.push(+web)
+    for (let i = 0; i < loopSpans.length; i += 2) {
+      const loopStart = loopSpans[i], loopEnd = loopSpans[i + 1]
+      for (const web of roots) {
+        if (starts[web] < loopStart && ends[web] > loopStart && ends[web] < loopEnd) ends[web] = loopEnd
+      }
+    }
+
+    // Assign variables in order using the first one that's no longer in use
+    const variables: number[] = []
+    const variableEnds: number[] = []
+    const variableHighs: boolean[] = []
+    roots.sort((a, b) => starts[a] - starts[b])
+    for (const web of roots) {
+      let variable = 0
+      while (variable < variableEnds.length && variableEnds[variable] >= starts[web]) variable++
+      if (variable === variableEnds.length) decls.push('s' + variable)
+      if (hasHigh[web] && !variableHighs[variable]) decls.push(`s${variable}h`)
+      variables[web] = variable
+      variableEnds[variable] = ends[web]
+      variableHighs[variable] ||= hasHigh[web]
+    }
+    return code.replace(placeholder, (_, web, high) => 's' + variables[findWeb(+web)] + high)
+  }
+
+  // The elements of each table are cached in a variable outside of the
+  // function. This is safe because a table's element array is never replaced.
+  const tableDecls: string[] = []
+  const tableName = (tableIndex: number): string => {
+    const name = 'e' + tableIndex
+    if (!tableDecls[tableIndex]) tableDecls[tableIndex] = `${name}=t[${tableIndex}].${/* @__KEY__ */ 'elements_'}`
+    return name
+  }
+
+  // Each global is also cached in a variable outside of the function. Globals
+  // own their value so that imported globals stay in sync with the exporter.
+  const globalDecls: string[] = []
+  const globalName = (globalIndex: number): string => {
+    const name = 'g' + globalIndex
+    if (!globalDecls[globalIndex]) globalDecls[globalIndex] = `${name}=g[${globalIndex}]`
+    return name
+  }
+
+  // The canonical type ids used by "call_indirect" are only known to the
+  // runtime (they depend on which types were seen first), so they are also
+  // looked up outside of the function instead of being baked into the code
+  const typeDecls: string[] = []
+  const typeName = (typeIndex: number): string => {
+    const name = 'y' + typeIndex
+    if (!typeDecls[typeIndex]) typeDecls[typeIndex] = `${name}=l.${/* @__KEY__ */ 'func_type_'}(${JSON.stringify(typeSection[typeIndex])})`
+    return name
+  }
+
+  // Memory accesses are checked against the size of memory if bounds checks
+  // are enabled. The effective address is the unsigned 32-bit address plus the
+  // unsigned 32-bit offset, so it's a 33-bit value that must be computed using
+  // floating-point math. Accesses that are already known to be in bounds (see
+  // "proveAccessesInBounds") can skip the check.
+  const address = (ptr: number, access: (address: string) => string): string => {
+    const node = ast[ptr]
+    const addr = emit(ast[ptr + 1])
+    const offset = ast[ptr + ((node >> Pack.ChildCountShift) & Pack.ChildCountMask) + 1]
+    if (!boundsChecks) return access(`${addr}${offset ? '+' + offset : ''}`)
+    const unsigned = `(${addr}>>>0)${offset ? '+' + (offset >>> 0) : ''}`
+    if (provenAccesses.has(ptr)) return access(unsigned)
+    return `(T=${unsigned})+${memoryAccessSize(node & Pack.OpMask)}>c.${ContextField.Uint8Array}.length?` +
+      `l.${/* @__KEY__ */ 'trap_'}("out of bounds memory access"):${access('T')}`
   }
 
   // Optimize the single-byte case using typed arrays
-  const load8 = (field: ContextField.Int8Array | ContextField.Uint8Array, addr: number, offset: number): string => {
-    return `c.${field}[${emit(addr)}${offset ? '+' + offset : ''}]`
+  const load8 = (field: ContextField.Int8Array | ContextField.Uint8Array, ptr: number): string => {
+    return address(ptr, addr => `c.${field}[${addr}]`)
   }
-  const store8 = (field: ContextField.Int8Array | ContextField.Uint8Array, addr: number, offset: number, value: string): string => {
-    return `c.${field}[${emit(addr)}${offset ? '+' + offset : ''}]=${value}`
+  const store8 = (field: ContextField.Int8Array | ContextField.Uint8Array, ptr: number, value: string): string => {
+    return address(ptr, addr => `c.${field}[${addr}]=${value}`)
   }
 
   // The multi-byte case must use the data view for alignment reasons
-  const load = <T extends string>(get: T extends 'Int8' | 'Uint8' ? never : T, addr: number, offset: number): string => {
-    return `c.${ContextField.DataView}.get${get}(${emit(addr)}${offset ? '+' + offset : ''},1)`
+  const load = <T extends string>(get: T extends 'Int8' | 'Uint8' ? never : T, ptr: number): string => {
+    return address(ptr, addr => `c.${ContextField.DataView}.get${get}(${addr},1)`)
   }
-  const store = <T extends string>(set: T extends 'Int8' | 'Uint8' ? never : T, addr: number, offset: number, value: string): string => {
-    return `c.${ContextField.DataView}.set${set}(${emit(addr)}${offset ? '+' + offset : ''},${value},1)`
+  const store = <T extends string>(set: T extends 'Int8' | 'Uint8' ? never : T, ptr: number, value: string): string => {
+    return address(ptr, addr => `c.${ContextField.DataView}.set${set}(${addr},${value},1)`)
   }
 
   const emit = (ptr: number): string => {
-    return ptr < 0 ? stackSlotName(-ptr) : `(${emitUnwrapped(ptr)})`
+    return ptr < 0 ? readSlot(-ptr) : `(${emitUnwrapped(ptr)})`
+  }
+
+  // With "pairs", each 64-bit integer is a pair of signed 32-bit numbers. Nodes
+  // that produce a pair are never inlined into other nodes (see "finalizeBasicBlock"),
+  // so the operands of a 64-bit operation are always stack slots, locals, or
+  // constants, which can be read as a pair without any code.
+  const producesPair = (ptr: number): boolean => {
+    const node = ast[ptr]
+    const op = node & Pack.OpMask
+    switch (op) {
+      case Op.local_get: return localTypes[ast[ptr + 1]] === Type.I64
+      case Op.local_tee: return localTypes[ast[ptr + 2]] === Type.I64
+      case Op.global_get: return globalTypes[ast[ptr + 1]] === Type.I64
+      case Op.select: return isPair(ast[ptr + 2])
+      case Op.call: case Op.call_indirect: {
+        const childCount = (node >> Pack.ChildCountShift) & Pack.ChildCountMask
+        const [, returnTypes] = op === Op.call ? funcTypes[ast[ptr + childCount + 1]] : typeSection[ast[ptr + childCount + 2]]
+        return returnTypes.length === 1 && returnTypes[0] === Type.I64
+      }
+    }
+    return op >= Op.i64_trunc_sat_f32_s && op <= Op.i64_trunc_sat_f64_u ||
+      op === Op.i64_load || op >= Op.i64_load8_s && op <= Op.i64_load32_u || op === Op.i64_const ||
+      op >= Op.i64_clz && op <= Op.i64_rotr || op >= Op.i64_extend_i32_s && op <= Op.i64_trunc_f64_u ||
+      op === Op.i64_reinterpret_f64 || op >= Op.i64_extend8_s && op <= Op.i64_extend32_s
+  }
+  const isPair = (ptr: number): boolean => {
+    return ptr < 0 ? isPairSlot(-ptr) : producesPair(ptr)
+  }
+
+  const emitPair = (ptr: number): [lo: string, hi: string] => {
+    if (ptr < 0) return [readSlot(-ptr), readSlotHigh(-ptr)]
+    switch (ast[ptr] & Pack.OpMask) {
+      case Op.local_get: {
+        const name = names[ast[ptr + 1]]
+        return [name, name + 'h']
+      }
+      case Op.i64_const: {
+        const value = constants[ast[ptr + 1]]
+        const lo = Number(BigInt.asIntN(32, value)), hi = Number(BigInt.asIntN(32, value >> 32n))
+        return [lo < 0 ? `(${lo})` : lo + '', hi < 0 ? `(${hi})` : hi + '']
+      }
+    }
+    throw 'Internal error'
+  }
+
+  // This returns the code for both halves of a node that produces a pair. The
+  // code for the high half is evaluated immediately after the code for the low
+  // half, so it can use "T" and "h[0]" to get at what the low half computed.
+  const emitPairNode = (ptr: number): [lo: string, hi: string] => {
+    const node = ast[ptr]
+    const pairHelper = (name: string, ...args: string[]): [lo: string, hi: string] => [`l.${name}(${args})`, 'h[0]']
+
+    switch (node & Pack.OpMask) {
+      case Op.i64_trunc_sat_f32_s: case Op.i64_trunc_sat_f64_s: return pairHelper(/* @__KEY__ */ 'pair_trunc_sat_s_', emit(ast[ptr + 1]))
+      case Op.i64_trunc_sat_f32_u: case Op.i64_trunc_sat_f64_u: return pairHelper(/* @__KEY__ */ 'pair_trunc_sat_u_', emit(ast[ptr + 1]))
+
+      case Op.call: case Op.call_indirect: return [emitUnwrapped(ptr), 'h[0]']
+
+      case Op.select: {
+        const [a, ah] = emitPair(ast[ptr + 2])
+        const [b, bh] = emitPair(ast[ptr + 3])
+        return [`(T=${emit(ast[ptr + 1])})?${a}:${b}`, `T?${ah}:${bh}`]
+      }
+
+      case Op.local_get: return emitPair(ptr)
+      case Op.local_tee: {
+        const name = names[ast[ptr + 2]]
+        const [a, ah] = emitPair(ast[ptr + 1])
+        return [`${name}=${a}`, `${name}h=${ah}`]
+      }
+      case Op.global_get: return pairHelper(/* @__KEY__ */ 'pair_from_bigint_', `${globalName(ast[ptr + 1])}.${/* @__KEY__ */ 'value_'}`)
+
+      case Op.i64_load: return [address(ptr, addr => `c.${ContextField.DataView}.getInt32(${addr === 'T' ? addr : 'T=' + addr},1)`), `c.${ContextField.DataView}.getInt32(T+4,1)`]
+      case Op.i64_load8_s: return [`T=${load8(ContextField.Int8Array, ptr)}`, 'T>>31']
+      case Op.i64_load8_u: return [load8(ContextField.Uint8Array, ptr), '0']
+      case Op.i64_load16_s: return [`T=${load('Int16', ptr)}`, 'T>>31']
+      case Op.i64_load16_u: return [load('Uint16', ptr), '0']
+      case Op.i64_load32_s: return [`T=${load('Int32', ptr)}`, 'T>>31']
+      case Op.i64_load32_u: return [load('Int32', ptr), '0']
+
+      case Op.i64_const: return emitPair(ptr)
+
+      case Op.i64_clz: return [`l.${/* @__KEY__ */ 'pair_clz_'}(${emitPair(ast[ptr + 1])})`, '0']
+      case Op.i64_ctz: return [`l.${/* @__KEY__ */ 'pair_ctz_'}(${emitPair(ast[ptr + 1])})`, '0']
+      case Op.i64_popcnt: return [`l.${/* @__KEY__ */ 'pair_popcnt_'}(${emitPair(ast[ptr + 1])})`, '0']
+      case Op.i64_add: {
+        const [a, ah] = emitPair(ast[ptr + 1])
+        const [b, bh] = emitPair(ast[ptr + 2])
+        return [`T=${a}+${b}|0`, `${ah}+${bh}+((T>>>0)<(${a}>>>0))|0`]
+      }
+      case Op.i64_sub: {
+        const [a, ah] = emitPair(ast[ptr + 1])
+        const [b, bh] = emitPair(ast[ptr + 2])
+        return [`${a}-${b}|0`, `${ah}-${bh}-((${a}>>>0)<(${b}>>>0))|0`]
+      }
+      case Op.i64_mul: return pairHelper(/* @__KEY__ */ 'pair_mul_', ...emitPair(ast[ptr + 1]), ...emitPair(ast[ptr + 2]))
+      case Op.i64_div_s: return pairHelper(/* @__KEY__ */ 'pair_div_s_', ...emitPair(ast[ptr + 1]), ...emitPair(ast[ptr + 2]))
+      case Op.i64_div_u: return pairHelper(/* @__KEY__ */ 'pair_div_u_', ...emitPair(ast[ptr + 1]), ...emitPair(ast[ptr + 2]))
+      case Op.i64_rem_s: return pairHelper(/* @__KEY__ */ 'pair_rem_s_', ...emitPair(ast[ptr + 1]), ...emitPair(ast[ptr + 2]))
+      case Op.i64_rem_u: return pairHelper(/* @__KEY__ */ 'pair_rem_u_', ...emitPair(ast[ptr + 1]), ...emitPair(ast[ptr + 2]))
+      case Op.i64_and: case Op.i64_or: case Op.i64_xor: {
+        const [a, ah] = emitPair(ast[ptr + 1])
+        const [b, bh] = emitPair(ast[ptr + 2])
+        const op = (node & Pack.OpMask) === Op.i64_and ? '&' : (node & Pack.OpMask) === Op.i64_or ? '|' : '^'
+        return [`${a}${op}${b}`, `${ah}${op}${bh}`]
+      }
+      case Op.i64_shl: return pairHelper(/* @__KEY__ */ 'pair_shl_', ...emitPair(ast[ptr + 1]), emitPair(ast[ptr + 2])[0])
+      case Op.i64_shr_s: return pairHelper(/* @__KEY__ */ 'pair_shr_s_', ...emitPair(ast[ptr + 1]), emitPair(ast[ptr + 2])[0])
+      case Op.i64_shr_u: return pairHelper(/* @__KEY__ */ 'pair_shr_u_', ...emitPair(ast[ptr + 1]), emitPair(ast[ptr + 2])[0])
+      case Op.i64_rotl: return pairHelper(/* @__KEY__ */ 'pair_rotl_', ...emitPair(ast[ptr + 1]), emitPair(ast[ptr + 2])[0])
+      case Op.i64_rotr: return pairHelper(/* @__KEY__ */ 'pair_rotr_', ...emitPair(ast[ptr + 1]), emitPair(ast[ptr + 2])[0])
+
+      case Op.i64_extend_i32_s: return [`T=${emit(ast[ptr + 1])}`, 'T>>31']
+      case Op.i64_extend_i32_u: return [emit(ast[ptr + 1]), '0']
+      case Op.i64_trunc_f32_s: case Op.i64_trunc_f64_s: return pairHelper(/* @__KEY__ */ 'pair_trunc_s_', emit(ast[ptr + 1]))
+      case Op.i64_trunc_f32_u: case Op.i64_trunc_f64_u: return pairHelper(/* @__KEY__ */ 'pair_trunc_u_', emit(ast[ptr + 1]))
+      case Op.i64_reinterpret_f64: return pairHelper(/* @__KEY__ */ 'pair_reinterpret_f64_', emit(ast[ptr + 1]))
+
+      case Op.i64_extend8_s: {
+        const [a] = emitPair(ast[ptr + 1])
+        return [`${a}<<24>>24`, `${a}<<24>>31`]
+      }
+      case Op.i64_extend16_s: {
+        const [a] = emitPair(ast[ptr + 1])
+        return [`${a}<<16>>16`, `${a}<<16>>31`]
+      }
+      case Op.i64_extend32_s: {
+        const [a] = emitPair(ast[ptr + 1])
+        return [a, `${a}>>31`]
+      }
+
+      default: throw 'Internal error'
+    }
+  }
+
+  // This handles nodes that consume pairs but don't produce them. It returns
+  // nothing for all other nodes, which are handled by "emitUnwrapped" as usual.
+  const emitWithPairs = (ptr: number): string | undefined => {
+    const node = ast[ptr]
+
+    switch (node & Pack.OpMask) {
+      case Op.BOOL: case Op.BOOL_NOT: {
+        if (!isPair(ast[ptr + 1])) return
+        const [a, ah] = emitPair(ast[ptr + 1])
+        return (node & Pack.OpMask) === Op.BOOL ? `(${a}|${ah})` : `!(${a}|${ah})`
+      }
+
+      case Op.i64_eqz: {
+        const [a, ah] = emitPair(ast[ptr + 1])
+        return `${a}|${ah}?0:1`
+      }
+      case Op.i64_eq: {
+        const [a, ah] = emitPair(ast[ptr + 1])
+        const [b, bh] = emitPair(ast[ptr + 2])
+        return `${a}===${b}&&${ah}===${bh}`
+      }
+      case Op.i64_ne: {
+        const [a, ah] = emitPair(ast[ptr + 1])
+        const [b, bh] = emitPair(ast[ptr + 2])
+        return `${a}!==${b}||${ah}!==${bh}`
+      }
+      case Op.i64_lt_s: return compare(ptr, '<', false)
+      case Op.i64_lt_u: return compare(ptr, '<', true)
+      case Op.i64_gt_s: return compare(ptr, '>', false)
+      case Op.i64_gt_u: return compare(ptr, '>', true)
+      case Op.i64_le_s: return compare(ptr, '<=', false)
+      case Op.i64_le_u: return compare(ptr, '<=', true)
+      case Op.i64_ge_s: return compare(ptr, '>=', false)
+      case Op.i64_ge_u: return compare(ptr, '>=', true)
+
+      case Op.i32_wrap_i64: return emitPair(ast[ptr + 1])[0]
+      case Op.f32_convert_i64_s: case Op.f64_convert_i64_s: {
+        const [a, ah] = emitPair(ast[ptr + 1])
+        return `${ah}*4294967296+(${a}>>>0)`
+      }
+      case Op.f32_convert_i64_u: case Op.f64_convert_i64_u: {
+        const [a, ah] = emitPair(ast[ptr + 1])
+        return `(${ah}>>>0)*4294967296+(${a}>>>0)`
+      }
+      case Op.f64_reinterpret_i64: return `l.${/* @__KEY__ */ 'f64_reinterpret_pair_'}(${emitPair(ast[ptr + 1])})`
+
+      case Op.i64_store: {
+        const [a, ah] = emitPair(ast[ptr + 2])
+        return address(ptr, addr => `c.${ContextField.DataView}.setInt32(${addr === 'T' ? addr : 'T=' + addr},${a},1)`) +
+          `,c.${ContextField.DataView}.setInt32(T+4,${ah},1)`
+      }
+      case Op.i64_store8: return store8(ContextField.Uint8Array, ptr, emitPair(ast[ptr + 2])[0])
+      case Op.i64_store16: return store('Int16', ptr, emitPair(ast[ptr + 2])[0])
+      case Op.i64_store32: return store('Int32', ptr, emitPair(ast[ptr + 2])[0])
+
+      case Op.local_set: {
+        if (localTypes[ast[ptr + 2]] !== Type.I64) return
+        const name = names[ast[ptr + 2]]
+        const [a, ah] = emitPair(ast[ptr + 1])
+        return `${name}=${a},${name}h=${ah}`
+      }
+      case Op.global_set: {
+        if (globalTypes[ast[ptr + 2]] !== Type.I64) return
+        return `${globalName(ast[ptr + 2])}.${/* @__KEY__ */ 'value_'}=l.${/* @__KEY__ */ 'pair_to_u64_'}(${emitPair(ast[ptr + 1])})`
+      }
+    }
+  }
+
+  // Signed comparisons compare the high halves as signed numbers, and the low
+  // halves are always compared as unsigned numbers
+  const compare = (ptr: number, op: string, unsigned: boolean): string => {
+    const [a, ah] = emitPair(ast[ptr + 1])
+    const [b, bh] = emitPair(ast[ptr + 2])
+    const hi = unsigned ? `(${ah}>>>0)${op[0]}(${bh}>>>0)` : `${ah}${op[0]}${bh}`
+    return `${hi}||${ah}===${bh}&&(${a}>>>0)${op}(${b}>>>0)`
+  }
+
+  // BigInts are much slower than numbers, but many 64-bit integers are small
+  // in practice (e.g. an index that was zero-extended from 32 bits and then
+  // scaled). This computes the range of each 64-bit expression, and the ones
+  // that are known to be safe integers are computed using numbers instead.
+  // The result is only converted to a BigInt where a full 64-bit value is
+  // needed, such as when it's stored in a local or passed to a function.
+  // Stack slots can also hold these numbers (see "webRanges").
+  const numberRanges = new Map<number, NumberRange | null>()
+  const rangeOf = (ptr: number): NumberRange | null => {
+    if (pairs) return null
+    if (ptr < 0) return slotValues[-ptr] === undefined && webRanges[slotWeb(-ptr)] || null
+    let range = numberRanges.get(ptr)
+    if (range === undefined) numberRanges.set(ptr, range = computeRange(ptr))
+    return range
+  }
+
+  const safeRange = (min: number, max: number, usesBigInt: boolean): NumberRange | null => {
+    return min >= -Number.MAX_SAFE_INTEGER && max <= Number.MAX_SAFE_INTEGER ? [min, max, usesBigInt] : null
+  }
+  const isInt32 = (range: NumberRange): boolean => range[0] >= -0x8000_0000 && range[1] <= 0x7FFF_FFFF
+  const isUint32 = (range: NumberRange): boolean => range[0] >= 0 && range[1] <= 0xFFFF_FFFF
+
+  // Bitwise operations use 32-bit math, which works if the operands are
+  // either both signed or both unsigned 32-bit integers. Masking with a
+  // non-negative 32-bit integer works for any operand.
+  const canUseBitwise = (op: Op, a: NumberRange | null, b: NumberRange | null): boolean => {
+    return !!a && !!b && (isInt32(a) && isInt32(b) || isUint32(a) && isUint32(b) || op === Op.i64_and && (isUint32(a) || isUint32(b)))
+  }
+
+  // Shift counts and masks are usually constants, possibly wrapped in the
+  // "i64_and" with 63 that is added to every shift count
+  const constantOf = (ptr: number): bigint | null => {
+    if (ptr < 0) return null
+    const op = ast[ptr] & Pack.OpMask
+    if (op === Op.i64_const) return BigInt.asUintN(64, constants[ast[ptr + 1]])
+    if (op !== Op.i64_and) return null
+    const a = constantOf(ast[ptr + 1]), b = constantOf(ast[ptr + 2])
+    return a !== null && b !== null ? a & b : null
+  }
+
+  const computeRange = (ptr: number): NumberRange | null => {
+    const node = ast[ptr]
+    const op = node & Pack.OpMask
+
+    switch (op) {
+      case Op.i64_const: {
+        const value = Number(BigInt.asIntN(64, constants[ast[ptr + 1]]))
+        return safeRange(value, value, false)
+      }
+
+      case Op.i64_extend_i32_s: case Op.i64_load32_s: return [-0x8000_0000, 0x7FFF_FFFF, false]
+      case Op.i64_extend_i32_u: case Op.i64_load32_u: return [0, 0xFFFF_FFFF, false]
+      case Op.i64_load8_s: return [-0x80, 0x7F, false]
+      case Op.i64_load8_u: return [0, 0xFF, false]
+      case Op.i64_load16_s: return [-0x8000, 0x7FFF, false]
+      case Op.i64_load16_u: return [0, 0xFFFF, false]
+
+      case Op.i64_extend8_s: case Op.i64_extend16_s: case Op.i64_extend32_s: {
+        const a = rangeOf(ast[ptr + 1])
+        const bits = op === Op.i64_extend8_s ? 8 : op === Op.i64_extend16_s ? 16 : 32
+        return a && [-(2 ** (bits - 1)), 2 ** (bits - 1) - 1, a[2]]
+      }
+
+      // Ranges are signed, so converting to signed doesn't change them
+      case Op.TO_S64: return rangeOf(ast[ptr + 1])
+
+      case Op.i64_add: case Op.i64_sub: case Op.i64_mul: {
+        const a = rangeOf(ast[ptr + 1]), b = rangeOf(ast[ptr + 2])
+        if (!a || !b) return null
+        const usesBigInt = a[2] || b[2]
+        if (op === Op.i64_add) return safeRange(a[0] + b[0], a[1] + b[1], usesBigInt)
+        if (op === Op.i64_sub) return safeRange(a[0] - b[1], a[1] - b[0], usesBigInt)
+        const products = [a[0] * b[0], a[0] * b[1], a[1] * b[0], a[1] * b[1]]
+        return safeRange(Math.min(...products), Math.max(...products), usesBigInt)
+      }
+
+      // Division by zero must still trap, so the divisor must not include zero.
+      // Unsigned division only works if both operands are non-negative. Note
+      // that "Math.trunc(a / b)" is exact when "a" is a safe integer.
+      case Op.i64_div_s: case Op.i64_div_u: case Op.i64_rem_s: case Op.i64_rem_u: {
+        const a = rangeOf(ast[ptr + 1]), b = rangeOf(ast[ptr + 2])
+        const unsigned = op === Op.i64_div_u || op === Op.i64_rem_u
+        if (!a || !b || b[0] <= 0 && b[1] >= 0 || unsigned && (a[0] < 0 || b[0] < 0)) return null
+        const usesBigInt = a[2] || b[2]
+        if (op === Op.i64_div_s || op === Op.i64_div_u) {
+          const max = Math.floor(Math.max(-a[0], a[1]) / (b[0] > 0 ? b[0] : -b[1]))
+          return a[0] >= 0 && b[0] > 0 ? [0, max, usesBigInt] : [-max, max, usesBigInt]
+        }
+        const max = Math.max(-b[0], b[1]) - 1
+        return [Math.max(Math.min(a[0], 0), -max), Math.min(Math.max(a[1], 0), max), usesBigInt]
+      }
+
+      // Masking with a constant also limits the range of a full 64-bit operand
+      case Op.i64_and: case Op.i64_or: case Op.i64_xor: {
+        const a = rangeOf(ast[ptr + 1]), b = rangeOf(ast[ptr + 2])
+        if (a && b && canUseBitwise(op, a, b)) {
+          const usesBigInt = a[2] || b[2]
+          if (op === Op.i64_and && (isUint32(a) || isUint32(b))) return [0, Math.min(isUint32(a) ? a[1] : Infinity, isUint32(b) ? b[1] : Infinity), usesBigInt]
+          if (isUint32(a) && isUint32(b)) return [0, 2 ** (32 - Math.clz32(Math.max(a[1], b[1]))) - 1, usesBigInt]
+          return [-0x8000_0000, 0x7FFF_FFFF, usesBigInt]
+        }
+        if (op !== Op.i64_and) return null
+        const mask = constantOf(ast[ptr + 2])
+        return mask !== null && mask <= Number.MAX_SAFE_INTEGER ? [0, Number(mask), true] : null
+      }
+
+      // Shifts by a constant are multiplication and division by a power of
+      // two. Large unsigned right shifts of any operand fit in a safe integer.
+      case Op.i64_shl: case Op.i64_shr_s: case Op.i64_shr_u: {
+        const count = constantOf(ast[ptr + 2])
+        if (count === null) return null
+        const scale = 2 ** Number(count & 63n)
+        const a = rangeOf(ast[ptr + 1])
+        if (op === Op.i64_shl) return a && safeRange(a[0] * scale, a[1] * scale, a[2])
+        if (a && (op === Op.i64_shr_s || a[0] >= 0)) return [Math.floor(a[0] / scale), Math.floor(a[1] / scale), a[2]]
+        return op === Op.i64_shr_u && scale >= 2 ** 11 ? [0, 2 ** 64 / scale - 1, true] : null
+      }
+    }
+
+    return null
+  }
+
+  // This returns the number for a 64-bit expression with a range
+  const emitNumber = (ptr: number): string => {
+    return ptr < 0 ? webName(slotWeb(-ptr)) : `(${emitNumberUnwrapped(ptr)})`
+  }
+
+  const emitNumberUnwrapped = (ptr: number): string => {
+    const node = ast[ptr]
+    const op = node & Pack.OpMask
+
+    switch (op) {
+      case Op.i64_const: return Number(BigInt.asIntN(64, constants[ast[ptr + 1]])) + ''
+
+      case Op.i64_extend_i32_s: return emit(ast[ptr + 1])
+      case Op.i64_extend_i32_u: return `${emit(ast[ptr + 1])}>>>0`
+      case Op.i64_load8_s: return load8(ContextField.Int8Array, ptr)
+      case Op.i64_load8_u: return load8(ContextField.Uint8Array, ptr)
+      case Op.i64_load16_s: return load('Int16', ptr)
+      case Op.i64_load16_u: return load('Uint16', ptr)
+      case Op.i64_load32_s: return load('Int32', ptr)
+      case Op.i64_load32_u: return load('Uint32', ptr)
+
+      case Op.i64_extend8_s: return `${emitNumber(ast[ptr + 1])}<<24>>24`
+      case Op.i64_extend16_s: return `${emitNumber(ast[ptr + 1])}<<16>>16`
+      case Op.i64_extend32_s: return `${emitNumber(ast[ptr + 1])}|0`
+
+      case Op.TO_S64: return emitNumber(ast[ptr + 1])
+
+      case Op.i64_add: return `${emitNumber(ast[ptr + 1])}+${emitNumber(ast[ptr + 2])}`
+      case Op.i64_sub: return `${emitNumber(ast[ptr + 1])}-${emitNumber(ast[ptr + 2])}`
+      case Op.i64_mul: return `${emitNumber(ast[ptr + 1])}*${emitNumber(ast[ptr + 2])}`
+      case Op.i64_div_s: case Op.i64_div_u: return `Math.trunc(${emitNumber(ast[ptr + 1])}/${emitNumber(ast[ptr + 2])})`
+      case Op.i64_rem_s: case Op.i64_rem_u: return `${emitNumber(ast[ptr + 1])}%${emitNumber(ast[ptr + 2])}`
+
+      case Op.i64_and: case Op.i64_or: case Op.i64_xor: {
+        if (!canUseBitwise(op, rangeOf(ast[ptr + 1]), rangeOf(ast[ptr + 2]))) return `Number(${emit(ast[ptr + 1])}&${constantOf(ast[ptr + 2])}n)`
+        const code = `${emitNumber(ast[ptr + 1])}${op === Op.i64_and ? '&' : op === Op.i64_or ? '|' : '^'}${emitNumber(ast[ptr + 2])}`
+        return rangeOf(ptr)![1] > 0x7FFF_FFFF ? `(${code})>>>0` : code
+      }
+
+      case Op.i64_shl: case Op.i64_shr_s: case Op.i64_shr_u: {
+        const count = constantOf(ast[ptr + 2])! & 63n
+        const a = rangeOf(ast[ptr + 1])
+        if (op === Op.i64_shl) return `${emitNumber(ast[ptr + 1])}*${2 ** Number(count)}`
+        if (a && (op === Op.i64_shr_s || a[0] >= 0)) return `Math.floor(${emitNumber(ast[ptr + 1])}/${2 ** Number(count)})`
+        return `Number(${emit(ast[ptr + 1])}>>${count}n)`
+      }
+
+      default: throw 'Internal error'
+    }
+  }
+
+  const toBigInt = (code: string, range: NumberRange): string => {
+    return range[0] < 0 ? `(BigInt(${code})&0xFFFFFFFFFFFFFFFFn)` : `BigInt(${code})`
+  }
+
+  // This handles nodes that can be computed using numbers because of their
+  // ranges. It returns nothing if the node should be emitted as usual.
+  const emitWithNumbers = (ptr: number): string | undefined => {
+    const node = ast[ptr]
+    const op = node & Pack.OpMask
+
+    switch (op) {
+      case Op.BOOL: case Op.BOOL_NOT: case Op.i64_eqz: case Op.i32_wrap_i64: {
+        if (!rangeOf(ast[ptr + 1])) return
+        const a = emitNumber(ast[ptr + 1])
+        return op === Op.BOOL ? a : op === Op.BOOL_NOT ? '!' + a : op === Op.i64_eqz ? `${a}?0:1` : `${a}|0`
+      }
+
+      // Adding zero turns negative zero (e.g. from "0 * -1") into positive zero
+      case Op.f32_convert_i64_s: case Op.f64_convert_i64_s: case Op.f32_convert_i64_u: case Op.f64_convert_i64_u: {
+        const a = rangeOf(ast[ptr + 1])
+        if (!a || a[0] < 0 && (op === Op.f32_convert_i64_u || op === Op.f64_convert_i64_u)) return
+        return `${emitNumber(ast[ptr + 1])}+0`
+      }
+
+      case Op.i64_eq: case Op.i64_ne:
+      case Op.i64_lt_s: case Op.i64_gt_s: case Op.i64_le_s: case Op.i64_ge_s:
+      case Op.i64_lt_u: case Op.i64_gt_u: case Op.i64_le_u: case Op.i64_ge_u: {
+        const a = rangeOf(ast[ptr + 1]), b = rangeOf(ast[ptr + 2])
+        if (!a || !b) return
+        const compare =
+          op === Op.i64_eq ? '===' : op === Op.i64_ne ? '!==' :
+            op === Op.i64_lt_s || op === Op.i64_lt_u ? '<' : op === Op.i64_gt_s || op === Op.i64_gt_u ? '>' :
+              op === Op.i64_le_s || op === Op.i64_le_u ? '<=' : '>='
+
+        // Unsigned comparisons only work if both operands are non-negative
+        const unsigned = op === Op.i64_lt_u || op === Op.i64_gt_u || op === Op.i64_le_u || op === Op.i64_ge_u
+        if (unsigned && (a[0] < 0 || b[0] < 0)) return
+        return `${emitNumber(ast[ptr + 1])}${compare}${emitNumber(ast[ptr + 2])}`
+      }
+
+      // Typed arrays wrap numbers the same way as the low bits of an integer
+      case Op.i64_store8: case Op.i64_store16: case Op.i64_store32: {
+        if (!rangeOf(ast[ptr + 2])) return
+        const value = emitNumber(ast[ptr + 2])
+        return op === Op.i64_store8 ? store8(ContextField.Uint8Array, ptr, value) : op === Op.i64_store16 ? store('Int16', ptr, value) : store('Int32', ptr, value)
+      }
+
+      // Only convert to a BigInt at the end if some of the math was avoided
+      case Op.TO_S64: case Op.i64_add: case Op.i64_sub: case Op.i64_mul:
+      case Op.i64_div_s: case Op.i64_div_u: case Op.i64_rem_s: case Op.i64_rem_u:
+      case Op.i64_and: case Op.i64_or: case Op.i64_xor:
+      case Op.i64_shl: case Op.i64_shr_s: case Op.i64_shr_u:
+      case Op.i64_extend8_s: case Op.i64_extend16_s: case Op.i64_extend32_s: {
+        const range = rangeOf(ptr)
+        if (!range || range[2]) return
+        const code = emitNumberUnwrapped(ptr)
+        return op === Op.TO_S64 ? `BigInt(${code})` : toBigInt(code, range)
+      }
+    }
+  }
+
+  // With "pairs", 64-bit arguments and return values take up two places
+  const pushArg = (args: string[], ptr: number, type: Type): void => {
+    if (pairs && type === Type.I64) args.push(...emitPair(ptr))
+    else args.push(emit(ptr))
+  }
+  const writeReturns = (slot: number, returnTypes: readonly Type[]): string[] => {
+    const returns: string[] = []
+    for (let i = 0; i < returnTypes.length; i++) {
+      if (pairs && returnTypes[i] === Type.I64) {
+        const name = writePairSlot(slot + i)
+        returns.push(name, name + 'h')
+      } else {
+        returns.push(writeSlot(slot + i))
+      }
+    }
+    return returns
   }
 
   const emitUnwrapped = (ptr: number): string => {
     const node = ast[ptr]
 
+    const code = pairs ? emitWithPairs(ptr) : emitWithNumbers(ptr)
+    if (code !== undefined) return code
+
     switch (node & Pack.OpMask) {
       case Op.i32_trunc_sat_f32_s: return `l.${/* @__KEY__ */ 'i32_trunc_sat_s_'}(${emit(ast[ptr + 1])})`
       case Op.i32_trunc_sat_f32_u: return `l.${/* @__KEY__ */ 'i32_trunc_sat_u_'}(${emit(ast[ptr + 1])})`
@@ -129,83 +809,102 @@ export const compileCode = (
       case Op.i64_trunc_sat_f64_s: return `l.${/* @__KEY__ */ 'i64_trunc_sat_s_'}(${emit(ast[ptr + 1])})`
       case Op.i64_trunc_sat_f64_u: return `l.${/* @__KEY__ */ 'i64_trunc_sat_u_'}(${emit(ast[ptr + 1])})`
 
-      case Op.memory_copy: return `c.${ContextField.Uint8Array}.copyWithin(${emit(ast[ptr + 1])},T=${emit(ast[ptr + 2])},T+${emit(ast[ptr + 3])})`
-      case Op.memory_fill: return `c.${ContextField.Uint8Array}.fill(${emit(ast[ptr + 1])},T=${emit(ast[ptr + 2])},T+${emit(ast[ptr + 3])})`
+      case Op.memory_copy: return boundsChecks
+        ? `l.${/* @__KEY__ */ 'memory_copy_'}(c.${ContextField.Uint8Array},${emit(ast[ptr + 1])},${emit(ast[ptr + 2])},${emit(ast[ptr + 3])})`
+        : `c.${ContextField.Uint8Array}.copyWithin(${emit(ast[ptr + 1])},T=${emit(ast[ptr + 2])},T+${emit(ast[ptr + 3])})`
+      case Op.memory_init: return `l.${/* @__KEY__ */ 'memory_init_'}(c.${ContextField.Uint8Array},d[${ast[ptr + 4]}],${emit(ast[ptr + 1])},${emit(ast[ptr + 2])},${emit(ast[ptr + 3])})`
+      case Op.data_drop: return `d[${ast[ptr + 1]}]=new Uint8Array`
+      case Op.memory_fill: return boundsChecks
+        ? `l.${/* @__KEY__ */ 'memory_fill_'}(c.${ContextField.Uint8Array},${emit(ast[ptr + 1])},${emit(ast[ptr + 2])},${emit(ast[ptr + 3])})`
+        : `c.${ContextField.Uint8Array}.fill(${emit(ast[ptr + 1])},T=${emit(ast[ptr + 2])},T+${emit(ast[ptr + 3])})`
 
       case Op.call: {
         const childCount = (node >> Pack.ChildCountShift) & Pack.ChildCountMask
         const funcIndex = ast[ptr + childCount + 1]
         const [argTypes, returnTypes] = funcTypes[funcIndex]
         const args: string[] = []
-        for (let i = 1; i <= childCount; i++) args.push(emit(ast[ptr + i]))
+        for (let i = 1; i <= childCount; i++) pushArg(args, ast[ptr + i], argTypes[i - 1])
         const code = `f[${funcIndex}](${args})`
         if (returnTypes.length < 2) return code
-        const slot = ast[ptr + childCount + 2]
-        const returns: string[] = []
-        for (let i = 0; i < returnTypes.length; i++) returns.push(stackSlotName(slot + i))
-        return `[${returns}]=${code}`
+        return `[${writeReturns(ast[ptr + childCount + 2], returnTypes)}]=${code}`
       }
       case Op.call_indirect: {
         const childCount = (node >> Pack.ChildCountShift) & Pack.ChildCountMask
         const typeIndex = ast[ptr + childCount + 2]
+        const table = tableName(ast[ptr + childCount + 3])
         const [argTypes, returnTypes] = typeSection[typeIndex]
         const args: string[] = []
         const func = emit(ast[ptr + 1])
-        for (let i = 1; i <= childCount; i++) args.push(emit(ast[ptr + i + 1]))
-        const code = `t[${func}](${args})`
+        for (let i = 1; i <= childCount; i++) pushArg(args, ast[ptr + i + 1], argTypes[i - 1])
+        const code = traps
+          ? `l.${/* @__KEY__ */ 'call_indirect_'}(${table},${func},${typeName(typeIndex)})(${args})`
+          : `${table}[${func}](${args})`
         if (returnTypes.length < 2) return code
-        const slot = ast[ptr + childCount + 3]
-        const returns: string[] = []
-        for (let i = 0; i < returnTypes.length; i++) returns.push(stackSlotName(slot + i))
-        return `[${returns}]=${code}`
+        return `[${writeReturns(ast[ptr + childCount + 4], returnTypes)}]=${code}`
       }
 
       case Op.select: return `${emit(ast[ptr + 1])}?${emit(ast[ptr + 2])}:${emit(ast[ptr + 3])}`
 
       case Op.local_get: return names[ast[ptr + 1]]
       case Op.local_set: case Op.local_tee: return `${names[ast[ptr + 2]]}=${emit(ast[ptr + 1])}`
-      case Op.global_get: return `g[${ast[ptr + 1]}]`
-      case Op.global_set: return `g[${ast[ptr + 2]}]=${emit(ast[ptr + 1])}`
-
-      case Op.i32_load: return load('Int32', ast[ptr + 1], ast[ptr + 2])
-      case Op.U32_LOAD: return load('Uint32', ast[ptr + 1], ast[ptr + 2])
-      case Op.i64_load: return load('BigUint64', ast[ptr + 1], ast[ptr + 2])
-      case Op.S64_LOAD: return load('BigInt64', ast[ptr + 1], ast[ptr + 2])
-      case Op.f32_load: return load('Float32', ast[ptr + 1], ast[ptr + 2])
-      case Op.f64_load: return load('Float64', ast[ptr + 1], ast[ptr + 2])
-      case Op.i32_load8_s: return load8(ContextField.Int8Array, ast[ptr + 1], ast[ptr + 2])
-      case Op.i32_load8_u: return load8(ContextField.Uint8Array, ast[ptr + 1], ast[ptr + 2])
-      case Op.i32_load16_s: return load('Int16', ast[ptr + 1], ast[ptr + 2])
-      case Op.i32_load16_u: return load('Uint16', ast[ptr + 1], ast[ptr + 2])
-      case Op.i64_load8_s: return `BigInt(${load8(ContextField.Int8Array, ast[ptr + 1], ast[ptr + 2])})&0xFFFFFFFFFFFFFFFFn`
-      case Op.i64_load8_u: return `BigInt(${load8(ContextField.Uint8Array, ast[ptr + 1], ast[ptr + 2])})`
-      case Op.i64_load16_s: return `BigInt(${load('Int16', ast[ptr + 1], ast[ptr + 2])})&0xFFFFFFFFFFFFFFFFn`
-      case Op.i64_load16_u: return `BigInt(${load('Uint16', ast[ptr + 1], ast[ptr + 2])})`
-      case Op.i64_load32_s: return `BigInt(${load('Int32', ast[ptr + 1], ast[ptr + 2])})&0xFFFFFFFFFFFFFFFFn`
-      case Op.i64_load32_u: return `BigInt(${load('Uint32', ast[ptr + 1], ast[ptr + 2])})`
-      case Op.i32_store: return store('Int32', ast[ptr + 1], ast[ptr + 3], emit(ast[ptr + 2]))
-      case Op.i64_store: return store('BigUint64', ast[ptr + 1], ast[ptr + 3], emit(ast[ptr + 2]))
-      case Op.f32_store: return store('Float32', ast[ptr + 1], ast[ptr + 3], emit(ast[ptr + 2]))
-      case Op.f64_store: return store('Float64', ast[ptr + 1], ast[ptr + 3], emit(ast[ptr + 2]))
-      case Op.i32_store8: return store8(ContextField.Uint8Array, ast[ptr + 1], ast[ptr + 3], emit(ast[ptr + 2]))
-      case Op.i32_store16: return store('Int16', ast[ptr + 1], ast[ptr + 3], emit(ast[ptr + 2]))
-      case Op.i64_store8: return store8(ContextField.Uint8Array, ast[ptr + 1], ast[ptr + 3], `Number(${emit(ast[ptr + 2])}&255n)`)
-      case Op.i64_store16: return store('Int16', ast[ptr + 1], ast[ptr + 3], `Number(${emit(ast[ptr + 2])}&65535n)`)
-      case Op.i64_store32: return store('Int32', ast[ptr + 1], ast[ptr + 3], `Number(${emit(ast[ptr + 2])}&0xFFFFFFFFn)`)
+      case Op.global_get: return `${globalName(ast[ptr + 1])}.${/* @__KEY__ */ 'value_'}`
+      case Op.global_set: return `${globalName(ast[ptr + 2])}.${/* @__KEY__ */ 'value_'}=${emit(ast[ptr + 1])}`
+
+      case Op.table_get: return `l.${/* @__KEY__ */ 'table_get_'}(${tableName(ast[ptr + 2])},${emit(ast[ptr + 1])})`
+      case Op.table_set: return `l.${/* @__KEY__ */ 'table_set_'}(${tableName(ast[ptr + 3])},${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})`
+      case Op.table_grow: return `t[${ast[ptr + 3]}].${/* @__KEY__ */ 'grow_'}(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})`
+      case Op.table_init: return `l.${/* @__KEY__ */ 'table_init_'}(${tableName(ast[ptr + 5])},p[${ast[ptr + 4]}],${emit(ast[ptr + 1])},${emit(ast[ptr + 2])},${emit(ast[ptr + 3])})`
+      case Op.elem_drop: return `p[${ast[ptr + 1]}]=[]`
+      case Op.table_copy: return `l.${/* @__KEY__ */ 'table_copy_'}(${tableName(ast[ptr + 4])},${tableName(ast[ptr + 5])},${emit(ast[ptr + 1])},${emit(ast[ptr + 2])},${emit(ast[ptr + 3])})`
+      case Op.TABLE_SIZE: return `${tableName(ast[ptr + 1])}.length`
+      case Op.TABLE_FILL: return `l.${/* @__KEY__ */ 'table_fill_'}(${tableName(ast[ptr + 4])},${emit(ast[ptr + 1])},${emit(ast[ptr + 2])},${emit(ast[ptr + 3])})`
+
+      case Op.ref_null: return 'null'
+      case Op.ref_is_null: return `${emit(ast[ptr + 1])}===null`
+      case Op.ref_func: return `r(${ast[ptr + 1]})`
+
+      case Op.i32_load: return load('Int32', ptr)
+      case Op.U32_LOAD: return load('Uint32', ptr)
+      case Op.i64_load: return load('BigUint64', ptr)
+      case Op.S64_LOAD: return load('BigInt64', ptr)
+      case Op.f32_load: return load('Float32', ptr)
+      case Op.f64_load: return load('Float64', ptr)
+      case Op.i32_load8_s: return load8(ContextField.Int8Array, ptr)
+      case Op.i32_load8_u: return load8(ContextField.Uint8Array, ptr)
+      case Op.i32_load16_s: return load('Int16', ptr)
+      case Op.i32_load16_u: return load('Uint16', ptr)
+      case Op.i64_load8_s: return `BigInt(${load8(ContextField.Int8Array, ptr)})&0xFFFFFFFFFFFFFFFFn`
+      case Op.i64_load8_u: return `BigInt(${load8(ContextField.Uint8Array, ptr)})`
+      case Op.i64_load16_s: return `BigInt(${load('Int16', ptr)})&0xFFFFFFFFFFFFFFFFn`
+      case Op.i64_load16_u: return `BigInt(${load('Uint16', ptr)})`
+      case Op.i64_load32_s: return `BigInt(${load('Int32', ptr)})&0xFFFFFFFFFFFFFFFFn`
+      case Op.i64_load32_u: return `BigInt(${load('Uint32', ptr)})`
+      case Op.i32_store: return store('Int32', ptr, emit(ast[ptr + 2]))
+      case Op.i64_store: return store('BigUint64', ptr, emit(ast[ptr + 2]))
+      case Op.f32_store: return store('Float32', ptr, emit(ast[ptr + 2]))
+      case Op.f64_store: return store('Float64', ptr, emit(ast[ptr + 2]))
+      case Op.i32_store8: return store8(ContextField.Uint8Array, ptr, emit(ast[ptr + 2]))
+      case Op.i32_store16: return store('Int16', ptr, emit(ast[ptr + 2]))
+      case Op.i64_store8: return store8(ContextField.Uint8Array, ptr, `Number(${emit(ast[ptr + 2])}&255n)`)
+      case Op.i64_store16: return store('Int16', ptr, `Number(${emit(ast[ptr + 2])}&65535n)`)
+      case Op.i64_store32: return store('Int32', ptr, `Number(${emit(ast[ptr + 2])}&0xFFFFFFFFn)`)
 
       case Op.memory_size: {
-        if (ast[ptr + 1]) throw new Error('Unsupported non-zero memory index')
+        if (ast[ptr + 1]) throw new CompileError('Unsupported non-zero memory index')
         return `c.${ContextField.PageCount}`
       }
       case Op.memory_grow: {
-        if (ast[ptr + 2]) throw new Error('Unsupported non-zero memory index')
+        if (ast[ptr + 2]) throw new CompileError('Unsupported non-zero memory index')
         return `c.${ContextField.PageGrow}(${emit(ast[ptr + 1])})`
       }
 
       case Op.i32_const: return ast[ptr + 1] + ''
       case Op.i64_const: return (constants[ast[ptr + 1]] & 0xFFFF_FFFF_FFFF_FFFFn) + 'n'
-      case Op.f32_const: return dataView.getFloat32(ast[ptr + 1], true) + ''
-      case Op.f64_const: return dataView.getFloat64(ast[ptr + 1], true) + ''
+      case Op.f32_const: case Op.f64_const: {
+        const bits = constants[ast[ptr + 1]]
+        const value = (node & Pack.OpMask) === Op.f32_const ? f32FromBits(bits) : f64FromBits(bits)
+        return Object.is(value, -0) ? '-0' : value + ''
+      }
 
       case Op.BOOL: return emit(ast[ptr + 1])
       case Op.BOOL_NOT: return `!${emit(ast[ptr + 1])}`
@@ -227,8 +926,9 @@ export const compileCode = (
       case Op.i32_add: return `${emit(ast[ptr + 1])}+${emit(ast[ptr + 2])}|0`
       case Op.i32_sub: return `${emit(ast[ptr + 1])}-${emit(ast[ptr + 2])}|0`
       case Op.i32_mul: return `Math.imul(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})`
-      case Op.i32_div_u: case Op.i32_div_s: return `${emit(ast[ptr + 1])}/${emit(ast[ptr + 2])}|0`
-      case Op.i32_rem_u: case Op.i32_rem_s: return `${emit(ast[ptr + 1])}%${emit(ast[ptr + 2])}|0`
+      case Op.i32_div_s: return traps ? `l.${/* @__KEY__ */ 'i32_div_s_'}(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})` : `${emit(ast[ptr + 1])}/${emit(ast[ptr + 2])}|0`
+      case Op.i32_div_u: return traps ? `l.${/* @__KEY__ */ 'i32_div_u_'}(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})` : `${emit(ast[ptr + 1])}/${emit(ast[ptr + 2])}|0`
+      case Op.i32_rem_u: case Op.i32_rem_s: return traps ? `l.${/* @__KEY__ */ 'i32_rem_'}(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})` : `${emit(ast[ptr + 1])}%${emit(ast[ptr + 2])}|0`
       case Op.i32_and: return `${emit(ast[ptr + 1])}&${emit(ast[ptr + 2])}`
       case Op.i32_or: return `${emit(ast[ptr + 1])}|${emit(ast[ptr + 2])}`
       case Op.i32_xor: return `${emit(ast[ptr + 1])}^${emit(ast[ptr + 2])}`
@@ -244,10 +944,10 @@ export const compileCode = (
       case Op.i64_add: return `(${emit(ast[ptr + 1])}+${emit(ast[ptr + 2])})&0xFFFFFFFFFFFFFFFFn`
       case Op.i64_sub: return `(${emit(ast[ptr + 1])}-${emit(ast[ptr + 2])})&0xFFFFFFFFFFFFFFFFn`
       case Op.i64_mul: return `(${emit(ast[ptr + 1])}*${emit(ast[ptr + 2])})&0xFFFFFFFFFFFFFFFFn`
-      case Op.i64_div_s: return `${emit(ast[ptr + 1])}/${emit(ast[ptr + 2])}&0xFFFFFFFFFFFFFFFFn`
-      case Op.i64_div_u: return `${emit(ast[ptr + 1])}/${emit(ast[ptr + 2])}`
-      case Op.i64_rem_s: return `${emit(ast[ptr + 1])}%${emit(ast[ptr + 2])}&0xFFFFFFFFFFFFFFFFn`
-      case Op.i64_rem_u: return `${emit(ast[ptr + 1])}%${emit(ast[ptr + 2])}`
+      case Op.i64_div_s: return traps ? `l.${/* @__KEY__ */ 'i64_div_s_'}(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})` : `${emit(ast[ptr + 1])}/${emit(ast[ptr + 2])}&0xFFFFFFFFFFFFFFFFn`
+      case Op.i64_div_u: return traps ? `l.${/* @__KEY__ */ 'i64_div_u_'}(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})` : `${emit(ast[ptr + 1])}/${emit(ast[ptr + 2])}`
+      case Op.i64_rem_s: return traps ? `l.${/* @__KEY__ */ 'i64_rem_'}(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})` : `${emit(ast[ptr + 1])}%${emit(ast[ptr + 2])}&0xFFFFFFFFFFFFFFFFn`
+      case Op.i64_rem_u: return traps ? `l.${/* @__KEY__ */ 'i64_rem_'}(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})` : `${emit(ast[ptr + 1])}%${emit(ast[ptr + 2])}`
       case Op.i64_and: return `${emit(ast[ptr + 1])}&${emit(ast[ptr + 2])}`
       case Op.i64_or: return `${emit(ast[ptr + 1])}|${emit(ast[ptr + 2])}`
       case Op.i64_xor: return `${emit(ast[ptr + 1])}^${emit(ast[ptr + 2])}`
@@ -273,10 +973,12 @@ export const compileCode = (
       case Op.f32_copysign: case Op.f64_copysign: return `l.${/* @__KEY__ */ 'copysign_'}(${emit(ast[ptr + 1])},${emit(ast[ptr + 2])})`
 
       case Op.i32_wrap_i64: return `Number(${emit(ast[ptr + 1])}&0xFFFFFFFFn)|0`
-      case Op.i32_trunc_f32_s: case Op.i32_trunc_f32_u: case Op.i32_trunc_f64_s: case Op.i32_trunc_f64_u: return `Math.trunc(${emit(ast[ptr + 1])})|0`
-      case Op.i64_extend_i32_s: return `BigInt(${emit(ast[ptr + 1])})`
+      case Op.i32_trunc_f32_s: case Op.i32_trunc_f64_s: return traps ? `l.${/* @__KEY__ */ 'i32_trunc_s_'}(${emit(ast[ptr + 1])})` : `Math.trunc(${emit(ast[ptr + 1])})|0`
+      case Op.i32_trunc_f32_u: case Op.i32_trunc_f64_u: return traps ? `l.${/* @__KEY__ */ 'i32_trunc_u_'}(${emit(ast[ptr + 1])})` : `Math.trunc(${emit(ast[ptr + 1])})|0`
+      case Op.i64_extend_i32_s: return `BigInt(${emit(ast[ptr + 1])})&0xFFFFFFFFFFFFFFFFn`
       case Op.i64_extend_i32_u: return `BigInt(${emit(ast[ptr + 1])}>>>0)`
-      case Op.i64_trunc_f32_s: case Op.i64_trunc_f32_u: case Op.i64_trunc_f64_s: case Op.i64_trunc_f64_u: return `BigInt(Math.trunc(${emit(ast[ptr + 1])}))&0xFFFFFFFFFFFFFFFFn`
+      case Op.i64_trunc_f32_s: case Op.i64_trunc_f64_s: return traps ? `l.${/* @__KEY__ */ 'i64_trunc_s_'}(${emit(ast[ptr + 1])})` : `BigInt(Math.trunc(${emit(ast[ptr + 1])}))&0xFFFFFFFFFFFFFFFFn`
+      case Op.i64_trunc_f32_u: case Op.i64_trunc_f64_u: return traps ? `l.${/* @__KEY__ */ 'i64_trunc_u_'}(${emit(ast[ptr + 1])})` : `BigInt(Math.trunc(${emit(ast[ptr + 1])}))&0xFFFFFFFFFFFFFFFFn`
       case Op.f32_convert_i64_s: case Op.f32_convert_i64_u: case Op.f64_convert_i64_u: case Op.f64_convert_i64_s: return `Number(${emit(ast[ptr + 1])})`
       case Op.i32_reinterpret_f32: return `l.${/* @__KEY__ */ 'i32_reinterpret_f32_'}(${emit(ast[ptr + 1])})`
       case Op.i64_reinterpret_f64: return `l.${/* @__KEY__ */ 'i64_reinterpret_f64_'}(${emit(ast[ptr + 1])})`
@@ -300,9 +1002,14 @@ export const compileCode = (
     return ptr
   }
 
-  const pushUnary = (op: Op, stackSlot = stackTop): void => {
+  const pushNode = (stackSlot: number): void => {
     astPtrs.push(astNextPtr)
-    ast[astNextPtr++] = op | (1 << Pack.ChildCountShift) | (stackSlot << Pack.OutSlotShift)
+    astSlots.push(stackSlot)
+  }
+
+  const pushUnary = (op: Op, stackSlot = stackTop): void => {
+    pushNode(stackSlot)
+    ast[astNextPtr++] = op | (1 << Pack.ChildCountShift)
     ast[astNextPtr++] = -stackSlot
   }
 
@@ -314,7 +1021,7 @@ export const compileCode = (
       const node = ast[ptr]
       const op = node & Pack.OpMask
       const childCount = (node >> Pack.ChildCountShift) & Pack.ChildCountMask
-      const usesTypedArrays = (op >= Op.i32_load && op <= Op.i64_store32) || op === Op.memory_copy || op === Op.memory_fill
+      const usesTypedArrays = (op >= Op.i32_load && op <= Op.i64_store32) || op === Op.memory_copy || op === Op.memory_fill || op === Op.memory_init
 
       // Inline and optimize the children first
       for (let j = childCount - 1; i >= 0 && j >= 0; j--) {
@@ -357,8 +1064,16 @@ export const compileCode = (
             break
           }
 
+          // Nodes that produce pairs need two variables (see "emitPairNode"),
+          // so they can't be inlined. The type of a "select" isn't known until
+          // its operands have been emitted, so it's never inlined either.
+          if (pairs && astSlots[k] === stackSlot && (prevOp === Op.select ||
+            prevOp !== Op.local_get && prevOp !== Op.i64_const && producesPair(prevPtr))) {
+            break
+          }
+
           // If this load is from the previous store, then inline the node
-          if ((prevNode >>> Pack.OutSlotShift) === stackSlot) {
+          if (astSlots[k] === stackSlot) {
             astPtrs[k] = null // Prevent inlined nodes from being emitted at the top level
             if (!didSkip) i = k - 1 // No need to re-scan these nodes
             ast[ptr + j + 1] = optimizeChildrenAndSelf(prevPtr)
@@ -376,7 +1091,7 @@ export const compileCode = (
       }
 
       // Then optimize the node itself
-      return optimizeNode(ast, constants, allocateNode, ptr)
+      return optimize(ast, constants, allocateNode, ptr)
     }
 
     // Optimize nodes in reverse
@@ -388,62 +1103,179 @@ export const compileCode = (
       }
     }
 
-    // Emit nodes in reverse
+    if (boundsChecks) proveAccessesInBounds()
+
+    // Emit nodes in order (the popped stack top is emitted last)
     let result: string | undefined
-    i = astPtrs.length - 1
-    if (popStackTop) {
-      if (i >= 0 && (ptr = astPtrs[i]) !== null && (ast[ptr] >>> Pack.OutSlotShift) === stackTop) {
-        result = emitUnwrapped(ptr)
-        i--
-      } else {
-        result = 's' + stackTop
-      }
-      stackTop--
-    }
-    while (i >= 0) {
-      if ((ptr = astPtrs[i--]) !== null) {
-        const stackSlot = ast[ptr] >>> Pack.OutSlotShift
-        parts.push(`${stackSlot ? stackSlotName(stackSlot) + '=' : ''}${emitUnwrapped(ptr)};`)
+    let count = astPtrs.length
+    let resultPtr: number | null = null
+    if (popStackTop && count > 0 && astSlots[count - 1] === stackTop) resultPtr = astPtrs[--count]
+    for (i = 0; i < count; i++) {
+      if ((ptr = astPtrs[i]) !== null) {
+        const stackSlot = astSlots[i]
+
+        // Optimizations can reduce a node to one of its operands (e.g. "x + 0")
+        if (ptr < 0) {
+          if (stackSlot && stackSlot !== -ptr) {
+            if (pairs && isPairSlot(-ptr)) {
+              const [lo, hi] = emitPair(ptr)
+              parts.push(assignPair(writePairSlot(stackSlot), lo, hi))
+            } else {
+              const code = readSlot(-ptr)
+              parts.push(`${writeSlot(stackSlot)}=${code};`)
+            }
+          }
+          continue
+        }
+
+        const op = ast[ptr] & Pack.OpMask
 
         // Comment this in to help with debugging
-        // parts.push(`\n  /* ${debugPrintNode(constants, dataView, ptr)} */ `)
+        // parts.push(`\n  /* ${debugPrintNode(constants, ptr, stackSlot)} */ `)
+
+        // Constants are substituted into the code that reads the stack slot
+        if (stackSlot && op >= Op.i32_const && op <= Op.f64_const) {
+          if (pairs && op === Op.i64_const) writePairSlot(stackSlot, ...emitPair(ptr))
+          else writeSlot(stackSlot, emit(ptr))
+          continue
+        }
+
+        // Small 64-bit integers are stored as numbers (see "rangeOf")
+        const range = rangeOf(ptr)
+        if (stackSlot && range) {
+          const code = emitNumberUnwrapped(ptr)
+          parts.push(`${writeSlot(stackSlot)}=${code};`)
+          webRanges[slotWebs[stackSlot]] = range
+          continue
+        }
+
+        // Pairs are stored in two variables (the operands must be emitted first)
+        if (pairs && stackSlot && producesPair(ptr)) {
+          const [lo, hi] = emitPairNode(ptr)
+          parts.push(assignPair(writePairSlot(stackSlot), lo, hi))
+          continue
+        }
+
+        // Emit the value before the stack slot is overwritten
+        const code = emitUnwrapped(ptr)
+        parts.push(`${stackSlot ? writeSlot(stackSlot) + '=' : ''}${code};`)
       }
     }
+    if (popStackTop) {
+      result = resultPtr === null ? readSlot(stackTop) : resultPtr < 0 ? readSlot(-resultPtr) : emitUnwrapped(resultPtr)
+      stackTop--
+    }
 
-    body += parts.reverse().join('')
+    body += parts.join('')
     constants.length = 0
     astPtrs.length = 0
+    astSlots.length = 0
     astNextPtr = 0
+    provenAccesses.clear()
+    numberRanges.clear()
     return result
   }
 
+  // Once a memory access with a given address has been checked, later accesses
+  // in the same basic block with the same address and an end that's no greater
+  // don't need to be checked again (memory can grow but never shrink). This
+  // scans the basic block in evaluation order and only tracks addresses that
+  // come directly from a local or a stack slot, forgetting them when that
+  // local or stack slot is overwritten.
+  const provenAccesses = new Set<number>()
+  const proveAccessesInBounds = (): void => {
+    const provenLocals = new Map<number, number>()
+    const provenSlots = new Map<number, number>()
+
+    const visit = (ptr: number, isConditional: boolean): void => {
+      if (ptr < 0) return
+      const node = ast[ptr]
+      const op = node & Pack.OpMask
+      const childCount = (node >> Pack.ChildCountShift) & Pack.ChildCountMask
+
+      // Only the condition of a "select" is always evaluated
+      for (let i = 1; i <= childCount; i++) {
+        visit(ast[ptr + i], isConditional || (op === Op.select && i > 1))
+      }
+
+      if (op === Op.local_set || op === Op.local_tee) {
+        provenLocals.delete(ast[ptr + 2])
+      }
+
+      else if (op >= Op.i32_load && op <= Op.i64_store32 || op === Op.U32_LOAD || op === Op.S64_LOAD) {
+        const addr = ast[ptr + 1]
+        const end = (ast[ptr + childCount + 1] >>> 0) + memoryAccessSize(op)
+        const proven = addr < 0 ? provenSlots : (ast[addr] & Pack.OpMask) === Op.local_get ? provenLocals : null
+        const key = addr < 0 ? -addr : ast[addr + 1]
+        if (proven) {
+          const provenEnd = proven.get(key)
+          if (provenEnd !== undefined && provenEnd >= end) provenAccesses.add(ptr)
+          else if (!isConditional) proven.set(key, end)
+        }
+      }
+    }
+
+    for (let i = 0; i < astPtrs.length; i++) {
+      const ptr = astPtrs[i]
+      if (ptr === null) continue
+      visit(ptr, false)
+
+      // Forget about stack slots that this node overwrites
+      const op = ast[ptr] & Pack.OpMask
+      if (op === Op.call || op === Op.call_indirect) provenSlots.clear()
+      else provenSlots.delete(astSlots[i])
+    }
+  }
+
   const {
     bytes_: bytes,
     dataView_: dataView,
     codeSection_: codeSection,
     functionSection_: functionSection,
+    globalSection_: globalSection,
+    importSection_: importSection,
     nameSection_: nameSection,
     typeSection_: typeSection,
   } = wasm
 
+  const traps = !!options.traps
+  const boundsChecks = !!options.boundsChecks
+  const pairs = options.i64 === 'pairs'
+  const optimize = optimizerFor(wasm, options)
   const [argTypes, returnTypes] = typeSection[functionSection[codeIndex]]
   const [locals, codeStart, codeEnd] = codeSection[codeIndex]
 
-  // The first set of names are the arguments
+  // The first set of names are the arguments. With "pairs", each 64-bit
+  // argument is passed as two arguments (the low half and then the high half).
   const names: string[] = []
+  const localTypes: Type[] = []
+  const params: string[] = []
   const argCount = argTypes.length
   for (let i = 0; i < argCount; i++) {
     names.push('a' + i)
+    localTypes.push(argTypes[i])
+    params.push('a' + i)
+    if (pairs && argTypes[i] === Type.I64) params.push(`a${i}h`)
   }
 
   // The next set of names are the locals
-  const decls: string[] = ['L', 'T']
+  const decls: string[] = pairs ? ['L', 'T', 'P'] : ['L', 'T']
   for (const [count, type] of locals) {
     for (let i = 0; i < count; i++) {
       const name = 't' + decls.length
       names.push(name)
-      decls.push(name + (type === Type.I64 ? '=0n' : '=0'))
+      localTypes.push(type)
+      decls.push(type === Type.I64 ? pairs ? `${name}=0,${name}h=0` : name + '=0n' : name + (type === Type.FuncRef || type === Type.ExternRef ? '=null' : '=0'))
+    }
+  }
+
+  // Only the types of 64-bit globals matter, and only with "pairs"
+  const globalTypes: Type[] = []
+  if (pairs) {
+    for (const item of importSection) {
+      if (item[2] === Desc.Global) globalTypes.push(item[3])
     }
+    for (const [type] of globalSection) globalTypes.push(type)
   }
 
   // WebAssembly uses "blocks" to represent structured control flow instead of
@@ -544,6 +1376,21 @@ export const compileCode = (
   // the second translation strategy.
   const blockDepthLimit = 256
   const pushBlock = (kind: BlockKind): number => {
+    const [{ length: argCount }, returnTypes] = readBlockType()
+    const returnCount = returnTypes.length
+    const parentStackTop = stackTop - argCount
+
+    // The start of a loop is also reached from the end of the loop, and the end
+    // of an "if" is also reached from the test when there's no "else" branch.
+    // Parameters of these blocks must therefore already be stored in variables.
+    const paramWebs: number[] = []
+    const resultWebs: number[] = []
+    for (let i = 1; i <= argCount; i++) {
+      if (kind !== BlockKind.Normal) materializeSlot(parentStackTop + i)
+      paramWebs.push(slotWeb(parentStackTop + i))
+    }
+    for (let i = 0; i < returnTypes.length; i++) resultWebs.push(newWeb(pairs && returnTypes[i] === Type.I64))
+
     const isBelowLimit = blocks.length < blockDepthLimit
     if (isBelowLimit) {
       body += `b${blocks.length}:`
@@ -553,47 +1400,63 @@ export const compileCode = (
     }
     const labelBreak = isBelowLimit ? -1 : nextLabel++
     const labelContinueOrElse = isBelowLimit ? -1 : kind !== BlockKind.Normal ? nextLabel++ : 0
-    const [argCount, returnCount] = readBlockType()
     blocks.push({
       argCount_: argCount,
       isDead_: false,
       kind_: kind,
       labelBreak_: labelBreak,
       labelContinueOrElse_: labelContinueOrElse,
-      parentStackTop_: stackTop - argCount,
+      parentStackTop_: parentStackTop,
       returnCount_: returnCount,
+      paramWebs_: paramWebs,
+      resultWebs_: resultWebs,
     })
     return labelContinueOrElse
   }
+
+  // Branches must leave the values that they pass to the target block in the
+  // variables that the target block expects. No code is needed if the values
+  // are already in the right stack slots, in which case the webs are merged.
+  const moveValuesForJump = (block: Block, targetWebs: number[]): void => {
+    const count = targetWebs.length
+    for (let i = 1; i <= count; i++) {
+      const slot = stackTop - count + i
+      if (slot === block.parentStackTop_ + i && slotValues[slot] === undefined && !webRanges[slotWeb(slot)]) {
+        mergeWebs(slotWeb(slot), targetWebs[i - 1])
+      } else {
+        body += `${webName(targetWebs[i - 1])}=${readSlot(slot)};`
+        if (pairWebs[targetWebs[i - 1]]) body += `${webName(targetWebs[i - 1])}h=${readSlotHigh(slot)};`
+      }
+    }
+  }
+
   const jump = (index = blocks.length - readU32LEB() - 1): void => {
     if (blocks[blocks.length - 1].isDead_) return
     const block = blocks[index]
     if (!index) {
       // Jumping to block 0 means returning from the function
+      // With "pairs", a single 64-bit return value is returned as its low half
+      // with its high half in "h[0]", and multiple return values are flattened
       if (block.returnCount_ === 1) {
-        body += `return s${stackTop};`
+        if (pairs && returnTypes[0] === Type.I64) body += `h[0]=${readSlotHigh(stackTop)};`
+        body += `return ${readSlot(stackTop)};`
       } else if (block.returnCount_ > 1) {
         const values: string[] = []
-        for (let i = block.returnCount_ - 1; i >= 0; i--) values.push('s' + (stackTop - i))
+        for (let i = block.returnCount_ - 1; i >= 0; i--) {
+          values.push(readSlot(stackTop - i))
+          if (pairs && returnTypes[block.returnCount_ - 1 - i] === Type.I64) values.push(readSlotHigh(stackTop - i))
+        }
         body += `return[${values}];`
       } else {
         body += `return;`
       }
     } else if (block.kind_ === BlockKind.Loop) {
       // Jumping to a loop means jumping to the start of the loop
-      if (stackTop > block.parentStackTop_ + block.argCount_) {
-        for (let i = 1; i <= block.argCount_; i++) {
-          body += `s${block.parentStackTop_ + i}=s${stackTop - block.argCount_ + i};`
-        }
-      }
+      moveValuesForJump(block, block.paramWebs_)
       body += index < blockDepthLimit ? `continue b${index};` : `L=${block.labelContinueOrElse_};continue;`
     } else {
       // Jumping to a block means jumping to the end of the block
-      if (stackTop > block.parentStackTop_ + block.returnCount_) {
-        for (let i = 1; i <= block.returnCount_; i++) {
-          body += `s${block.parentStackTop_ + i}=s${stackTop - block.returnCount_ + i};`
-        }
-      }
+      moveValuesForJump(block, block.resultWebs_)
       body += index <= blockDepthLimit ? `break b${index};` : `L=${block.labelBreak_};continue;`
     }
   }
@@ -605,12 +1468,18 @@ export const compileCode = (
     labelContinueOrElse_: -1,
     parentStackTop_: 0,
     returnCount_: returnTypes.length,
+    paramWebs_: [],
+    resultWebs_: [],
   }]
 
   // This is the slot for the value on the top of the stack. Note that the
   // first stack slot is 1 because slot 0 means "no stack slot".
   let stackTop = 0
 
+  // The start and end of each loop in "body" (see "assignVariablesToWebs")
+  const loopStarts: number[] = []
+  const loopSpans: number[] = []
+
   // Scan over WebAssembly opcodes and compile them to JavaScript as we go
   let bytesPtr = codeStart
   let nextLabel = 0
@@ -624,26 +1493,25 @@ export const compileCode = (
     if (flags & MetaFlag.Simple) {
       if (!blocks[blocks.length - 1].isDead_) {
         const childCount = flags & MetaFlag.PopMask
-        if (flags & MetaFlag.And63) {
-          astPtrs.push(astNextPtr)
-          ast[astNextPtr++] = Op.i64_const | ((stackTop + 1) << Pack.OutSlotShift)
+        if (flags & MetaFlag.And63 && !pairs) {
+          pushNode(stackTop + 1)
+          ast[astNextPtr++] = Op.i64_const
           ast[astNextPtr++] = constants.length
           constants.push(63n)
-          astPtrs.push(astNextPtr)
-          ast[astNextPtr++] = Op.i64_and | (2 << Pack.ChildCountShift) | (stackTop << Pack.OutSlotShift)
+          pushNode(stackTop)
+          ast[astNextPtr++] = Op.i64_and | (2 << Pack.ChildCountShift)
           ast[astNextPtr++] = -stackTop
           ast[astNextPtr++] = -(stackTop + 1)
         }
         stackTop -= childCount
-        if (flags & (MetaFlag.ToU32 | MetaFlag.ToS64)) {
+        if (flags & (pairs ? MetaFlag.ToU32 : MetaFlag.ToU32 | MetaFlag.ToS64)) {
           for (let i = 0; i < childCount; i++) {
             pushUnary(flags & MetaFlag.ToU32 ? Op.TO_U32 : Op.TO_S64, stackTop + i + 1)
           }
         }
         if (!(flags & MetaFlag.Omit)) {
           if (flags & MetaFlag.HasAlign) bytesPtr++ // Alignment hints are ignored
-          astPtrs.push(astNextPtr)
-          if (flags & MetaFlag.Push) op |= (stackTop + 1) << Pack.OutSlotShift
+          pushNode(flags & MetaFlag.Push ? stackTop + 1 : 0)
           ast[astNextPtr++] = op | (childCount << Pack.ChildCountShift)
           for (let i = 1; i <= childCount; i++) ast[astNextPtr++] = -(stackTop + i)
           if (flags & MetaFlag.HasIndex) ast[astNextPtr++] = readU32LEB()
@@ -663,7 +1531,7 @@ export const compileCode = (
           const block = blocks[blocks.length - 1]
           finalizeBasicBlock()
           if (!block.isDead_) {
-            body += '"unreachable"();'
+            body += traps ? `l.${/* @__KEY__ */ 'trap_'}("unreachable");` : '"unreachable"();'
             block.isDead_ = true
           }
           break
@@ -677,6 +1545,7 @@ export const compileCode = (
         case Op.loop: {
           finalizeBasicBlock()
           const label = pushBlock(BlockKind.Loop)
+          loopStarts[blocks.length - 1] = body.length
           body += label < 0 ? 'for(;;){' : `case ${label}:`
           break
         }
@@ -698,6 +1567,8 @@ export const compileCode = (
           body += index < blockDepthLimit ? '}else{' : `case ${block.labelContinueOrElse_}:`
           block.kind_ = BlockKind.Normal // Don't emit the "else" label on "end"
           stackTop = block.parentStackTop_ + block.argCount_
+          forgetSlotsAbove(block.parentStackTop_)
+          for (let i = 1; i <= block.argCount_; i++) slotWebs[block.parentStackTop_ + i] = block.paramWebs_[i - 1]
           block.isDead_ = false
           break
         }
@@ -705,7 +1576,14 @@ export const compileCode = (
         case Op.end: {
           finalizeBasicBlock()
           const index = blocks.length - 1, block = blocks[index]
-          if (block.kind_ !== BlockKind.IfElse) block.labelContinueOrElse_ = 0 // Emit the "else" label if there was no "else" branch
+          if (block.kind_ !== BlockKind.IfElse) {
+            block.labelContinueOrElse_ = 0
+          } else {
+            // Emit the "else" label if there was no "else" branch, which
+            // passes the parameters through as the results
+            for (let i = 0; i < block.returnCount_; i++) mergeWebs(block.paramWebs_[i], block.resultWebs_[i])
+          }
+          const isLoop = block.kind_ === BlockKind.Loop
           block.kind_ = BlockKind.Normal // Emit "break" not "continue"
           jump(index)
           if (index < blockDepthLimit) {
@@ -715,7 +1593,10 @@ export const compileCode = (
             body += `case ${block.labelBreak_}:`
             if (index == blockDepthLimit) body += `}break}`
           }
+          if (isLoop) loopSpans.push(loopStarts[index], body.length)
           stackTop = block.parentStackTop_ + block.returnCount_
+          forgetSlotsAbove(block.parentStackTop_)
+          for (let i = 1; i <= block.returnCount_; i++) slotWebs[block.parentStackTop_ + i] = block.resultWebs_[i - 1]
           blocks.pop()
           break
         }
@@ -760,8 +1641,7 @@ export const compileCode = (
           if (!blocks[blocks.length - 1].isDead_) {
             const [argTypes, returnTypes] = funcTypes[funcIndex]
             stackTop -= argTypes.length
-            astPtrs.push(astNextPtr)
-            if (returnTypes.length === 1) op |= (stackTop + 1) << Pack.OutSlotShift // Only single-return functions can be inlined
+            pushNode(returnTypes.length === 1 ? stackTop + 1 : 0) // Only single-return functions can be inlined
             ast[astNextPtr++] = op | (argTypes.length << Pack.ChildCountShift)
             for (let i = 1; i <= argTypes.length; i++) ast[astNextPtr++] = -(stackTop + i)
             ast[astNextPtr++] = funcIndex // Append the function index to reconstruct the return count
@@ -774,29 +1654,33 @@ export const compileCode = (
         case Op.call_indirect: {
           const typeIndex = readU32LEB()
           const tableIndex = readU32LEB()
-          if (tableIndex !== 0) throw new Error('Unsupported table index: ' + tableIndex)
           if (!blocks[blocks.length - 1].isDead_) {
             const [argTypes, returnTypes] = typeSection[typeIndex]
             stackTop -= argTypes.length + 1
-            astPtrs.push(astNextPtr)
-            if (returnTypes.length === 1) op |= (stackTop + 1) << Pack.OutSlotShift // Only single-return functions can be inlined
+            pushNode(returnTypes.length === 1 ? stackTop + 1 : 0) // Only single-return functions can be inlined
             ast[astNextPtr++] = op | (argTypes.length << Pack.ChildCountShift)
             ast[astNextPtr++] = -(stackTop + argTypes.length + 1) // This is the function pointer
             for (let i = 1; i <= argTypes.length; i++) ast[astNextPtr++] = -(stackTop + i)
             ast[astNextPtr++] = typeIndex // Append the type index to reconstruct the return count
+            ast[astNextPtr++] = tableIndex
             if (returnTypes.length > 1) ast[astNextPtr++] = stackTop + 1 // Append the first stack slot for unpacking the return values
             stackTop += returnTypes.length
           }
           break
         }
 
-        case Op.select: {
+        case Op.select:
+        case Op.select_type: {
+          if (op === Op.select_type) {
+            const typeCount = readU32LEB()
+            bytesPtr += typeCount // The value types are ignored
+          }
           // Note: JS evaluation order is different than WASM evaluation order here
           if (!blocks[blocks.length - 1].isDead_) {
             pushUnary(Op.BOOL)
             stackTop -= 2
-            astPtrs.push(astNextPtr)
-            ast[astNextPtr++] = op | (3 << Pack.ChildCountShift) | (stackTop << Pack.OutSlotShift)
+            pushNode(stackTop)
+            ast[astNextPtr++] = Op.select | (3 << Pack.ChildCountShift)
             ast[astNextPtr++] = -(stackTop + 2)
             ast[astNextPtr++] = -stackTop
             ast[astNextPtr++] = -(stackTop + 1)
@@ -806,8 +1690,8 @@ export const compileCode = (
 
         case Op.i32_const:
           if (!blocks[blocks.length - 1].isDead_) {
-            astPtrs.push(astNextPtr)
-            ast[astNextPtr++] = op | (++stackTop << Pack.OutSlotShift)
+            pushNode(++stackTop)
+            ast[astNextPtr++] = op
             ast[astNextPtr++] = readI32LEB() // Store the constant inline
           } else {
             readI32LEB()
@@ -816,8 +1700,8 @@ export const compileCode = (
 
         case Op.i64_const:
           if (!blocks[blocks.length - 1].isDead_) {
-            astPtrs.push(astNextPtr)
-            ast[astNextPtr++] = op | (++stackTop << Pack.OutSlotShift)
+            pushNode(++stackTop)
+            ast[astNextPtr++] = op
             ast[astNextPtr++] = constants.length // Store an index to the constant
             constants.push(readI64LEB())
           } else {
@@ -827,18 +1711,20 @@ export const compileCode = (
 
         case Op.f32_const:
           if (!blocks[blocks.length - 1].isDead_) {
-            astPtrs.push(astNextPtr)
-            ast[astNextPtr++] = op | (++stackTop << Pack.OutSlotShift)
-            ast[astNextPtr++] = bytesPtr // Store the offset of the constant in the file
+            pushNode(++stackTop)
+            ast[astNextPtr++] = op
+            ast[astNextPtr++] = constants.length // Store an index to the bits of the constant
+            constants.push(BigInt(dataView.getUint32(bytesPtr, true)))
           }
           bytesPtr += 4
           break
 
         case Op.f64_const:
           if (!blocks[blocks.length - 1].isDead_) {
-            astPtrs.push(astNextPtr)
-            ast[astNextPtr++] = op | (++stackTop << Pack.OutSlotShift)
-            ast[astNextPtr++] = bytesPtr // Store the offset of the constant in the file
+            pushNode(++stackTop)
+            ast[astNextPtr++] = op
+            ast[astNextPtr++] = constants.length // Store an index to the bits of the constant
+            constants.push(dataView.getBigUint64(bytesPtr, true))
           }
           bytesPtr += 8
           break
@@ -849,68 +1735,136 @@ export const compileCode = (
             if (!blocks[blocks.length - 1].isDead_) {
               pushUnary(op)
             }
+          } else if (op === Op.memory_init) {
+            const segmentIndex = readU32LEB()
+            if (bytes[bytesPtr++]) throw new CompileError('Unsupported non-zero memory index')
+            if (!blocks[blocks.length - 1].isDead_) {
+              stackTop -= 3
+              pushNode(0)
+              ast[astNextPtr++] = op | (3 << Pack.ChildCountShift)
+              ast[astNextPtr++] = -(stackTop + 1)
+              ast[astNextPtr++] = -(stackTop + 2)
+              ast[astNextPtr++] = -(stackTop + 3)
+              ast[astNextPtr++] = segmentIndex
+            }
+          } else if (op === Op.data_drop) {
+            const segmentIndex = readU32LEB()
+            if (!blocks[blocks.length - 1].isDead_) {
+              pushNode(0)
+              ast[astNextPtr++] = op
+              ast[astNextPtr++] = segmentIndex
+            }
           } else if (op === Op.memory_copy) {
-            if (bytes[bytesPtr++] || bytes[bytesPtr++]) throw new Error('Unsupported non-zero memory index') // Source and destination
+            if (bytes[bytesPtr++] || bytes[bytesPtr++]) throw new CompileError('Unsupported non-zero memory index') // Source and destination
             if (!blocks[blocks.length - 1].isDead_) {
               stackTop -= 2
-              astPtrs.push(astNextPtr)
-              ast[astNextPtr++] = op | (3 << Pack.ChildCountShift) | (stackTop << Pack.OutSlotShift)
+              pushNode(stackTop)
+              ast[astNextPtr++] = op | (3 << Pack.ChildCountShift)
               ast[astNextPtr++] = -stackTop
               ast[astNextPtr++] = -(stackTop + 1)
               ast[astNextPtr++] = -(stackTop + 2)
             }
           } else if (op === Op.memory_fill) {
-            if (bytes[bytesPtr++]) throw new Error('Unsupported non-zero memory index') // Destination
+            if (bytes[bytesPtr++]) throw new CompileError('Unsupported non-zero memory index') // Destination
             if (!blocks[blocks.length - 1].isDead_) {
               // Note: JS evaluation order is different than WASM evaluation order here
               stackTop -= 2
-              astPtrs.push(astNextPtr)
-              ast[astNextPtr++] = op | (3 << Pack.ChildCountShift) | (stackTop << Pack.OutSlotShift)
+              pushNode(stackTop)
+              ast[astNextPtr++] = op | (3 << Pack.ChildCountShift)
               ast[astNextPtr++] = -(stackTop + 1)
               ast[astNextPtr++] = -stackTop
               ast[astNextPtr++] = -(stackTop + 2)
             }
+          } else if (op === Op.table_init || op === Op.table_copy) {
+            const firstIndex = readU32LEB() // This is the segment for "table.init" and the destination for "table.copy"
+            const tableIndex = readU32LEB()
+            if (!blocks[blocks.length - 1].isDead_) {
+              stackTop -= 3
+              pushNode(0)
+              ast[astNextPtr++] = op | (3 << Pack.ChildCountShift)
+              ast[astNextPtr++] = -(stackTop + 1)
+              ast[astNextPtr++] = -(stackTop + 2)
+              ast[astNextPtr++] = -(stackTop + 3)
+              ast[astNextPtr++] = firstIndex
+              ast[astNextPtr++] = tableIndex
+            }
+          } else if (op === Op.elem_drop) {
+            const segmentIndex = readU32LEB()
+            if (!blocks[blocks.length - 1].isDead_) {
+              pushNode(0)
+              ast[astNextPtr++] = op
+              ast[astNextPtr++] = segmentIndex
+            }
+          } else if (op === Op.table_grow) {
+            const tableIndex = readU32LEB()
+            if (!blocks[blocks.length - 1].isDead_) {
+              // Note: JS evaluation order is different than WASM evaluation order here
+              stackTop--
+              pushNode(stackTop)
+              ast[astNextPtr++] = op | (2 << Pack.ChildCountShift)
+              ast[astNextPtr++] = -(stackTop + 1)
+              ast[astNextPtr++] = -stackTop
+              ast[astNextPtr++] = tableIndex
+            }
+          } else if (op === 0x10) { // "table.size"
+            const tableIndex = readU32LEB()
+            if (!blocks[blocks.length - 1].isDead_) {
+              pushNode(++stackTop)
+              ast[astNextPtr++] = Op.TABLE_SIZE
+              ast[astNextPtr++] = tableIndex
+            }
+          } else if (op === 0x11) { // "table.fill"
+            const tableIndex = readU32LEB()
+            if (!blocks[blocks.length - 1].isDead_) {
+              stackTop -= 3
+              pushNode(0)
+              ast[astNextPtr++] = Op.TABLE_FILL | (3 << Pack.ChildCountShift)
+              ast[astNextPtr++] = -(stackTop + 1)
+              ast[astNextPtr++] = -(stackTop + 2)
+              ast[astNextPtr++] = -(stackTop + 3)
+              ast[astNextPtr++] = tableIndex
+            }
           } else {
-            throw new Error('Unsupported instruction: 0xFC' + op.toString(16).padStart(2, '0'))
+            throw new CompileError('Unsupported instruction: 0xFC' + op.toString(16).padStart(2, '0'))
           }
           break
 
         default:
-          throw new Error('Unsupported instruction: 0x' + op.toString(16).padStart(2, '0'))
+          throw new CompileError('Unsupported instruction: 0x' + op.toString(16).padStart(2, '0'))
       }
     }
   }
 
-  // Each node only has 8 bits of storage for the output stack slot
-  if (stackLimit > 255) throw new Error('Deep stacks are not supported')
+  body = assignVariablesToWebs(body)
 
   // Wrap the body with the arguments
   const name = JSON.stringify('wasm:' + (nameSection.get(funcIndex) || `function[${codeIndex}]`))
-  const js = `return{${name}(${names.slice(0, argCount)}){var ${decls};${body}}}[${name}]`
-  return new Function('f', 'c', 't', 'g', 'l', js)(funcs, context, table, globals, library)
+  const preludeDecls = tableDecls.concat(globalDecls, typeDecls).filter(x => x)
+  if (pairs) preludeDecls.push(`h=l.${/* @__KEY__ */ 'high_'}`)
+  const prelude = preludeDecls.length ? `var ${preludeDecls};` : ''
+  return `${prelude}return{${name}(${params}){var ${decls};${body}}}[${name}]`
 }
 
 // This can pretty-print the expression subtree at "ptr" (for use with debugging)
-const debugPrintNode = (constants: bigint[], dataView: DataView, ptr: number, isNested = false): string => {
+const debugPrintNode = (constants: bigint[], ptr: number, stackSlot = 0): string => {
   if (ptr < 0) return `s${-ptr}`
   const ast = astBufferSingleton
   const node = ast[ptr]
   const op = node & Pack.OpMask
-  const stackSlot = node >>> Pack.OutSlotShift
   let text: string
   if (op === Op.i32_const) text = `${ast[ptr + 1]} as i32`
   else if (op === Op.i64_const) text = `${constants[ast[ptr + 1]]} as i64`
-  else if (op === Op.f32_const) text = `${dataView.getFloat32(ast[ptr + 1], true)} as f32`
-  else if (op === Op.f64_const) text = `${dataView.getFloat64(ast[ptr + 1], true)} as f64`
+  else if (op === Op.f32_const) text = `${f32FromBits(constants[ast[ptr + 1]])} as f32`
+  else if (op === Op.f64_const) text = `${f64FromBits(constants[ast[ptr + 1]])} as f64`
   else {
     const childCount = (node >> Pack.ChildCountShift) & Pack.ChildCountMask
     const args: string[] = []
     let i = 1
-    while (i <= childCount) args.push(debugPrintNode(constants, dataView, ast[ptr + i++], true))
+    while (i <= childCount) args.push(debugPrintNode(constants, ast[ptr + i++]))
     if (op >= Op.i32_load && op <= Op.i64_store32) args.push(`offset: ${ast[ptr + i]}`)
     else if (op >= Op.local_get && op <= Op.global_set) args.push(`index: ${ast[ptr + i]}`)
     text = `${Op[op]}(${args.join(', ')})`
   }
-  if (!isNested && stackSlot) text = `s${stackSlot} = ${text}`
+  if (stackSlot) text = `s${stackSlot} = ${text}`
   return text
 }
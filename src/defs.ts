@@ -1,7 +1,9 @@
 // This file provides a way to parse a single WebAssembly function and convert
 // it to JavaScript. Functions are compiled lazily when they are first evaluated.
 
+import type { ExportedFunction, TypedFunction } from "./instantiate.ts";
 import { Type } from "./parse.ts";
+import { LinkError, RuntimeError } from "./errors.ts";
 
 export enum Op {
   // These are prefixed by 0xFC
@@ -15,9 +17,19 @@ export enum Op {
   i64_trunc_sat_f64_u = 0x07,
 
   // These are prefixed by 0xFC
+  memory_init = 0x08,
+  data_drop = 0x09,
   memory_copy = 0x0A,
   memory_fill = 0x0B,
 
+  // These are prefixed by 0xFC ("table.size" and "table.fill" are 0x10 and
+  // 0x11, which collide with "call" and "call_indirect", so they are given
+  // our own opcodes below instead)
+  table_init = 0x0C,
+  elem_drop = 0x0D,
+  table_copy = 0x0E,
+  table_grow = 0x0F,
+
   unreachable = 0x00,
   nop = 0x01,
   block = 0x02,
@@ -215,6 +227,10 @@ export enum Op {
   i64_extend16_s = 0xC3,
   i64_extend32_s = 0xC4,
 
+  ref_null = 0xD0,
+  ref_is_null = 0xD1,
+  ref_func = 0xD2,
+
   // These are our own opcodes, and are not part of WebAssembly
   BOOL = 0xF0,
   BOOL_NOT = 0xF1,
@@ -223,6 +239,8 @@ export enum Op {
   TO_S64 = 0xF4,
   U32_LOAD = 0xF5,
   S64_LOAD = 0xF6,
+  TABLE_SIZE = 0xF7,
+  TABLE_FILL = 0xF8,
 }
 
 export const enum BlockKind {
@@ -239,27 +257,64 @@ export interface Block {
   labelContinueOrElse_: number
   parentStackTop_: number
   returnCount_: number
+
+  // Every path that reaches the start of a loop or the end of a block must
+  // leave the values for the parameters or results in the same variables
+  // (see "webs" in "compile.ts")
+  paramWebs_: number[]
+  resultWebs_: number[]
+}
+
+// A "funcref" is stored as the function itself (or null). JavaScript only ever
+// sees the exported wrapper for that function, which must be unwrapped again
+// when it's passed back in. An "externref" is passed through unchanged.
+export const funcFromJS = (value: any): TypedFunction | null => {
+  if (value == null) return null
+  const func = typeof value === 'function' && (value as ExportedFunction).wasm_
+  if (!func) throw new TypeError('Expected null or an exported WebAssembly function')
+  return func
+}
+
+export const funcToJS = (func: TypedFunction | null): ExportedFunction | null => {
+  return func && func.export_!()
 }
 
-export const liveCastToWASM = (value: any, type: Type): number | bigint => {
+export const liveCastToWASM = (value: any, type: Type): unknown => {
   if (type === Type.F32 || type === Type.F64) return +value
   if (type === Type.I32) return value | 0
   if (type === Type.I64) return BigInt(value) & 0xFFFF_FFFF_FFFF_FFFFn
-  throw new Error('Unsupported cast to type ' + type)
+  if (type === Type.FuncRef) return funcFromJS(value)
+  if (type === Type.ExternRef) return value
+  throw new RuntimeError('Unsupported cast to type ' + type)
 }
 
-export const castToWASM = (code: string, type: Type): string => {
+export const liveCastToJS = (value: any, type: Type): unknown => {
+  if (type === Type.F32) return Math.fround(value)
+  if (type === Type.I64) return BigInt.asIntN(64, value)
+  if (type === Type.FuncRef) return funcToJS(value)
+  return value
+}
+
+// When 64-bit integers are lowered to pairs of 32-bit numbers (see "i64" in
+// "InstanceOptions"), generated code passes the low half and the high half as
+// two separate values. Casting to WASM then gives the low half and leaves the
+// high half in "l.high_[0]", and casting to JS expects code for both halves
+// separated by a comma.
+export const castToWASM = (code: string, type: Type, pairs = false): string => {
   if (type === Type.F32 || type === Type.F64) return '+' + code
   if (type === Type.I32) return code + '|0'
-  if (type === Type.I64) return `BigInt(${code})&0xFFFFFFFFFFFFFFFFn`
-  throw new Error('Unsupported cast to type ' + type)
+  if (type === Type.I64) return pairs ? `l.${/* @__KEY__ */ 'pair_from_bigint_'}(${code})` : `BigInt(${code})&0xFFFFFFFFFFFFFFFFn`
+  if (type === Type.FuncRef) return `l.${/* @__KEY__ */ 'func_from_js_'}(${code})`
+  if (type === Type.ExternRef) return code
+  throw new LinkError('Unsupported cast to type ' + type)
 }
 
-export const castToJS = (code: string, type: Type): string => {
-  if (type === Type.F64 || type === Type.I32) return code
+export const castToJS = (code: string, type: Type, pairs = false): string => {
+  if (type === Type.F64 || type === Type.I32 || type === Type.ExternRef) return code
   if (type === Type.F32) return `Math.fround(${code})`
-  if (type === Type.I64) return `l.${/* @__KEY__ */ 'u64_to_s64_'}(${code})`
-  throw new Error('Unsupported cast to type ' + type)
+  if (type === Type.I64) return pairs ? `l.${/* @__KEY__ */ 'pair_to_s64_'}(${code})` : `l.${/* @__KEY__ */ 'u64_to_s64_'}(${code})`
+  if (type === Type.FuncRef) return `l.${/* @__KEY__ */ 'func_to_js_'}(${code})`
+  throw new LinkError('Unsupported cast to type ' + type)
 }
 
 export const enum MetaFlag {
@@ -454,6 +509,85 @@ metaTable[Op.i64_extend8_s] = 1 | MetaFlag.Push | MetaFlag.Simple
 metaTable[Op.i64_extend16_s] = 1 | MetaFlag.Push | MetaFlag.Simple
 metaTable[Op.i64_extend32_s] = 1 | MetaFlag.Push | MetaFlag.Simple
 
+metaTable[Op.table_get] = 1 | MetaFlag.Push | MetaFlag.HasIndex | MetaFlag.Simple
+metaTable[Op.table_set] = 2 | MetaFlag.HasIndex | MetaFlag.Simple
+
+metaTable[Op.ref_null] = MetaFlag.Push | MetaFlag.HasIndex | MetaFlag.Simple // The index is the heap type
+metaTable[Op.ref_is_null] = 1 | MetaFlag.Push | MetaFlag.Simple | MetaFlag.BoolToInt
+metaTable[Op.ref_func] = MetaFlag.Push | MetaFlag.HasIndex | MetaFlag.Simple
+
+// These lookup tables add type information to the simple instructions in
+// "metaTable", which is only needed for validation. Loads have an operand type
+// of i32 (the address) and stores have an operand type of the stored value.
+// The alignment table is the log2 of the natural alignment of each access.
+export const operandTypeTable = new Uint8Array(256)
+export const resultTypeTable = new Uint8Array(256)
+export const alignTable = new Uint8Array(256)
+
+const setTypes = (first: Op, last: Op, operandType: Type, resultType: Type | 0): void => {
+  operandTypeTable.fill(operandType, first, last + 1)
+  resultTypeTable.fill(resultType, first, last + 1)
+}
+
+setTypes(Op.i32_load, Op.i32_load, Type.I32, Type.I32)
+setTypes(Op.i64_load, Op.i64_load, Type.I32, Type.I64)
+setTypes(Op.f32_load, Op.f32_load, Type.I32, Type.F32)
+setTypes(Op.f64_load, Op.f64_load, Type.I32, Type.F64)
+setTypes(Op.i32_load8_s, Op.i32_load16_u, Type.I32, Type.I32)
+setTypes(Op.i64_load8_s, Op.i64_load32_u, Type.I32, Type.I64)
+setTypes(Op.i32_store, Op.i32_store, Type.I32, 0)
+setTypes(Op.i64_store, Op.i64_store, Type.I64, 0)
+setTypes(Op.f32_store, Op.f32_store, Type.F32, 0)
+setTypes(Op.f64_store, Op.f64_store, Type.F64, 0)
+setTypes(Op.i32_store8, Op.i32_store16, Type.I32, 0)
+setTypes(Op.i64_store8, Op.i64_store32, Type.I64, 0)
+
+setTypes(Op.i32_eqz, Op.i32_ge_u, Type.I32, Type.I32)
+setTypes(Op.i64_eqz, Op.i64_ge_u, Type.I64, Type.I32)
+setTypes(Op.f32_eq, Op.f32_ge, Type.F32, Type.I32)
+setTypes(Op.f64_eq, Op.f64_ge, Type.F64, Type.I32)
+setTypes(Op.i32_clz, Op.i32_rotr, Type.I32, Type.I32)
+setTypes(Op.i64_clz, Op.i64_rotr, Type.I64, Type.I64)
+setTypes(Op.f32_abs, Op.f32_copysign, Type.F32, Type.F32)
+setTypes(Op.f64_abs, Op.f64_copysign, Type.F64, Type.F64)
+
+setTypes(Op.i32_wrap_i64, Op.i32_wrap_i64, Type.I64, Type.I32)
+setTypes(Op.i32_trunc_f32_s, Op.i32_trunc_f32_u, Type.F32, Type.I32)
+setTypes(Op.i32_trunc_f64_s, Op.i32_trunc_f64_u, Type.F64, Type.I32)
+setTypes(Op.i64_extend_i32_s, Op.i64_extend_i32_u, Type.I32, Type.I64)
+setTypes(Op.i64_trunc_f32_s, Op.i64_trunc_f32_u, Type.F32, Type.I64)
+setTypes(Op.i64_trunc_f64_s, Op.i64_trunc_f64_u, Type.F64, Type.I64)
+setTypes(Op.f32_convert_i32_s, Op.f32_convert_i32_u, Type.I32, Type.F32)
+setTypes(Op.f32_convert_i64_s, Op.f32_convert_i64_u, Type.I64, Type.F32)
+setTypes(Op.f32_demote_f64, Op.f32_demote_f64, Type.F64, Type.F32)
+setTypes(Op.f64_convert_i32_s, Op.f64_convert_i32_u, Type.I32, Type.F64)
+setTypes(Op.f64_convert_i64_s, Op.f64_convert_i64_u, Type.I64, Type.F64)
+setTypes(Op.f64_promote_f32, Op.f64_promote_f32, Type.F32, Type.F64)
+setTypes(Op.i32_reinterpret_f32, Op.i32_reinterpret_f32, Type.F32, Type.I32)
+setTypes(Op.i64_reinterpret_f64, Op.i64_reinterpret_f64, Type.F64, Type.I64)
+setTypes(Op.f32_reinterpret_i32, Op.f32_reinterpret_i32, Type.I32, Type.F32)
+setTypes(Op.f64_reinterpret_i64, Op.f64_reinterpret_i64, Type.I64, Type.F64)
+setTypes(Op.i32_extend8_s, Op.i32_extend16_s, Type.I32, Type.I32)
+setTypes(Op.i64_extend8_s, Op.i64_extend32_s, Type.I64, Type.I64)
+
+alignTable[Op.i32_load] = 2
+alignTable[Op.i64_load] = 3
+alignTable[Op.f32_load] = 2
+alignTable[Op.f64_load] = 3
+alignTable[Op.i32_load16_s] = 1
+alignTable[Op.i32_load16_u] = 1
+alignTable[Op.i64_load16_s] = 1
+alignTable[Op.i64_load16_u] = 1
+alignTable[Op.i64_load32_s] = 2
+alignTable[Op.i64_load32_u] = 2
+alignTable[Op.i32_store] = 2
+alignTable[Op.i64_store] = 3
+alignTable[Op.f32_store] = 2
+alignTable[Op.f64_store] = 3
+alignTable[Op.i32_store16] = 1
+alignTable[Op.i64_store16] = 1
+alignTable[Op.i64_store32] = 2
+
 // WebAssembly bytecode is decoded into an AST so that it can be optimized
 // before converting it to JavaScript. The AST is stored as numbers in an
 // array instead of as JavaScript objects for performance, which can matter
@@ -461,7 +595,7 @@ metaTable[Op.i64_extend32_s] = 1 | MetaFlag.Push | MetaFlag.Simple
 //
 // Each AST node takes the following form:
 //
-//   ast[ptr] = opcode | (childCount << Pack.ChildCountShift) | (outputStackSlot << Pack.OutSlotShift)
+//   ast[ptr] = opcode | (childCount << Pack.ChildCountShift)
 //   ast[ptr + 1] = /* child 1 */
 //   ast[ptr + 2] = /* child 2 */
 //   ...
@@ -470,10 +604,11 @@ metaTable[Op.i64_extend32_s] = 1 | MetaFlag.Push | MetaFlag.Simple
 //
 // Encoding the child count in the node metadata and putting optional extra
 // data after the children allows the AST to be traversed generically without
-// needing to know the specifics of each node's internal format.
+// needing to know the specifics of each node's internal format. The stack
+// slot that a top-level node writes to is stored outside of the node (see
+// "astSlots" in "compile.ts") so that the stack depth isn't limited.
 export const enum Pack {
   OpMask = 255,
   ChildCountShift = 8,
   ChildCountMask = 0xFFFF,
-  OutSlotShift = 24,
 }
@@ -0,0 +1,28 @@
+// This file contains the error types that the polyfill throws. These are our
+// own classes instead of the native ones because the native ones don't exist
+// in the environments where this polyfill is needed.
+
+export class RuntimeError extends Error {
+  constructor(message?: string) {
+    super(message)
+    this.name = 'RuntimeError'
+  }
+}
+
+export class CompileError extends Error {
+  constructor(message?: string) {
+    super(message)
+    this.name = 'CompileError'
+  }
+}
+
+export class LinkError extends Error {
+  // This is only present when multiple link errors were collected together
+  declare errors?: LinkError[]
+
+  constructor(message?: string, errors?: LinkError[]) {
+    super(message)
+    this.name = 'LinkError'
+    if (errors) this.errors = errors
+  }
+}
@@ -0,0 +1,46 @@
+// This file provides a code cache that persists generated code in a directory
+// using Deno's file system APIs, so that it survives restarts of the process.
+// It's a separate entry point so that other environments never reference the
+// "Deno" global.
+//
+// Usage:
+//
+//   import { createFileSystemCache } from "jsr:@blckbrry/polywasm/cache"
+//   const cache = createFileSystemCache('.polywasm-cache')
+//   const instance = new WebAssembly.Instance(module, imports, { cache })
+
+import type { CodeCache } from "./cache.ts";
+
+export { type CodeCache, createMemoryCache, prewarmCache } from "./cache.ts";
+
+// Each entry is stored in its own file named after its key. Entries are
+// written to a temporary file first and then renamed so that other processes
+// sharing the same directory never read a partially-written entry.
+export const createFileSystemCache = (directory: string): CodeCache => {
+  let hasDirectory = false
+  let nextTemp = 0
+  return {
+    get(key) {
+      try {
+        return Deno.readTextFileSync(`${directory}/${key}.js`)
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) return undefined
+        throw error
+      }
+    },
+    set(key, value) {
+      try {
+        if (!hasDirectory) {
+          Deno.mkdirSync(directory, { recursive: true })
+          hasDirectory = true
+        }
+        const temp = `${directory}/${key}.${Deno.pid}.${nextTemp++}.tmp`
+        Deno.writeTextFileSync(temp, value)
+        Deno.renameSync(temp, `${directory}/${key}.js`)
+      } catch {
+        // The cache is only an optimization, so failing to write to it (e.g.
+        // on a read-only file system) doesn't stop the code from running
+      }
+    },
+  }
+}
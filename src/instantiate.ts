@@ -1,15 +1,85 @@
-import { castToJS, castToWASM, liveCastToWASM } from "./defs.ts";
-import { compileCode } from "./compile.ts";
-import { createLibrary } from "./library.ts";
-import { Desc, FuncType, Module, Type, moduleMap } from "./parse.ts";
+import { castToJS, castToWASM, liveCastToJS, liveCastToWASM } from "./defs.ts";
+import type { CodeCache } from "./cache.ts";
+import { type CodeFactory, compileCode } from "./compile.ts";
+import { interpretCode } from "./interpret.ts";
+import { type Library, createLibrary } from "./library.ts";
+import { type OptimizationRule, type Toolchain, ruleSetID } from "./optimize.ts";
+import { Desc, ElementMode, FuncType, Module, Mutable, Type, type ValueType, type WASM, canonicalFuncType, moduleMap, valueTypeNames } from "./parse.ts";
+import { LinkError, RuntimeError } from "./errors.ts";
+
+export interface GlobalDescriptor {
+  value: ValueType
+  mutable?: boolean
+}
 
 export class Global {
   declare value: any
+  declare valueOf: () => any
+  declare value_: unknown
+  declare type_: Type
+  declare mutable_: boolean
+
+  constructor(descriptor: GlobalDescriptor, value?: any) {
+    const type = this.type_ = valueTypes[descriptor.value]!
+    const mutable = this.mutable_ = !!descriptor.mutable
+    if (type === undefined) throw new TypeError(`Unsupported global value type: ${descriptor.value}`)
+
+    // Like "ToBigInt" in JavaScript, numbers aren't implicitly converted
+    const cast = (x: any): unknown => {
+      if (type === Type.I64 && typeof x === 'number') throw new TypeError(`Cannot convert ${x} to a BigInt`)
+      return liveCastToWASM(x, type)
+    }
+
+    // The value is owned by the global instead of by the instance so that
+    // all instances that import this global read and write the same value
+    this.value_ = value === undefined ? defaultValue(type) : cast(value)
+
+    Object.defineProperty(this, 'value', {
+      get: () => liveCastToJS(this.value_, type),
+      set: x => {
+        if (!mutable) throw new TypeError('Cannot assign to an immutable global')
+        this.value_ = cast(x)
+      },
+    })
+    this.valueOf = () => liveCastToJS(this.value_, type)
+  }
 }
 
 export class Memory {
   declare buffer: ArrayBuffer
   declare grow: (delta: number) => number
+  declare context_: Context
+
+  constructor(descriptor: WebAssembly.MemoryDescriptor) {
+    const initial = enforceRange(descriptor.initial, 'initial')
+    const maximum = descriptor.maximum === undefined ? Infinity : enforceRange(descriptor.maximum, 'maximum')
+    if (initial > 0x10000) throw new RangeError(`Invalid initial memory size: ${initial}`)
+    if (maximum > 0x10000 && maximum < Infinity) throw new RangeError(`Invalid maximum memory size: ${maximum}`)
+    if (maximum < initial) throw new RangeError(`Maximum memory size ${maximum} is less than initial size ${initial}`)
+
+    // The context is owned by the memory instead of by the instance so that
+    // all instances that import this memory see the same bytes and page count
+    const context = this.context_ = new Context
+    context.memory_ = this
+    context.pageLimit_ = maximum
+    context[ContextField.PageCount] = initial
+    const grow = context[ContextField.PageGrow] = pagesDelta => growContext(context, pagesDelta)
+    this.grow = pagesDelta => {
+      const pageCount = grow(pagesDelta)
+      if (pageCount < 0) throw new RangeError('Cannot grow past limit')
+      return pageCount
+    }
+    resetContext(context, this.buffer = new ArrayBuffer(initial << 16))
+  }
+}
+
+// The built-in "WebAssembly.TableKind" type only has "anyfunc"
+export type TableKind = 'anyfunc' | 'funcref' | 'externref'
+
+export interface TableDescriptor {
+  element: TableKind
+  initial: number
+  maximum?: number
 }
 
 export class Table {
@@ -17,8 +87,133 @@ export class Table {
   declare get: (index: number) => any
   declare grow: (delta: number, value?: any) => number
   declare set: (index: number, value?: any) => void
+  declare elements_: unknown[]
+  declare grow_: (delta: number, value: unknown) => number
+  declare kind_: Type
+  declare maximum_: number
+
+  constructor(descriptor: TableDescriptor, value?: any) {
+    const element: string = descriptor.element
+    if (element !== 'anyfunc' && element !== 'funcref' && element !== 'externref') throw new TypeError(`Unsupported table element type: ${element}`)
+    const kind = this.kind_ = element === 'externref' ? Type.ExternRef : Type.FuncRef
+    const initial = enforceRange(descriptor.initial, 'initial')
+    const maximum = this.maximum_ = descriptor.maximum === undefined ? Infinity : enforceRange(descriptor.maximum, 'maximum')
+    if (initial > maxTableLength) throw new RangeError(`Invalid initial table size: ${initial}`)
+    if (maximum < initial) throw new RangeError(`Maximum table size ${maximum} is less than initial size ${initial}`)
+
+    // The elements are shared with the generated code of every instance that
+    // uses this table, so this array must only ever be mutated in place
+    const elements: unknown[] = this.elements_ = []
+    const init = liveCastToWASM(value, kind)
+    for (let i = 0; i < initial; i++) elements.push(init)
+
+    Object.defineProperty(this, 'length', {
+      get: () => elements.length,
+    })
+    this.get = index => {
+      index = enforceRange(index, 'index')
+      if (index >= elements.length) throw new RangeError(`Table index out of bounds: ${index}`)
+      return liveCastToJS(elements[index], kind)
+    }
+    const grow = this.grow_ = (delta, value) => {
+      const length = elements.length
+      delta >>>= 0
+      if (length + delta > Math.min(maximum, maxTableLength)) return -1
+      for (let i = 0; i < delta; i++) elements.push(value)
+      return length
+    }
+    this.grow = (delta, value) => {
+      const length = grow(enforceRange(delta, 'delta'), liveCastToWASM(value, kind))
+      if (length < 0) throw new RangeError('Cannot grow past limit')
+      return length
+    }
+    this.set = (index, value) => {
+      index = enforceRange(index, 'index')
+      if (index >= elements.length) throw new RangeError(`Table index out of bounds: ${index}`)
+      elements[index] = liveCastToWASM(value, kind)
+    }
+  }
 }
 
+export interface InstanceOptions {
+  // Generate traps for invalid situations (e.g. divide by zero) instead of
+  // silently producing a wrong result. This is off by default because the
+  // extra checks make the generated code slower.
+  traps?: boolean
+
+  // Check every memory access against the size of memory and generate a trap
+  // for accesses that are out of bounds. Without this, out-of-bounds loads
+  // return garbage and out-of-bounds stores are silently dropped.
+  boundsChecks?: boolean
+
+  // Check every import before throwing a "LinkError" instead of stopping at
+  // the first import that fails to link. The individual errors are available
+  // in the "errors" property of the thrown error.
+  collectLinkErrors?: boolean
+
+  // Use code that was generated ahead of time instead of generating code with
+  // "new Function". Modules generated by "compileToModule" pass this for you.
+  precompiled?: Precompiled
+
+  // Run functions with an interpreter instead of converting them to JavaScript
+  // with "new Function". This is much slower, but works in environments that
+  // forbid generating code at run-time. By default, the interpreter is only
+  // used if "new Function" throws an "EvalError".
+  interpreter?: boolean
+
+  // Look up generated code in this cache before compiling a function, and
+  // store newly generated code there. This skips decoding and optimizing
+  // functions that were already compiled before. See "createMemoryCache" and
+  // "createFileSystemCache" in "@blckbrry/polywasm/cache".
+  cache?: CodeCache
+
+  // When to compile functions. By default, each function is compiled when
+  // it's first called ("lazy"), which can pause for a while when a large
+  // function is first called. Use "eager" to compile every function during
+  // instantiation instead. Note that the "Instance" constructor then compiles
+  // everything synchronously before it returns, while the "instantiate"
+  // function compiles in chunks and yields to the event loop between them.
+  // Use "background" to compile them in small chunks using timers after
+  // instantiation. If a function fails to compile in the background, the
+  // error is thrown when that function is called.
+  compilation?: 'lazy' | 'eager' | 'background'
+
+  // How generated code represents 64-bit integers. By default they are
+  // BigInts ("bigint"), which is simple but slow (especially when the JIT is
+  // disabled). With "pairs", each one is kept as two 32-bit numbers instead
+  // and only converted to a BigInt when it's passed to or from JavaScript
+  // (including when reading or writing a 64-bit global). The interpreter
+  // ignores this. Instances that share tables or pass function references to
+  // each other must use the same representation.
+  i64?: 'bigint' | 'pairs'
+
+  // Extra optimization rules for the functions in this instance. They are
+  // tried before the global rules from "addOptimizationRules" and before the
+  // built-in rules. Invalid rules throw a "TypeError" when the instance is
+  // created. The interpreter and precompiled code ignore this.
+  optimizationRules?: OptimizationRule[]
+
+  // Which toolchain-specific optimization rules to use. By default, this is
+  // detected from the "producers" section of the module, which most
+  // toolchains other than Go write. Use "none" to only use the other rules.
+  toolchain?: Toolchain | 'none'
+}
+
+// Code generated ahead of time is stored as factories that are passed the
+// state of the instance. Wrappers are indexed by function index while code is
+// indexed by code section index.
+export interface Precompiled {
+  code: CodeFactory[]
+  imports: ImportFactory[]
+  exports: ExportFactory[]
+}
+
+export type ImportFactory = (f: Function, l: Library) => Function
+export type ExportFactory = (f: Function[], i: number, l: Library) => ExportedFunction
+
+export const importFactoryArgs = ['f', 'l']
+export const exportFactoryArgs = ['f', 'i', 'l']
+
 export const enum ContextField {
   PageCount = 'pc',
   PageGrow = 'pg',
@@ -41,6 +236,159 @@ export class Context {
   declare [ContextField.DataView]: DataView
 }
 
+// Functions that can end up in a table are tagged with their canonical type so
+// that "call_indirect" can check the signature of the function it calls. They
+// are also tagged with a way to get the exported function that wraps them,
+// which is what JavaScript sees when it reads from a table.
+export type TypedFunction = Function & { type_?: number, export_?: () => ExportedFunction }
+
+// Exported functions remember the function they wrap so that JavaScript can
+// store them back into a table
+export type ExportedFunction = Function & { wasm_?: TypedFunction }
+
+const valueTypes: Record<string, Type | undefined> = {
+  i32: Type.I32,
+  i64: Type.I64,
+  f32: Type.F32,
+  f64: Type.F64,
+  anyfunc: Type.FuncRef,
+  funcref: Type.FuncRef,
+  externref: Type.ExternRef,
+}
+
+// Note: The JavaScript API uses "undefined" instead of "null" for "externref"
+const defaultValue = (type: Type): unknown => {
+  return type === Type.I64 ? 0n : type === Type.FuncRef ? null : type === Type.ExternRef ? undefined : 0
+}
+
+const funcTypeToString = ([argTypes, returnTypes]: FuncType): string => {
+  return `(${argTypes.map(type => valueTypeNames[type])}) => (${returnTypes.map(type => valueTypeNames[type])})`
+}
+
+// When 64-bit integers are lowered to pairs of 32-bit numbers, a single 64-bit
+// result is returned as its low half with its high half left here
+const pairHigh = `l.${/* @__KEY__ */ 'high_'}[0]`
+
+// This returns the body of the factory for the wrapper that lets WebAssembly
+// call the imported JavaScript function "f". With "pairs", each 64-bit
+// argument is received as two arguments and multiple return values are
+// flattened so that each 64-bit integer takes up two array elements.
+export const importWrapperToJS = ([argTypes, returnTypes]: FuncType, pairs = false): string => {
+  const argNames: string[] = []
+  const argExprs: string[] = []
+  for (let i = 0; i < argTypes.length; i++) {
+    const isPair = pairs && argTypes[i] === Type.I64
+    argNames.push('a' + i)
+    if (isPair) argNames.push(`a${i}h`)
+    argExprs.push(castToJS(isPair ? `a${i},a${i}h` : 'a' + i, argTypes[i], pairs))
+  }
+  let result = `f(${argExprs})`
+  if (returnTypes.length === 1) {
+    result = 'return ' + castToWASM(result, returnTypes[0], pairs)
+  } else if (returnTypes.length > 1 && pairs) {
+    const values: string[] = []
+    for (let i = 0; i < returnTypes.length; i++) {
+      values.push(castToWASM(`r[${i}]`, returnTypes[i], pairs))
+      if (returnTypes[i] === Type.I64) values.push(pairHigh)
+    }
+    result = `let r=${result};return[${values}]`
+  } else if (returnTypes.length > 1) {
+    result = `let r=${result};`
+    for (let i = 0; i < returnTypes.length; i++) result += `r[${i}]=${castToWASM(`r[${i}]`, returnTypes[i])};`
+    result += 'return r'
+  }
+  return `return(${argNames})=>{${result}}`
+}
+
+// This returns the body of the factory for the wrapper that lets JavaScript
+// call the WebAssembly function "f[i]"
+export const exportWrapperToJS = ([argTypes, returnTypes]: FuncType, pairs = false): string => {
+  const argNames: string[] = []
+  const argExprs: string[] = []
+  for (let i = 0; i < argTypes.length; i++) {
+    argNames.push('a' + i)
+    argExprs.push(castToWASM('a' + i, argTypes[i], pairs))
+    if (pairs && argTypes[i] === Type.I64) argExprs.push(pairHigh)
+  }
+  let result = `f[i](${argExprs})`
+  if (returnTypes.length === 1) {
+    result = 'return ' + castToJS(pairs && returnTypes[0] === Type.I64 ? `${result},${pairHigh}` : result, returnTypes[0], pairs)
+  } else if (returnTypes.length > 1 && pairs) {
+    const values: string[] = []
+    let j = 0
+    for (const type of returnTypes) {
+      values.push(castToJS(type === Type.I64 ? `r[${j++}],r[${j++}]` : `r[${j++}]`, type, pairs))
+    }
+    result = `let r=${result};return[${values}]`
+  } else if (returnTypes.length > 1) {
+    result = `let r=${result};`
+    for (let i = 0; i < returnTypes.length; i++) result += `r[${i}]=${castToJS(`r[${i}]`, returnTypes[i])};`
+    result += 'return r'
+  }
+  return `return(${argNames})=>{${result}}`
+}
+
+// The interpreter uses these wrappers instead, which do the same conversions
+// without generating any code
+const importWrapper = (func: Function, [argTypes, returnTypes]: FuncType): Function => {
+  return (...args: any[]): any => {
+    const result = func(...argTypes.map((type, i) => liveCastToJS(args[i], type)))
+    if (returnTypes.length === 1) return liveCastToWASM(result, returnTypes[0])
+    if (returnTypes.length > 1) {
+      for (let i = 0; i < returnTypes.length; i++) result[i] = liveCastToWASM(result[i], returnTypes[i])
+      return result
+    }
+  }
+}
+const exportWrapper = (funcs: Function[], index: number, [argTypes, returnTypes]: FuncType): ExportedFunction => {
+  return (...args: any[]): any => {
+    const result = funcs[index](...argTypes.map((type, i) => liveCastToWASM(args[i], type)))
+    if (returnTypes.length === 1) return liveCastToJS(result, returnTypes[0])
+    if (returnTypes.length > 1) {
+      for (let i = 0; i < returnTypes.length; i++) result[i] = liveCastToJS(result[i], returnTypes[i])
+      return result
+    }
+  }
+}
+
+// Factories are cached on the module for each combination of options that
+// affects the generated code, so instantiating the same module again only has
+// to bind the factories to the new instance instead of compiling everything.
+// Getting the ID of the optimization rules also checks the options for them.
+const codeCacheFor = (wasm: WASM, options: InstanceOptions, interpreter: boolean): Precompiled => {
+  const rules = ruleSetID(wasm, options)
+  const key = `${+interpreter}${+!!options.traps}${+!!options.boundsChecks}${+(!interpreter && options.i64 === 'pairs')}${interpreter ? '' : '-' + rules}`
+  let cache = wasm.codeCache_.get(key)
+  if (!cache) wasm.codeCache_.set(key, cache = { code: [], imports: [], exports: [] })
+  return cache
+}
+
+// Environments that forbid generating code at run-time (e.g. Cloudflare
+// Workers or pages with a strict CSP) throw an "EvalError" from "new Function"
+let canGenerateCode: boolean | undefined
+const checkCanGenerateCode = (): boolean => {
+  if (canGenerateCode === undefined) {
+    try {
+      new Function('')
+      canGenerateCode = true
+    } catch (error) {
+      if (!(error instanceof EvalError)) throw error
+      canGenerateCode = false
+    }
+  }
+  return canGenerateCode
+}
+
+// This is the same limit that browsers use
+const maxTableLength = 10_000_000
+
+// Descriptor fields are converted like WebIDL's "[EnforceRange] unsigned long"
+const enforceRange = (value: unknown, name: string): number => {
+  const number = Math.trunc(Number(value))
+  if (!(number >= 0 && number <= 0xFFFF_FFFF)) throw new TypeError(`Invalid "${name}" value: ${value}`)
+  return number
+}
+
 const resetContext = (context: Context, buffer: ArrayBuffer, bytes = new Uint8Array(buffer)): void => {
   context[ContextField.Int8Array] = new Int8Array(buffer)
   context[ContextField.Uint8Array] = bytes
@@ -50,20 +398,20 @@ const resetContext = (context: Context, buffer: ArrayBuffer, bytes = new Uint8Ar
 const growContext = (context: Context, pagesDelta: number): number => {
   const pageCount = context[ContextField.PageCount]
   pagesDelta >>>= 0
-  if (pageCount + pagesDelta > context.pageLimit_) return -1
-  if (pagesDelta) {
-    const buffer = context.memory_.buffer = new ArrayBuffer((context[ContextField.PageCount] += pagesDelta) << 16)
-    const oldBytes = context[ContextField.Uint8Array]
-    const bytes = new Uint8Array(buffer)
-    bytes.set(oldBytes)
-    resetContext(context, buffer, bytes)
-
-    // Try to detach the old buffer to mimic the real behavior of "grow"
-    try {
-      structuredClone(oldBytes.buffer, { transfer: [oldBytes.buffer] })
-    } catch {
-      // TODO: Figure out what to do on this error
-    }
+  if (pageCount + pagesDelta > Math.min(context.pageLimit_, 0xFFFF)) return -1 // 32-bit WASM has at most 65535 pages
+  // A successful grow always replaces the buffer, even when the size doesn't
+  // change, so "memory.grow(0)" detaches the old buffer too
+  const buffer = context.memory_.buffer = new ArrayBuffer((context[ContextField.PageCount] += pagesDelta) << 16)
+  const oldBytes = context[ContextField.Uint8Array]
+  const bytes = new Uint8Array(buffer)
+  bytes.set(oldBytes)
+  resetContext(context, buffer, bytes)
+
+  // Try to detach the old buffer to mimic the real behavior of "grow"
+  try {
+    structuredClone(oldBytes.buffer, { transfer: [oldBytes.buffer] })
+  } catch {
+    // TODO: Figure out what to do on this error
   }
   return pageCount
 }
@@ -71,7 +419,7 @@ const growContext = (context: Context, pagesDelta: number): number => {
 export class Instance {
   declare exports: WebAssembly.Exports
 
-  constructor(module: Module, importObject?: WebAssembly.Imports) {
+  constructor(module: Module, importObject?: WebAssembly.Imports, options: InstanceOptions = {}) {
     const wasm = moduleMap.get(module)!
     const {
       codeSection_: codeSection,
@@ -87,157 +435,285 @@ export class Instance {
       typeSection_: typeSection,
     } = wasm
     const exports: WebAssembly.Exports = this.exports = {}
-    const funcs: Function[] = []
+    const funcs: TypedFunction[] = []
     const funcTypes: FuncType[] = []
-    const globals: (number | bigint)[] = []
-    const globalTypes: Type[] = []
-    const tables: (Function | null)[][] = []
+    const globals: Global[] = []
+    const tables: Table[] = []
     const library = createLibrary()
+    const precompiled = options.precompiled
+    const interpreter = options.interpreter !== undefined ? options.interpreter : !precompiled && !checkCanGenerateCode()
+    const cache = precompiled && !interpreter ? precompiled : codeCacheFor(wasm, options, interpreter)
+    const pairs = !interpreter && options.i64 === 'pairs'
 
-    // Handle memory
-    const context = new Context
-    const memory = context.memory_ = new Memory
-    if (memorySection.length > 1) throw new Error(`Unsupported memory count: ${memorySection.length}`)
-    if (memorySection.length > 0) {
-      const [memoryMin, memoryMax] = memorySection[0]
-      context.pageLimit_ = Math.min(memoryMax, 0xFFFF) // 32-bit WASM has at most 65535 pages
-      context[ContextField.PageCount] = memoryMin
-    } else {
-      context.pageLimit_ = 0
-      context[ContextField.PageCount] = 0
+    // Every form of a function (import wrapper, lazy trampoline, compiled
+    // code) is tagged with its type and its exported wrapper
+    const withType = (func: TypedFunction, index: number): TypedFunction => {
+      func.type_ = canonicalFuncType(funcTypes[index])
+      func.export_ = () => exportFunc(index)
+      return func
     }
-    const grow = context[ContextField.PageGrow] = pagesDelta => growContext(context, pagesDelta)
-    memory.grow = pagesDelta => {
-      const pageCount = grow(pagesDelta)
-      if (pageCount < 0) throw new RangeError('Cannot grow past limit')
-      return pageCount
+
+    // Each function is only exported once so that reading it out of a table
+    // gives the same object as reading it from the exports
+    const exportedFuncs: ExportedFunction[] = []
+    const exportFunc = (index: number): ExportedFunction => {
+      let exported = exportedFuncs[index]
+      if (exported) return exported
+      if (interpreter) {
+        exported = exportedFuncs[index] = exportWrapper(funcs, index, funcTypes[index])
+      } else {
+        const factory = cache.exports[index] ||= new Function(...exportFactoryArgs, exportWrapperToJS(funcTypes[index], pairs)) as ExportFactory
+        exported = exportedFuncs[index] = factory(funcs, index, library)
+      }
+      exported.wasm_ = funcRef(index)
+      return exported
     }
-    resetContext(context, memory.buffer = new ArrayBuffer(context[ContextField.PageCount] << 16))
 
-    // Handle data
-    for (const [index, offset, data] of dataSection) {
-      if (index !== 0) throw new Error(`Invalid memory index: ${index}`)
-      context[ContextField.Uint8Array].set(data, offset)
+    // References to functions (e.g. from "ref.func") must stay valid after the
+    // function is compiled, so they forward to whatever is in "funcs"
+    const funcRefs: TypedFunction[] = []
+    const funcRef = (index: number): TypedFunction => {
+      return funcRefs[index] ||= withType((...args: any[]): any => funcs[index](...args), index)
     }
 
-    // Handle imports
+    // Globals defined by this module are created with a value that's already
+    // been converted to WASM, so no conversion from JavaScript is needed here
+    const newGlobal = (type: Type, mutable: Mutable, value: unknown): Global => {
+      const global = new Global({ value: valueTypeNames[type], mutable: mutable === Mutable.Var })
+      global.value_ = value
+      return global
+    }
+
+    let memory: Memory | undefined
+
+    // Handle imports (link errors either stop at the first failure or are
+    // collected so that they can all be reported together)
+    const linkErrors: LinkError[] = []
+    const linkError = (message: string): void => {
+      const error = new LinkError(message)
+      if (!options.collectLinkErrors) throw error
+      linkErrors.push(error)
+    }
     for (const tuple of importSection) {
       const [module, name, desc, payload] = tuple
-      const value = importObject![module][name]
+      const namespace = importObject ? importObject[module] : undefined
+      if (namespace === null || (typeof namespace !== 'object' && typeof namespace !== 'function')) {
+        linkError(`Imported module "${module}" for "${module}"."${name}" must be an object`)
+        continue
+      }
+      const value = (namespace as WebAssembly.ModuleImports)[name]
       if (desc === Desc.Func) {
         const funcType = typeSection[payload]
-        const [argTypes, returnTypes] = funcType
-        const argNames: string[] = []
-        const argExprs: string[] = []
-        for (let i = 0; i < argTypes.length; i++) {
-          argNames.push('a' + i)
-          argExprs.push(castToJS('a' + i, argTypes[i]))
+        if (typeof value !== 'function') {
+          linkError(`Imported function "${module}"."${name}" must be callable`)
+          continue
+        }
+        const wasmFunc = (value as ExportedFunction).wasm_
+        if (wasmFunc && wasmFunc.type_ !== canonicalFuncType(funcType)) {
+          linkError(`Imported function "${module}"."${name}" must have the signature ${funcTypeToString(funcType)}`)
+          continue
         }
-        let result = `f(${argExprs})`
-        if (returnTypes.length === 1) {
-          result = 'return ' + castToWASM(result, returnTypes[0])
-        } else if (returnTypes.length > 1) {
-          result = `let r=${result};`
-          for (let i = 0; i < returnTypes.length; i++) result += `r[${i}]=${castToWASM(`r[${i}]`, returnTypes[i])};`
-          result += 'return r'
+        let func: Function
+        if (interpreter) {
+          func = importWrapper(value, funcType)
+        } else {
+          const factory = cache.imports[funcs.length] ||= new Function(...importFactoryArgs, importWrapperToJS(funcType, pairs)) as ImportFactory
+          func = factory(value, library)
         }
-        funcs.push(new Function('f', 'l', `return(${argNames})=>{${result}}`)(value, library))
         funcTypes.push(funcType)
+        funcs.push(withType(func, funcs.length))
       } else if (desc === Desc.Global) {
-        globals.push(liveCastToWASM(value, payload))
-        globalTypes.push(payload)
+        const mutable = tuple[4] as Mutable
+        if (value instanceof Global) {
+          if (value.type_ !== payload || value.mutable_ !== (mutable === Mutable.Var)) {
+            linkError(`Imported global "${module}"."${name}" must have the type ${mutable === Mutable.Var ? 'mut ' : ''}${valueTypeNames[payload]}`)
+            continue
+          }
+          globals.push(value) // Share the same value with the importer
+        } else if (mutable === Mutable.Var) {
+          linkError(`Imported mutable global "${module}"."${name}" must be a "Global" object`)
+        } else if (payload === Type.I64 ? typeof value !== 'bigint' : payload !== Type.FuncRef && payload !== Type.ExternRef && typeof value !== 'number') {
+          linkError(`Imported global "${module}"."${name}" must be a ${payload === Type.I64 ? 'bigint' : 'number'} or a "Global" object`)
+        } else {
+          globals.push(newGlobal(payload, mutable, liveCastToWASM(value, payload)))
+        }
+      } else if (desc === Desc.Mem) {
+        if (!(value instanceof Memory)) {
+          linkError(`Imported memory "${module}"."${name}" must be a "Memory" object`)
+          continue
+        }
+        const [min, max] = tuple.slice(3) as [number, number]
+        const context = value.context_
+        if (context[ContextField.PageCount] < min) {
+          linkError(`Imported memory "${module}"."${name}" has ${context[ContextField.PageCount]} pages but at least ${min} are required`)
+        } else if (context.pageLimit_ > max) {
+          linkError(`Imported memory "${module}"."${name}" has a maximum of ${context.pageLimit_} pages but at most ${max} are allowed`)
+        } else {
+          memory = value
+        }
+      } else if (desc === Desc.Table) {
+        if (!(value instanceof Table)) {
+          linkError(`Imported table "${module}"."${name}" must be a "Table" object`)
+          continue
+        }
+        const [type, min, max] = tuple.slice(3) as [Type, number, number]
+        const length = value.elements_.length
+        if (value.kind_ !== type) {
+          linkError(`Imported table "${module}"."${name}" must have the element type ${valueTypeNames[type]}`)
+        } else if (length < min) {
+          linkError(`Imported table "${module}"."${name}" has ${length} elements but at least ${min} are required`)
+        } else if (value.maximum_ > max) {
+          linkError(`Imported table "${module}"."${name}" has a maximum of ${value.maximum_} elements but at most ${max} are allowed`)
+        } else {
+          tables.push(value)
+        }
       } else {
-        throw new Error(`Unsupported import type ${desc} for "${module}"."${name}"`)
+        linkError(`Unsupported import type ${desc} for "${module}"."${name}"`)
       }
     }
+    if (linkErrors.length === 1) throw linkErrors[0]
+    if (linkErrors.length > 1) throw new LinkError(`${linkErrors.length} imports failed to link:\n${linkErrors.map(error => error.message).join('\n')}`, linkErrors)
 
-    // Handle globals
-    for (const [type, mutable, initializer] of globalSection) {
-      globals.push(initializer(globals))
-      globalTypes.push(type)
+    // Handle memory
+    if (memorySection.length + (memory ? 1 : 0) > 1) throw new LinkError(`Unsupported memory count: ${memorySection.length + (memory ? 1 : 0)}`)
+    if (memorySection.length > 0) {
+      const [initial, maximum] = memorySection[0]
+      memory = new Memory({ initial, maximum: maximum < Infinity ? maximum : undefined })
     }
+    const context = (memory ||= new Memory({ initial: 0, maximum: 0 })).context_
 
-    // Handle code
+    // Handle code (each function starts off as a lazy trampoline that
+    // compiles it when it's first called, unless it was compiled already)
+    const firstCodeIndex = funcs.length
+    const compiled: boolean[] = []
+    const compileErrors = new Map<number, unknown>()
+    const compileFunc = (i: number): TypedFunction => {
+      const index = firstCodeIndex + i
+      if (compiled[i]) return funcs[index]
+      if (compileErrors.has(i)) throw compileErrors.get(i)
+      const factory = cache.code[i] ||= (interpreter ? interpretCode : compileCode)(funcTypes, wasm, options, i, index)
+      const func = factory(funcs, context, tables, globals, dataSegments, elementSegments, library, funcRef)
+      compiled[i] = true
+      return funcs[index] = withType(func, index)
+    }
     for (let i = 0; i < codeSection.length; i++) {
-      const index = funcs.length
-      funcTypes.push(typeSection[functionSection[i]])
-      funcs.push((...args: any[]): any => {
-        return (funcs[index] = compileCode(funcs, funcTypes, tables[0], globals, library, context, wasm, i, index))(...args)
-      })
+      const funcType = typeSection[functionSection[i]]
+      funcTypes.push(funcType)
+      funcs.push(withType((...args: any[]): any => compileFunc(i)(...args), funcs.length))
+    }
+
+    // Handle globals
+    for (const [type, mutable, initializer] of globalSection) {
+      globals.push(newGlobal(type, mutable, initializer(globals, funcRef)))
     }
 
     // Handle tables
     for (const [type, min, max] of tableSection) {
-      const table: (Function | null)[] = []
-      for (let i = 0; i < min; i++) table.push(null)
-      tables.push(table)
-    }
-    for (let [offset, indices] of elementSection) {
-      if (tables.length !== 1) throw new Error('Multiple tables are unsupported')
-      const table = tables[0]
-      for (const index of indices) {
-        const i = offset++
-        table[i] = (...args: any[]): any => {
-          const result = funcs[index](...args) // Compile the function for the first time
-          table[i] = funcs[index] // Overwrite ourselves with the newly-compiled function
-          return result
-        }
-      }
+      const element = type === Type.ExternRef ? 'externref' : 'anyfunc'
+      tables.push(new Table({ element, initial: min, maximum: max < Infinity ? max : undefined }, null))
     }
 
-    // Handle exports
-    const exportFunc = (index: number): Function => {
-      const [argTypes, returnTypes] = funcTypes[index]
-      const argNames: string[] = []
-      const argExprs: string[] = []
-      for (let i = 0; i < argTypes.length; i++) {
-        argNames.push('a' + i)
-        argExprs.push(castToWASM('a' + i, argTypes[i]))
+    // Handle elements (like data, active and declarative segments are dropped
+    // during instantiation so only passive segments remain for "table.init")
+    const elementSegments: unknown[][] = []
+    for (const [mode, tableIndex, offset, items] of elementSection) {
+      if (mode !== ElementMode.Active) {
+        elementSegments.push(mode === ElementMode.Passive ? items.map(item => item(globals, funcRef)) : [])
+        continue
+      }
+      const start = (offset!(globals, funcRef) as number) >>> 0
+      const table = tables[tableIndex].elements_
+      if (start + items.length > table.length) throw new RuntimeError('out of bounds table access')
+      for (let i = 0; i < items.length; i++) {
+        const slot = start + i
+        table[slot] = items[i](globals, index => {
+          const trampoline = withType((...args: any[]): any => {
+            const result = funcs[index](...args) // Compile the function for the first time
+            if (table[slot] === trampoline) table[slot] = funcs[index] // Overwrite ourselves with the newly-compiled function
+            return result
+          }, index)
+          return trampoline
+        })
       }
-      let result = `f[i](${argExprs})`
-      if (returnTypes.length === 1) {
-        result = 'return ' + castToJS(result, returnTypes[0])
-      } else if (returnTypes.length > 1) {
-        result = `let r=${result};`
-        for (let i = 0; i < returnTypes.length; i++) result += `r[${i}]=${castToJS(`r[${i}]`, returnTypes[i])};`
-        result += 'return r'
+      elementSegments.push([])
+    }
+
+    // Handle data (active segments are dropped once they have been copied
+    // into memory, so only passive segments remain for "memory.init")
+    const dataSegments: Uint8Array[] = []
+    for (const [index, offset, data] of dataSection) {
+      if (offset === null) {
+        dataSegments.push(data)
+        continue
       }
-      return new Function('f', 'i', 'l', `return(${argNames})=>{${result}}`)(funcs, index, library)
+      if (index !== 0) throw new LinkError(`Invalid memory index: ${index}`)
+      const start = (offset(globals, funcRef) as number) >>> 0
+      const bytes = context[ContextField.Uint8Array]
+      if (start + data.length > bytes.length) throw new RuntimeError('out of bounds memory access')
+      bytes.set(data, start)
+      dataSegments.push(new Uint8Array)
     }
+
+    // Handle exports
     for (const [name, desc, index] of exportSection) {
       if (desc === Desc.Func) {
         exports[name] = exportFunc(index)
       } else if (desc === Desc.Table) {
-        const funcs: (Function | null)[] = []
-        for (let [offset, indices] of elementSection) {
-          for (const index of indices) {
-            funcs[offset++] = exportFunc(index)
-          }
-        }
-        const value = new Table
-        Object.defineProperty(value, 'length', {
-          get: () => funcs.length,
-        })
-        value.get = i => funcs[i]
-        value.grow = () => { throw new Error(`Unsupported operation "grow" on table ${index}`) }
-        value.set = () => { throw new Error(`Unsupported operation "set" on table ${index}`) }
-        exports[name] = value
+        exports[name] = tables[index]
       } else if (desc === Desc.Mem) {
         exports[name] = memory
       } else if (desc === Desc.Global) {
-        const value = new Global
-        const type = globalTypes[index]
-        Object.defineProperty(value, 'value', {
-          get: () => globals[index],
-          set: x => { globals[index] = liveCastToWASM(x, type) },
-        })
-        exports[name] = value
+        exports[name] = globals[index]
       } else {
-        throw new Error(`Unsupported export type ${desc} for "${name}"`)
+        throw new LinkError(`Unsupported export type ${desc} for "${name}"`)
       }
     }
 
+    // Functions that haven't been compiled yet are compiled in order. When
+    // errors are ignored (i.e. in the background), they are kept and thrown
+    // when the function is called instead.
+    let nextToCompile = 0
+    const compileChunk: CompileChunk = (deadline, ignoreErrors) => {
+      while (nextToCompile < codeSection.length) {
+        const i = nextToCompile++
+        try {
+          compileFunc(i)
+        } catch (error) {
+          if (!ignoreErrors) throw error
+          compileErrors.set(i, error)
+        }
+        if (performance.now() >= deadline) break
+      }
+      return nextToCompile === codeSection.length
+    }
+    compileChunks.set(this, compileChunk)
+    if (options.compilation === 'eager') compileChunk(Infinity, false)
+    else if (options.compilation === 'background') compileInChunks(this, true)
+
     // Handle the starting function
     if (startSection >= 0) funcs[startSection]()
   }
 }
+
+// This compiles every function that hasn't been compiled yet for an instance
+// using timers, so that the event loop can run between chunks. Functions that
+// are called before this reaches them are still compiled right away when
+// they are called, so the functions that are actually used aren't delayed.
+type CompileChunk = (deadline: number, ignoreErrors: boolean) => boolean
+const compileChunks = new WeakMap<Instance, CompileChunk>()
+const chunkDuration = 5 // In milliseconds
+
+export const compileInChunks = (instance: Instance, ignoreErrors = false): Promise<void> => {
+  const compileChunk = compileChunks.get(instance)!
+  return new Promise((resolve, reject) => {
+    const next = () => {
+      try {
+        if (compileChunk(performance.now() + chunkDuration, ignoreErrors)) resolve()
+        else setTimeout(next)
+      } catch (error) {
+        reject(error)
+      }
+    }
+    setTimeout(next)
+  })
+}
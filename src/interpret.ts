@@ -0,0 +1,534 @@
+// This file provides a way to run a single WebAssembly function without
+// converting it to JavaScript. It's used instead of "compile.ts" with the
+// "interpreter" option or when "new Function" isn't available (see
+// "checkCanGenerateCode"). It's much slower than the compiled code, but the
+// results are the same because values use the same representation and the
+// same library.
+
+import type { CodeFactory } from "./compile.ts";
+import { ContextField, type InstanceOptions, type TypedFunction } from "./instantiate.ts";
+import { type FuncType, Type, type WASM } from "./parse.ts";
+import { Op, metaTable, MetaFlag } from "./defs.ts";
+import { CompileError } from "./errors.ts";
+
+export const interpretCode = (
+  funcTypes: FuncType[],
+  wasm: WASM,
+  options: InstanceOptions,
+  codeIndex: number,
+  funcIndex: number,
+): CodeFactory => {
+  const {
+    bytes_: bytes,
+    dataView_: dataView,
+    codeSection_: codeSection,
+    functionSection_: functionSection,
+    nameSection_: nameSection,
+    typeSection_: typeSection,
+  } = wasm
+
+  const traps = !!options.traps
+  const boundsChecks = !!options.boundsChecks
+  const [argTypes, returnTypes] = typeSection[functionSection[codeIndex]]
+  const [locals, codeStart, codeEnd] = codeSection[codeIndex]
+  const argCount = argTypes.length
+  const returnCount = returnTypes.length
+
+  // The positions of the "else" and "end" that match each "block", "loop",
+  // and "if" are found ahead of time so that branches can jump directly there.
+  // These maps go from the position of the opcode that starts the block to
+  // the position right after the "else" or "end".
+  const elses = new Map<number, number>()
+  const ends = new Map<number, number>()
+  {
+    const starts: number[] = []
+    let ptr = codeStart
+    const readU32LEB = (): number => {
+      let value = 0
+      let shift = 0
+      let byte: number
+      do {
+        byte = bytes[ptr++]
+        value |= (byte & 0x7F) << shift
+        shift += 7
+      } while (byte & 0x80)
+      return value >>> 0
+    }
+    while (ptr < codeEnd) {
+      const start = ptr
+      const op = bytes[ptr++]
+      const flags: MetaFlag = metaTable[op]
+      if (flags & MetaFlag.Simple) {
+        if (flags & MetaFlag.HasAlign) ptr++
+        if (flags & MetaFlag.HasIndex) readU32LEB()
+        continue
+      }
+      switch (op) {
+        case Op.block: case Op.loop: case Op.if:
+          starts.push(start)
+          if (bytes[ptr] === 0x40 || (bytes[ptr] & 0x40)) ptr++
+          else readU32LEB()
+          break
+        case Op.else: elses.set(starts[starts.length - 1], ptr); break
+        case Op.end: if (starts.length) ends.set(starts.pop()!, ptr); break
+        case Op.br: case Op.br_if: case Op.call: case Op.i32_const: case Op.i64_const: readU32LEB(); break
+        case Op.br_table: for (let i = 0, count = readU32LEB(); i <= count; i++) readU32LEB(); break
+        case Op.call_indirect: readU32LEB(); readU32LEB(); break
+        case Op.select_type: { const count = readU32LEB(); ptr += count; break }
+        case Op.f32_const: ptr += 4; break
+        case Op.f64_const: ptr += 8; break
+        case Op.unreachable: case Op.return: case Op.select: break
+        case 0xFC: {
+          const subOp = bytes[ptr++]
+          if (subOp <= Op.i64_trunc_sat_f64_u) break
+          else if (subOp === Op.memory_init) { readU32LEB(); ptr++ }
+          else if (subOp === Op.memory_copy) ptr += 2
+          else if (subOp === Op.memory_fill) ptr++
+          else if (subOp === Op.table_init || subOp === Op.table_copy) { readU32LEB(); readU32LEB() }
+          else if (subOp === Op.data_drop || subOp === Op.elem_drop || subOp === Op.table_grow || subOp === 0x10 || subOp === 0x11) readU32LEB()
+          else throw new CompileError('Unsupported instruction: 0xFC' + subOp.toString(16).padStart(2, '0'))
+          break
+        }
+        default:
+          throw new CompileError('Unsupported instruction: 0x' + op.toString(16).padStart(2, '0'))
+      }
+    }
+  }
+
+  // Locals start off with the default value for their type
+  const localDefaults: unknown[] = []
+  for (const [count, type] of locals) {
+    for (let i = 0; i < count; i++) {
+      localDefaults.push(type === Type.I64 ? 0n : type === Type.FuncRef || type === Type.ExternRef ? null : 0)
+    }
+  }
+
+  const name = 'wasm:' + (nameSection.get(funcIndex) || `function[${codeIndex}]`)
+
+  return (f, c, t, g, d, p, l, r) => {
+    // The canonical type ids used by "call_indirect" are looked up once
+    const canonicalTypes: number[] = []
+
+    const run = (args: any[]): any => {
+      const local: any[] = args.slice(0, argCount).concat(localDefaults)
+      const stack: any[] = []
+      let sp = 0
+
+      // Labels are stored as parallel arrays. Label 0 is the function itself,
+      // and branching to it returns from the function.
+      const labelHeights: number[] = [0]
+      const labelArities: number[] = [returnCount]
+      const labelTargets: number[] = [codeEnd]
+      const labelIsLoop: boolean[] = [false]
+      let depth = 1
+      let branch = -1
+
+      let ptr = codeStart
+      const readU32LEB = (): number => {
+        let value = 0
+        let shift = 0
+        let byte: number
+        do {
+          byte = bytes[ptr++]
+          value |= (byte & 0x7F) << shift
+          shift += 7
+        } while (byte & 0x80)
+        return value >>> 0
+      }
+      const readI32LEB = (): number => {
+        let value = 0
+        let shift = 0
+        let byte: number
+        do {
+          byte = bytes[ptr++]
+          value |= (byte & 0x7F) << shift
+          shift += 7
+        } while (byte & 0x80)
+        return shift < 32 && (byte & 0x40) ? value | (~0 << shift) : value
+      }
+      const readI64LEB = (): bigint => {
+        let value = 0n
+        let shift = 0n
+        let byte: number
+        do {
+          byte = bytes[ptr++]
+          value |= BigInt(byte & 0x7F) << shift
+          shift += 7n
+        } while (byte & 0x80)
+        return shift < 64 && (byte & 0x40) ? value | (~0n << shift) : value
+      }
+      const pushLabel = (start: number, isLoop: boolean): void => {
+        let blockArgCount = 0
+        let blockReturnCount = 0
+        const byte = bytes[ptr]
+        if (byte === 0x40) {
+          ptr++
+        } else if (byte & 0x40) {
+          ptr++
+          blockReturnCount = 1
+        } else {
+          const [argTypes, returnTypes] = typeSection[readU32LEB()]
+          blockArgCount = argTypes.length
+          blockReturnCount = returnTypes.length
+        }
+        labelHeights[depth] = sp - blockArgCount
+        labelArities[depth] = isLoop ? blockArgCount : blockReturnCount
+        labelTargets[depth] = isLoop ? ptr : ends.get(start)!
+        labelIsLoop[depth] = isLoop
+        depth++
+      }
+      const pushResults = (count: number, result: any): void => {
+        if (count === 1) stack[sp++] = result
+        else for (let i = 0; i < count; i++) stack[sp++] = result[i]
+      }
+
+      // Memory accesses behave like they do in the compiled code (see
+      // "address" in "compile.ts")
+      const address = (addr: number, size: number): number => {
+        const offset = readU32LEB()
+        if (!boundsChecks) return addr + (offset | 0)
+        const result = (addr >>> 0) + offset
+        if (result + size > c[ContextField.Uint8Array].length) l.trap_('out of bounds memory access')
+        return result
+      }
+
+      for (;;) {
+        const start = ptr
+        const op = bytes[ptr++]
+        const flags: MetaFlag = metaTable[op]
+
+        // Most opcodes can be decoded automatically using a table lookup
+        if (flags & MetaFlag.Simple) {
+          sp -= flags & MetaFlag.PopMask
+          let a: any = stack[sp]
+          let b: any = stack[sp + 1]
+          if (flags & MetaFlag.And63) b &= 63n
+          if (flags & MetaFlag.ToU32) {
+            a >>>= 0
+            b >>>= 0
+          }
+          if (flags & MetaFlag.ToS64) {
+            a = l.u64_to_s64_(a)
+            if (b !== undefined) b = l.u64_to_s64_(b)
+          }
+          if (flags & MetaFlag.HasAlign) ptr++ // Alignment hints are ignored
+          let result: any = a
+          if (!(flags & MetaFlag.Omit)) {
+            switch (op) {
+              case Op.local_get: result = local[readU32LEB()]; break
+              case Op.local_set: case Op.local_tee: local[readU32LEB()] = a; break
+              case Op.global_get: result = g[readU32LEB()].value_; break
+              case Op.global_set: g[readU32LEB()].value_ = a; break
+
+              case Op.table_get: result = l.table_get_(t[readU32LEB()].elements_, a); break
+              case Op.table_set: l.table_set_(t[readU32LEB()].elements_, a, b); break
+
+              case Op.ref_null: readU32LEB(); result = null; break
+              case Op.ref_is_null: result = a === null; break
+              case Op.ref_func: result = r(readU32LEB()); break
+
+              case Op.i32_load: result = c[ContextField.DataView].getInt32(address(a, 4), true); break
+              case Op.i64_load: result = c[ContextField.DataView].getBigUint64(address(a, 8), true); break
+              case Op.f32_load: result = c[ContextField.DataView].getFloat32(address(a, 4), true); break
+              case Op.f64_load: result = c[ContextField.DataView].getFloat64(address(a, 8), true); break
+              case Op.i32_load8_s: result = c[ContextField.Int8Array][address(a, 1)]; break
+              case Op.i32_load8_u: result = c[ContextField.Uint8Array][address(a, 1)]; break
+              case Op.i32_load16_s: result = c[ContextField.DataView].getInt16(address(a, 2), true); break
+              case Op.i32_load16_u: result = c[ContextField.DataView].getUint16(address(a, 2), true); break
+              case Op.i64_load8_s: result = BigInt(c[ContextField.Int8Array][address(a, 1)]) & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_load8_u: result = BigInt(c[ContextField.Uint8Array][address(a, 1)]); break
+              case Op.i64_load16_s: result = BigInt(c[ContextField.DataView].getInt16(address(a, 2), true)) & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_load16_u: result = BigInt(c[ContextField.DataView].getUint16(address(a, 2), true)); break
+              case Op.i64_load32_s: result = BigInt(c[ContextField.DataView].getInt32(address(a, 4), true)) & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_load32_u: result = BigInt(c[ContextField.DataView].getUint32(address(a, 4), true)); break
+              case Op.i32_store: c[ContextField.DataView].setInt32(address(a, 4), b, true); break
+              case Op.i64_store: c[ContextField.DataView].setBigUint64(address(a, 8), b, true); break
+              case Op.f32_store: c[ContextField.DataView].setFloat32(address(a, 4), b, true); break
+              case Op.f64_store: c[ContextField.DataView].setFloat64(address(a, 8), b, true); break
+              case Op.i32_store8: c[ContextField.Uint8Array][address(a, 1)] = b; break
+              case Op.i32_store16: c[ContextField.DataView].setInt16(address(a, 2), b, true); break
+              case Op.i64_store8: c[ContextField.Uint8Array][address(a, 1)] = Number(b & 255n); break
+              case Op.i64_store16: c[ContextField.DataView].setInt16(address(a, 2), Number(b & 65535n), true); break
+              case Op.i64_store32: c[ContextField.DataView].setInt32(address(a, 4), Number(b & 0xFFFF_FFFFn), true); break
+
+              case Op.memory_size: readU32LEB(); result = c[ContextField.PageCount]; break
+              case Op.memory_grow: readU32LEB(); result = c[ContextField.PageGrow](a); break
+
+              case Op.i32_eqz: case Op.i64_eqz: result = a ? 0 : 1; break
+              case Op.i32_eq: case Op.i64_eq: case Op.f32_eq: case Op.f64_eq: result = a === b; break
+              case Op.i32_ne: case Op.i64_ne: case Op.f32_ne: case Op.f64_ne: result = a !== b; break
+              case Op.i32_lt_s: case Op.i32_lt_u: case Op.i64_lt_s: case Op.i64_lt_u: case Op.f32_lt: case Op.f64_lt: result = a < b; break
+              case Op.i32_gt_s: case Op.i32_gt_u: case Op.i64_gt_s: case Op.i64_gt_u: case Op.f32_gt: case Op.f64_gt: result = a > b; break
+              case Op.i32_le_s: case Op.i32_le_u: case Op.i64_le_s: case Op.i64_le_u: case Op.f32_le: case Op.f64_le: result = a <= b; break
+              case Op.i32_ge_s: case Op.i32_ge_u: case Op.i64_ge_s: case Op.i64_ge_u: case Op.f32_ge: case Op.f64_ge: result = a >= b; break
+
+              case Op.i32_clz: result = Math.clz32(a); break
+              case Op.i32_ctz: result = l.i32_ctz_(a); break
+              case Op.i32_popcnt: result = l.i32_popcnt_(a); break
+              case Op.i32_add: result = a + b | 0; break
+              case Op.i32_sub: result = a - b | 0; break
+              case Op.i32_mul: result = Math.imul(a, b); break
+              case Op.i32_div_s: result = traps ? l.i32_div_s_(a, b) : a / b | 0; break
+              case Op.i32_div_u: result = traps ? l.i32_div_u_(a, b) : a / b | 0; break
+              case Op.i32_rem_s: case Op.i32_rem_u: result = traps ? l.i32_rem_(a, b) : a % b | 0; break
+              case Op.i32_and: result = a & b; break
+              case Op.i32_or: result = a | b; break
+              case Op.i32_xor: result = a ^ b; break
+              case Op.i32_shl: result = a << b; break
+              case Op.i32_shr_s: result = a >> b; break
+              case Op.i32_shr_u: result = a >>> b | 0; break
+              case Op.i32_rotl: result = l.i32_rotl_(a, b); break
+              case Op.i32_rotr: result = l.i32_rotr_(a, b); break
+
+              case Op.i64_clz: result = l.i64_clz_(a); break
+              case Op.i64_ctz: result = l.i64_ctz_(a); break
+              case Op.i64_popcnt: result = l.i64_popcnt_(a); break
+              case Op.i64_add: result = ((a as bigint) + b) & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_sub: result = ((a as bigint) - b) & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_mul: result = ((a as bigint) * b) & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_div_s: result = traps ? l.i64_div_s_(a, b) : (a as bigint) / b & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_div_u: result = traps ? l.i64_div_u_(a, b) : a / b; break
+              case Op.i64_rem_s: result = traps ? l.i64_rem_(a, b) : (a as bigint) % b & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_rem_u: result = traps ? l.i64_rem_(a, b) : a % b; break
+              case Op.i64_and: result = a & b; break
+              case Op.i64_or: result = a | b; break
+              case Op.i64_xor: result = a ^ b; break
+              case Op.i64_shl: result = (a as bigint) << b & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_shr_s: result = l.u64_to_s64_(a) >> b & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_shr_u: result = a >> b; break
+              case Op.i64_rotl: result = l.i64_rotl_(a, b); break
+              case Op.i64_rotr: result = l.i64_rotr_(a, b); break
+
+              case Op.f32_abs: case Op.f64_abs: result = Math.abs(a); break
+              case Op.f32_neg: case Op.f64_neg: result = -a; break
+              case Op.f32_ceil: case Op.f64_ceil: result = Math.ceil(a); break
+              case Op.f32_floor: case Op.f64_floor: result = Math.floor(a); break
+              case Op.f32_trunc: case Op.f64_trunc: result = Math.trunc(a); break
+              case Op.f32_nearest: case Op.f64_nearest: result = l.nearest_(a); break
+              case Op.f32_sqrt: case Op.f64_sqrt: result = Math.sqrt(a); break
+              case Op.f32_add: case Op.f64_add: result = a + b; break
+              case Op.f32_sub: case Op.f64_sub: result = a - b; break
+              case Op.f32_mul: case Op.f64_mul: result = a * b; break
+              case Op.f32_div: case Op.f64_div: result = a / b; break
+              case Op.f32_min: case Op.f64_min: result = Math.min(a, b); break
+              case Op.f32_max: case Op.f64_max: result = Math.max(a, b); break
+              case Op.f32_copysign: case Op.f64_copysign: result = l.copysign_(a, b); break
+
+              case Op.i32_wrap_i64: result = Number(a & 0xFFFF_FFFFn) | 0; break
+              case Op.i32_trunc_f32_s: case Op.i32_trunc_f64_s: result = traps ? l.i32_trunc_s_(a) : Math.trunc(a) | 0; break
+              case Op.i32_trunc_f32_u: case Op.i32_trunc_f64_u: result = traps ? l.i32_trunc_u_(a) : Math.trunc(a) | 0; break
+              case Op.i64_extend_i32_s: result = BigInt(a) & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_extend_i32_u: result = BigInt(a >>> 0); break
+              case Op.i64_trunc_f32_s: case Op.i64_trunc_f64_s: result = traps ? l.i64_trunc_s_(a) : BigInt(Math.trunc(a)) & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.i64_trunc_f32_u: case Op.i64_trunc_f64_u: result = traps ? l.i64_trunc_u_(a) : BigInt(Math.trunc(a)) & 0xFFFF_FFFF_FFFF_FFFFn; break
+              case Op.f32_convert_i64_s: case Op.f32_convert_i64_u: case Op.f64_convert_i64_s: case Op.f64_convert_i64_u: result = Number(a); break
+              case Op.i32_reinterpret_f32: result = l.i32_reinterpret_f32_(a); break
+              case Op.i64_reinterpret_f64: result = l.i64_reinterpret_f64_(a); break
+              case Op.f32_reinterpret_i32: result = l.f32_reinterpret_i32_(a); break
+              case Op.f64_reinterpret_i64: result = l.f64_reinterpret_i64_(a); break
+
+              case Op.i32_extend8_s: result = a << 24 >> 24; break
+              case Op.i32_extend16_s: result = a << 16 >> 16; break
+              case Op.i64_extend8_s: result = l.i64_extend8_s_(a); break
+              case Op.i64_extend16_s: result = l.i64_extend16_s_(a); break
+              case Op.i64_extend32_s: result = l.i64_extend32_s_(a); break
+
+              default: throw 'Internal error'
+            }
+          }
+          if (flags & MetaFlag.Push) stack[sp++] = flags & MetaFlag.BoolToInt ? result ? 1 : 0 : result
+          continue
+        }
+
+        // A few opcodes need special handling and can't be decoded with a table
+        switch (op) {
+          case Op.unreachable:
+            l.trap_('unreachable')
+            break
+
+          case Op.block:
+            pushLabel(start, false)
+            break
+
+          case Op.loop:
+            pushLabel(start, true)
+            break
+
+          case Op.if: {
+            const test = stack[--sp]
+            pushLabel(start, false)
+            if (!test) {
+              const elsePtr = elses.get(start)
+              if (elsePtr !== undefined) {
+                ptr = elsePtr
+              } else {
+                ptr = labelTargets[--depth]
+              }
+            }
+            break
+          }
+
+          case Op.else:
+            // Reaching "else" means the "then" branch has finished
+            ptr = labelTargets[--depth]
+            break
+
+          case Op.end:
+            if (depth === 1) branch = 0
+            else depth--
+            break
+
+          case Op.br:
+            branch = readU32LEB()
+            break
+
+          case Op.br_if: {
+            const index = readU32LEB()
+            if (stack[--sp]) branch = index
+            break
+          }
+
+          case Op.br_table: {
+            // Indices past the end of the table use the last (default) label
+            const tableCount = readU32LEB()
+            const index = Math.min(stack[--sp] >>> 0, tableCount)
+            for (let i = 0; i < index; i++) readU32LEB()
+            branch = readU32LEB()
+            break
+          }
+
+          case Op.return:
+            branch = depth - 1
+            break
+
+          case Op.call: {
+            const index = readU32LEB()
+            const [argTypes, returnTypes] = funcTypes[index]
+            sp -= argTypes.length
+            pushResults(returnTypes.length, f[index](...stack.slice(sp, sp + argTypes.length)))
+            break
+          }
+
+          case Op.call_indirect: {
+            const typeIndex = readU32LEB()
+            const elements = t[readU32LEB()].elements_
+            const [argTypes, returnTypes] = typeSection[typeIndex]
+            const index = stack[--sp]
+            sp -= argTypes.length
+            let type = canonicalTypes[typeIndex]
+            if (type === undefined) type = canonicalTypes[typeIndex] = l.func_type_(typeSection[typeIndex])
+            const func = traps ? l.call_indirect_(elements as TypedFunction[], index, type) : elements[index] as Function
+            pushResults(returnTypes.length, func(...stack.slice(sp, sp + argTypes.length)))
+            break
+          }
+
+          case Op.select:
+          case Op.select_type: {
+            if (op === Op.select_type) {
+              const count = readU32LEB()
+              ptr += count // The value types are ignored
+            }
+            const test = stack[--sp]
+            sp--
+            if (!test) stack[sp - 1] = stack[sp]
+            break
+          }
+
+          case Op.i32_const:
+            stack[sp++] = readI32LEB()
+            break
+
+          case Op.i64_const:
+            stack[sp++] = readI64LEB() & 0xFFFF_FFFF_FFFF_FFFFn
+            break
+
+          case Op.f32_const:
+            stack[sp++] = dataView.getFloat32(ptr, true)
+            ptr += 4
+            break
+
+          case Op.f64_const:
+            stack[sp++] = dataView.getFloat64(ptr, true)
+            ptr += 8
+            break
+
+          case 0xFC: {
+            const subOp = bytes[ptr++]
+            if (subOp <= Op.i64_trunc_sat_f64_u) {
+              const a = stack[sp - 1]
+              stack[sp - 1] =
+                subOp === Op.i32_trunc_sat_f32_s || subOp === Op.i32_trunc_sat_f64_s ? l.i32_trunc_sat_s_(a) :
+                  subOp === Op.i32_trunc_sat_f32_u || subOp === Op.i32_trunc_sat_f64_u ? l.i32_trunc_sat_u_(a) :
+                    subOp === Op.i64_trunc_sat_f32_s || subOp === Op.i64_trunc_sat_f64_s ? l.i64_trunc_sat_s_(a) :
+                      l.i64_trunc_sat_u_(a)
+            } else if (subOp === Op.memory_init) {
+              const segmentIndex = readU32LEB()
+              ptr++ // The memory index
+              sp -= 3
+              l.memory_init_(c[ContextField.Uint8Array], d[segmentIndex], stack[sp], stack[sp + 1], stack[sp + 2])
+            } else if (subOp === Op.data_drop) {
+              d[readU32LEB()] = new Uint8Array
+            } else if (subOp === Op.memory_copy) {
+              ptr += 2 // The source and destination memory indices
+              sp -= 3
+              const dest = stack[sp], source = stack[sp + 1], count = stack[sp + 2]
+              if (boundsChecks) l.memory_copy_(c[ContextField.Uint8Array], dest, source, count)
+              else c[ContextField.Uint8Array].copyWithin(dest, source, source + count)
+            } else if (subOp === Op.memory_fill) {
+              ptr++ // The memory index
+              sp -= 3
+              const dest = stack[sp], value = stack[sp + 1], count = stack[sp + 2]
+              if (boundsChecks) l.memory_fill_(c[ContextField.Uint8Array], value, dest, count)
+              else c[ContextField.Uint8Array].fill(value, dest, dest + count)
+            } else if (subOp === Op.table_init) {
+              const segmentIndex = readU32LEB()
+              const elements = t[readU32LEB()].elements_
+              sp -= 3
+              l.table_init_(elements, p[segmentIndex], stack[sp], stack[sp + 1], stack[sp + 2])
+            } else if (subOp === Op.elem_drop) {
+              p[readU32LEB()] = []
+            } else if (subOp === Op.table_copy) {
+              const destElements = t[readU32LEB()].elements_
+              const sourceElements = t[readU32LEB()].elements_
+              sp -= 3
+              l.table_copy_(destElements, sourceElements, stack[sp], stack[sp + 1], stack[sp + 2])
+            } else if (subOp === Op.table_grow) {
+              const table = t[readU32LEB()]
+              sp--
+              stack[sp - 1] = table.grow_(stack[sp], stack[sp - 1])
+            } else if (subOp === 0x10) { // "table.size"
+              stack[sp++] = t[readU32LEB()].elements_.length
+            } else if (subOp === 0x11) { // "table.fill"
+              const elements = t[readU32LEB()].elements_
+              sp -= 3
+              l.table_fill_(elements, stack[sp], stack[sp + 1], stack[sp + 2])
+            }
+            break
+          }
+        }
+
+        // Branching to a block jumps to its end and branching to a loop jumps
+        // to its start. Either way, the values the label expects are moved
+        // down to where the stack was when the label was pushed.
+        if (branch >= 0) {
+          const label = depth - 1 - branch
+          const height = labelHeights[label]
+          const arity = labelArities[label]
+          branch = -1
+          if (!label) {
+            if (arity === 1) return stack[sp - 1]
+            if (arity > 1) return stack.slice(sp - arity, sp)
+            return
+          }
+          for (let i = 0; i < arity; i++) stack[height + i] = stack[sp - arity + i]
+          sp = height + arity
+          ptr = labelTargets[label]
+          depth = labelIsLoop[label] ? label + 1 : label
+        }
+      }
+    }
+
+    return { [name](...args: any[]): any { return run(args) } }[name]
+  }
+}
+
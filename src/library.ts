@@ -1,5 +1,33 @@
+import { funcFromJS, funcToJS } from "./defs.ts";
+import { RuntimeError } from "./errors.ts";
+import type { TypedFunction } from "./instantiate.ts";
+import { canonicalFuncType } from "./parse.ts";
+
 export type Library = ReturnType<typeof createLibrary>
 
+// When 64-bit integers are lowered to pairs of 32-bit numbers (see "i64" in
+// "InstanceOptions"), functions and helpers that produce one return the low
+// half and leave the high half here. This is shared by all instances because
+// functions from one instance can be called by another through a table.
+const high = new Int32Array(1)
+
+// These return the low half of a 64-bit integer and store the high half. The
+// number must be an integer that's exactly representable as a double.
+const splitNumber = (x: number): number => {
+  const hi = Math.floor(x / 0x1_0000_0000)
+  high[0] = hi
+  return x - hi * 0x1_0000_0000 | 0
+}
+const splitBigInt = (x: bigint): number => {
+  high[0] = Number(x >> 32n & 0xFFFF_FFFFn)
+  return Number(x & 0xFFFF_FFFFn) | 0
+}
+
+// Values with a high half in this range are below 2**51 in magnitude, which is
+// small enough that dividing them as doubles always gives the exact quotient
+const isSmallSigned = (hi: number): boolean => hi >= -0x8_0000 && hi < 0x8_0000
+const isSmallUnsigned = (hi: number): boolean => (hi >>> 0) < 0x8_0000
+
 export const createLibrary = () => {
   const buffer = new ArrayBuffer(8)
   const f32 = new Float32Array(buffer)
@@ -7,8 +35,26 @@ export const createLibrary = () => {
   const i32 = new Int32Array(buffer)
   const i64 = new BigInt64Array(buffer)
   const u64 = new BigUint64Array(buffer)
+  const view = new DataView(buffer)
+
+  const trap = (message: string): never => {
+    throw new RuntimeError(message)
+  }
+
+  const ctz32 = (x: number): number => x ? Math.clz32(x & -x) ^ 31 : 32
+  const popcnt32 = (x: number): number => {
+    let count = 0
+    while (x) {
+      count++
+      x &= x - 1
+    }
+    return count
+  }
+  const pairToS64 = (lo: number, hi: number): bigint => BigInt(hi) << 32n | BigInt(lo >>> 0)
+  const pairToU64 = (lo: number, hi: number): bigint => BigInt(hi >>> 0) << 32n | BigInt(lo >>> 0)
 
   return {
+    trap_: trap,
     copysign_(x: number, y: number): number {
       const xSignIsNeg = x < 0 || (x === 0 && Object.is(x, -0));
       const ySignIsNeg = y < 0 || (y === 0 && Object.is(y, -0));
@@ -48,17 +94,8 @@ export const createLibrary = () => {
       // Note: "y" is already "y & 63n" from the caller
       return (x >> y | x << 64n - y) & 0xFFFF_FFFF_FFFF_FFFFn
     },
-    i32_ctz_(x: number): number {
-      return x ? Math.clz32(x & -x) ^ 31 : 32
-    },
-    i32_popcnt_(x: number): number {
-      let count = 0
-      while (x) {
-        count++
-        x &= x - 1
-      }
-      return count
-    },
+    i32_ctz_: ctz32,
+    i32_popcnt_: popcnt32,
     i64_clz_(x: bigint): bigint {
       let count = Math.clz32(Number((x >> 32n) & 0xFFFF_FFFFn))
       if (count === 32) count += Math.clz32(Number(x & 0xFFFF_FFFFn))
@@ -78,6 +115,77 @@ export const createLibrary = () => {
       }
       return count
     },
+    func_type_: canonicalFuncType,
+    // These are only used when traps are enabled. They are separate from the
+    // inline expressions used otherwise because they are much slower.
+    call_indirect_(table: (TypedFunction | null)[], index: number, type: number): TypedFunction {
+      const func = table[index >>> 0]
+      if (func === undefined) return trap('undefined element')
+      if (func === null) return trap('uninitialized element')
+      if (func.type_ !== type) return trap('indirect call signature mismatch')
+      return func
+    },
+    i32_div_s_(x: number, y: number): number {
+      if (!y) trap('integer divide by zero')
+      if (x === -0x8000_0000 && y === -1) trap('integer overflow')
+      return x / y | 0
+    },
+    i32_div_u_(x: number, y: number): number {
+      // Note: "x" and "y" are already unsigned from the caller
+      if (!y) trap('integer divide by zero')
+      return x / y | 0
+    },
+    i32_rem_(x: number, y: number): number {
+      if (!y) trap('integer divide by zero')
+      return x % y | 0
+    },
+    i64_div_s_(x: bigint, y: bigint): bigint {
+      // Note: "x" and "y" are already signed from the caller
+      if (!y) trap('integer divide by zero')
+      if (x === -0x8000_0000_0000_0000n && y === -1n) trap('integer overflow')
+      return x / y & 0xFFFF_FFFF_FFFF_FFFFn
+    },
+    i64_div_u_(x: bigint, y: bigint): bigint {
+      if (!y) trap('integer divide by zero')
+      return x / y
+    },
+    i64_rem_(x: bigint, y: bigint): bigint {
+      if (!y) trap('integer divide by zero')
+      return x % y & 0xFFFF_FFFF_FFFF_FFFFn
+    },
+    i32_trunc_s_(x: number): number {
+      if (x !== x) trap('invalid conversion to integer')
+      if (x <= -0x8000_0001 || x >= 0x8000_0000) trap('integer overflow')
+      return x | 0
+    },
+    i32_trunc_u_(x: number): number {
+      if (x !== x) trap('invalid conversion to integer')
+      if (x <= -1 || x >= 0x1_0000_0000) trap('integer overflow')
+      return x | 0
+    },
+    i64_trunc_s_(x: number): bigint {
+      if (x !== x) trap('invalid conversion to integer')
+      if (x < -0x8000_0000_0000_0000 || x >= 0x8000_0000_0000_0000) trap('integer overflow')
+      return BigInt(Math.trunc(x)) & 0xFFFF_FFFF_FFFF_FFFFn
+    },
+    i64_trunc_u_(x: number): bigint {
+      if (x !== x) trap('invalid conversion to integer')
+      if (x <= -1 || x >= 0x1_0000_0000_0000_0000) trap('integer overflow')
+      return BigInt(Math.trunc(x))
+    },
+    memory_copy_(bytes: Uint8Array, dest: number, source: number, count: number): void {
+      dest >>>= 0
+      source >>>= 0
+      count >>>= 0
+      if (dest + count > bytes.length || source + count > bytes.length) trap('out of bounds memory access')
+      bytes.copyWithin(dest, source, source + count)
+    },
+    memory_fill_(bytes: Uint8Array, value: number, dest: number, count: number): void {
+      dest >>>= 0
+      count >>>= 0
+      if (dest + count > bytes.length) trap('out of bounds memory access')
+      bytes.fill(value, dest, dest + count)
+    },
     i32_trunc_sat_s_(x: number): number {
       x = Math.trunc(x)
       return x >= 0x7FFF_FFFF ? 0x7FFF_FFFF :
@@ -122,5 +230,169 @@ export const createLibrary = () => {
       }
       return Math.round(x);
     },
+    // This is always checked because it's rarely performance-sensitive, and
+    // nothing must be copied if any part of either range is out of bounds
+    memory_init_(bytes: Uint8Array, data: Uint8Array, dest: number, source: number, count: number): void {
+      dest >>>= 0
+      source >>>= 0
+      count >>>= 0
+      if (dest + count > bytes.length || source + count > data.length) trap('out of bounds memory access')
+      bytes.set(data.subarray(source, source + count), dest)
+    },
+    func_from_js_: funcFromJS,
+    func_to_js_: funcToJS,
+    // Table accesses are always checked because writing past the end of the
+    // array would otherwise silently grow the table
+    table_get_(table: unknown[], index: number): unknown {
+      index >>>= 0
+      return index < table.length ? table[index] : trap('out of bounds table access')
+    },
+    table_set_(table: unknown[], index: number, value: unknown): void {
+      index >>>= 0
+      if (index >= table.length) trap('out of bounds table access')
+      table[index] = value
+    },
+    table_fill_(table: unknown[], index: number, value: unknown, count: number): void {
+      index >>>= 0
+      count >>>= 0
+      if (index + count > table.length) trap('out of bounds table access')
+      table.fill(value, index, index + count)
+    },
+    table_init_(table: unknown[], segment: unknown[], dest: number, source: number, count: number): void {
+      dest >>>= 0
+      source >>>= 0
+      count >>>= 0
+      if (dest + count > table.length || source + count > segment.length) trap('out of bounds table access')
+      for (let i = 0; i < count; i++) table[dest + i] = segment[source + i]
+    },
+    table_copy_(destTable: unknown[], sourceTable: unknown[], dest: number, source: number, count: number): void {
+      dest >>>= 0
+      source >>>= 0
+      count >>>= 0
+      if (dest + count > destTable.length || source + count > sourceTable.length) trap('out of bounds table access')
+      if (destTable === sourceTable) destTable.copyWithin(dest, source, source + count)
+      else for (let i = 0; i < count; i++) destTable[dest + i] = sourceTable[source + i]
+    },
+    // These are only used when 64-bit integers are lowered to pairs of 32-bit
+    // numbers. Each 64-bit argument is passed as its low half followed by its
+    // high half, and each 64-bit result is returned as its low half with its
+    // high half in "high_[0]". Conversions and division always trap when they
+    // fail because the checks are cheap compared to the rest of the work.
+    high_: high,
+    pair_from_bigint_(x: any): number {
+      return splitBigInt(BigInt(x))
+    },
+    pair_to_s64_: pairToS64,
+    pair_to_u64_: pairToU64,
+    pair_mul_(a: number, ah: number, b: number, bh: number): number {
+      // The high half of the unsigned 32-bit product is computed in 16-bit
+      // pieces so that every intermediate value is exact
+      const a0 = a & 0xFFFF, a1 = a >>> 16, b0 = b & 0xFFFF, b1 = b >>> 16
+      const mid = a1 * b0 + (a0 * b0 >>> 16)
+      const mid2 = a0 * b1 + (mid & 0xFFFF)
+      high[0] = a1 * b1 + (mid >>> 16) + (mid2 >>> 16) + Math.imul(ah, b) + Math.imul(a, bh)
+      return Math.imul(a, b)
+    },
+    pair_div_s_(a: number, ah: number, b: number, bh: number): number {
+      if (!(b | bh)) trap('integer divide by zero')
+      if (isSmallSigned(ah) && isSmallSigned(bh)) return splitNumber(Math.trunc((ah * 0x1_0000_0000 + (a >>> 0)) / (bh * 0x1_0000_0000 + (b >>> 0))))
+      const x = pairToS64(a, ah), y = pairToS64(b, bh)
+      if (x === -0x8000_0000_0000_0000n && y === -1n) trap('integer overflow')
+      return splitBigInt(x / y)
+    },
+    pair_div_u_(a: number, ah: number, b: number, bh: number): number {
+      if (!(b | bh)) trap('integer divide by zero')
+      if (isSmallUnsigned(ah) && isSmallUnsigned(bh)) return splitNumber(Math.floor(((ah >>> 0) * 0x1_0000_0000 + (a >>> 0)) / ((bh >>> 0) * 0x1_0000_0000 + (b >>> 0))))
+      return splitBigInt(pairToU64(a, ah) / pairToU64(b, bh))
+    },
+    pair_rem_s_(a: number, ah: number, b: number, bh: number): number {
+      if (!(b | bh)) trap('integer divide by zero')
+      if (isSmallSigned(ah) && isSmallSigned(bh)) return splitNumber((ah * 0x1_0000_0000 + (a >>> 0)) % (bh * 0x1_0000_0000 + (b >>> 0)))
+      return splitBigInt(pairToS64(a, ah) % pairToS64(b, bh))
+    },
+    pair_rem_u_(a: number, ah: number, b: number, bh: number): number {
+      if (!(b | bh)) trap('integer divide by zero')
+      if (isSmallUnsigned(ah) && isSmallUnsigned(bh)) return splitNumber(((ah >>> 0) * 0x1_0000_0000 + (a >>> 0)) % ((bh >>> 0) * 0x1_0000_0000 + (b >>> 0)))
+      return splitBigInt(pairToU64(a, ah) % pairToU64(b, bh))
+    },
+    pair_shl_(lo: number, hi: number, n: number): number {
+      n &= 63
+      if (n >= 32) {
+        high[0] = lo << n - 32
+        return 0
+      }
+      high[0] = n ? hi << n | lo >>> 32 - n : hi
+      return lo << n
+    },
+    pair_shr_s_(lo: number, hi: number, n: number): number {
+      n &= 63
+      if (n >= 32) {
+        high[0] = hi >> 31
+        return hi >> n - 32
+      }
+      high[0] = hi >> n
+      return n ? lo >>> n | hi << 32 - n : lo
+    },
+    pair_shr_u_(lo: number, hi: number, n: number): number {
+      n &= 63
+      if (n >= 32) {
+        high[0] = 0
+        return hi >>> n - 32 | 0
+      }
+      high[0] = hi >>> n
+      return n ? lo >>> n | hi << 32 - n : lo
+    },
+    pair_rotl_(lo: number, hi: number, n: number): number {
+      if (n & 32) [lo, hi] = [hi, lo]
+      n &= 31
+      high[0] = n ? hi << n | lo >>> 32 - n : hi
+      return n ? lo << n | hi >>> 32 - n : lo
+    },
+    pair_rotr_(lo: number, hi: number, n: number): number {
+      if (n & 32) [lo, hi] = [hi, lo]
+      n &= 31
+      high[0] = n ? hi >>> n | lo << 32 - n : hi
+      return n ? lo >>> n | hi << 32 - n : lo
+    },
+    pair_clz_(lo: number, hi: number): number {
+      return hi ? Math.clz32(hi) : 32 + Math.clz32(lo)
+    },
+    pair_ctz_(lo: number, hi: number): number {
+      return lo ? ctz32(lo) : 32 + ctz32(hi)
+    },
+    pair_popcnt_(lo: number, hi: number): number {
+      return popcnt32(lo) + popcnt32(hi)
+    },
+    pair_trunc_s_(x: number): number {
+      if (x !== x) trap('invalid conversion to integer')
+      if (x < -0x8000_0000_0000_0000 || x >= 0x8000_0000_0000_0000) trap('integer overflow')
+      return splitNumber(Math.trunc(x))
+    },
+    pair_trunc_u_(x: number): number {
+      if (x !== x) trap('invalid conversion to integer')
+      if (x <= -1 || x >= 0x1_0000_0000_0000_0000) trap('integer overflow')
+      return splitNumber(Math.trunc(x))
+    },
+    pair_trunc_sat_s_(x: number): number {
+      x = Math.trunc(x)
+      return x >= 0x8000_0000_0000_0000 ? (high[0] = 0x7FFF_FFFF, -1) :
+        x <= -0x8000_0000_0000_0000 ? (high[0] = -0x8000_0000, 0) :
+          splitNumber(x === x ? x : 0) // NaN must become 0
+    },
+    pair_trunc_sat_u_(x: number): number {
+      x = Math.trunc(x)
+      return x >= 0x1_0000_0000_0000_0000 ? (high[0] = -1, -1) :
+        splitNumber(x > 0 ? x : 0) // NaN must become 0
+    },
+    pair_reinterpret_f64_(x: number): number {
+      view.setFloat64(0, x, true)
+      high[0] = view.getInt32(4, true)
+      return view.getInt32(0, true)
+    },
+    f64_reinterpret_pair_(lo: number, hi: number): number {
+      view.setInt32(0, lo, true)
+      view.setInt32(4, hi, true)
+      return view.getFloat64(0, true)
+    },
   }
 }
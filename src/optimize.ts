@@ -7,7 +7,9 @@
 // WebAssembly natively but is pretty expensive when running WebAssembly via JS
 // using BigInts. Avoiding unnecessary BigInts gives a decent performance boost.
 
-import { Op, Pack } from "./defs.ts";
+import { MetaFlag, Op, Pack, metaTable } from "./defs.ts";
+import type { InstanceOptions } from "./instantiate.ts";
+import type { WASM } from "./parse.ts";
 
 const ENABLE_STATS = false;
 
@@ -17,6 +19,8 @@ type OpWithPayload =
 
   | Op.i32_const
   | Op.i64_const
+  | Op.f32_const
+  | Op.f64_const
 
   | Op.i32_load
   | Op.i64_load
@@ -44,6 +48,8 @@ type OpWithPayload =
   | Op.i64_store32
 
 type OpWithoutPayload =
+  | Op.select
+
   | Op.BOOL
   | Op.BOOL_NOT
   | Op.BOOL_TO_INT
@@ -112,15 +118,90 @@ type OpWithoutPayload =
   | Op.i64_rotl
   | Op.i64_rotr
 
+  | Op.f32_eq
+  | Op.f32_ne
+  | Op.f32_lt
+  | Op.f32_gt
+  | Op.f32_le
+  | Op.f32_ge
+
+  | Op.f64_eq
+  | Op.f64_ne
+  | Op.f64_lt
+  | Op.f64_gt
+  | Op.f64_le
+  | Op.f64_ge
+
+  | Op.f32_abs
+  | Op.f32_neg
+  | Op.f32_ceil
+  | Op.f32_floor
+  | Op.f32_trunc
+  | Op.f32_nearest
+  | Op.f32_sqrt
+  | Op.f32_add
+  | Op.f32_sub
+  | Op.f32_mul
+  | Op.f32_div
+  | Op.f32_min
+  | Op.f32_max
+  | Op.f32_copysign
+
+  | Op.f64_abs
+  | Op.f64_neg
+  | Op.f64_ceil
+  | Op.f64_floor
+  | Op.f64_trunc
+  | Op.f64_nearest
+  | Op.f64_sqrt
+  | Op.f64_add
+  | Op.f64_sub
+  | Op.f64_mul
+  | Op.f64_div
+  | Op.f64_min
+  | Op.f64_max
+  | Op.f64_copysign
+
   | Op.i32_wrap_i64
+  | Op.i32_trunc_f32_s
+  | Op.i32_trunc_f32_u
+  | Op.i32_trunc_f64_s
+  | Op.i32_trunc_f64_u
   | Op.i64_extend_i32_s
   | Op.i64_extend_i32_u
+  | Op.i64_trunc_f32_s
+  | Op.i64_trunc_f32_u
+  | Op.i64_trunc_f64_s
+  | Op.i64_trunc_f64_u
+  | Op.f32_convert_i64_s
+  | Op.f32_convert_i64_u
+  | Op.f64_convert_i64_s
+  | Op.f64_convert_i64_u
+  | Op.i32_reinterpret_f32
+  | Op.i64_reinterpret_f64
+  | Op.f32_reinterpret_i32
+  | Op.f64_reinterpret_i64
+
+  | Op.i32_extend8_s
+  | Op.i32_extend16_s
+  | Op.i64_extend8_s
+  | Op.i64_extend16_s
+  | Op.i64_extend32_s
+
+  | Op.i32_trunc_sat_f32_s
+  | Op.i32_trunc_sat_f32_u
+  | Op.i32_trunc_sat_f64_s
+  | Op.i32_trunc_sat_f64_u
+  | Op.i64_trunc_sat_f32_s
+  | Op.i64_trunc_sat_f32_u
+  | Op.i64_trunc_sat_f64_s
+  | Op.i64_trunc_sat_f64_u
 
 // AST nodes consist of a leading opcode, zero or more child expressions, and
 // an optional trailing payload. The payload is separated out because it isn't
 // included in the AST node's child count (which allows for generic traversal).
 type Expr = 'x' | 'y' | 'z'
-type Payload = 'P' | 'Q'
+type Payload = 'P' | 'Q' | 'R' // "R" is the result of "fold_"
 type OneOfWithoutPayload = '@'
 type OneOfWithPayload = '$'
 
@@ -137,6 +218,7 @@ const enum Edit {
   i64_to_i32 = -1,
   i32_add = -2,
   i64_and = -3,
+  i32_sub = -4,
 }
 
 type ReplacePayload =
@@ -144,21 +226,297 @@ type ReplacePayload =
   | [Edit.i64_to_i32, ReplacePayload]
   | [Edit.i32_add, ReplacePayload, ReplacePayload]
   | [Edit.i64_and, ReplacePayload, ReplacePayload]
+  | [Edit.i32_sub, ReplacePayload, ReplacePayload]
 
+// Payloads in checks are the values of "i64_const" nodes when compared with
+// BigInts and the values of "i32_const" nodes when compared with numbers
 type Check =
   | Payload
   | bigint
+  | number
   | [Check, '===' | '!==' | '<' | '>' | '<=' | '>=' | '&' | '|' | '^', Check]
 
+// This evaluates an opcode on constant operands (see "foldConstant")
+type Fold = [OpWithoutPayload | OneOfWithoutPayload, ...Expr[]]
+
 interface Rule {
   match_: Match
   nested_?: Partial<Record<Expr, Rule[]>>
   replace_?: Replace
   onlyIf_?: Check
+  fold_?: Fold // The rule only applies if this evaluates to a constant, which is stored in "R"
+  drops_?: Expr // The rule only applies if this expression can be removed without side effects
+  uncheckedOnly_?: boolean // This rule changes which memory accesses are in bounds
+  extra_?: boolean // This rule was added using "addOptimizationRules" or "optimizationRules"
 }
 
 
 const rules: Rule[] = [
+  // Constant folding (operations with constant operands are evaluated now)
+  {
+    match_: [
+      ['@',
+        Op.BOOL_TO_INT, Op.i32_eqz, Op.i64_eqz, Op.i32_clz, Op.i32_ctz, Op.i32_popcnt,
+        Op.i32_wrap_i64, Op.i32_trunc_f32_s, Op.i32_trunc_f32_u, Op.i32_trunc_f64_s, Op.i32_trunc_f64_u,
+        Op.i32_trunc_sat_f32_s, Op.i32_trunc_sat_f32_u, Op.i32_trunc_sat_f64_s, Op.i32_trunc_sat_f64_u,
+        Op.i32_reinterpret_f32, Op.i32_extend8_s, Op.i32_extend16_s,
+      ],
+      'x',
+    ],
+    fold_: ['@', 'x'],
+    replace_: [Op.i32_const, 'R'],
+  },
+  {
+    match_: [
+      ['@',
+        Op.i32_eq, Op.i32_ne, Op.i32_lt_s, Op.i32_lt_u, Op.i32_gt_s, Op.i32_gt_u, Op.i32_le_s, Op.i32_le_u, Op.i32_ge_s, Op.i32_ge_u,
+        Op.i64_eq, Op.i64_ne, Op.i64_lt_s, Op.i64_lt_u, Op.i64_gt_s, Op.i64_gt_u, Op.i64_le_s, Op.i64_le_u, Op.i64_ge_s, Op.i64_ge_u,
+        Op.f32_eq, Op.f32_ne, Op.f32_lt, Op.f32_gt, Op.f32_le, Op.f32_ge,
+        Op.f64_eq, Op.f64_ne, Op.f64_lt, Op.f64_gt, Op.f64_le, Op.f64_ge,
+        Op.i32_add, Op.i32_sub, Op.i32_mul, Op.i32_div_s, Op.i32_div_u, Op.i32_rem_s, Op.i32_rem_u,
+        Op.i32_and, Op.i32_or, Op.i32_xor, Op.i32_shl, Op.i32_shr_s, Op.i32_shr_u, Op.i32_rotl, Op.i32_rotr,
+      ],
+      'x',
+      'y',
+    ],
+    fold_: ['@', 'x', 'y'],
+    replace_: [Op.i32_const, 'R'],
+  },
+  {
+    match_: [
+      ['@',
+        Op.i64_clz, Op.i64_ctz, Op.i64_popcnt, Op.i64_extend_i32_s, Op.i64_extend_i32_u,
+        Op.i64_trunc_f32_s, Op.i64_trunc_f32_u, Op.i64_trunc_f64_s, Op.i64_trunc_f64_u,
+        Op.i64_trunc_sat_f32_s, Op.i64_trunc_sat_f32_u, Op.i64_trunc_sat_f64_s, Op.i64_trunc_sat_f64_u,
+        Op.i64_reinterpret_f64, Op.i64_extend8_s, Op.i64_extend16_s, Op.i64_extend32_s,
+      ],
+      'x',
+    ],
+    fold_: ['@', 'x'],
+    replace_: [Op.i64_const, 'R'],
+  },
+  {
+    match_: [
+      ['@',
+        Op.i64_add, Op.i64_sub, Op.i64_mul, Op.i64_div_s, Op.i64_div_u, Op.i64_rem_s, Op.i64_rem_u,
+        Op.i64_and, Op.i64_or, Op.i64_xor, Op.i64_shl, Op.i64_shr_s, Op.i64_shr_u, Op.i64_rotl, Op.i64_rotr,
+      ],
+      'x',
+      'y',
+    ],
+    fold_: ['@', 'x', 'y'],
+    replace_: [Op.i64_const, 'R'],
+  },
+  {
+    match_: [
+      ['@',
+        Op.f32_abs, Op.f32_neg, Op.f32_ceil, Op.f32_floor, Op.f32_trunc, Op.f32_nearest, Op.f32_sqrt,
+        Op.f32_convert_i64_s, Op.f32_convert_i64_u, Op.f32_reinterpret_i32,
+      ],
+      'x',
+    ],
+    fold_: ['@', 'x'],
+    replace_: [Op.f32_const, 'R'],
+  },
+  {
+    match_: [['@', Op.f32_add, Op.f32_sub, Op.f32_mul, Op.f32_div, Op.f32_min, Op.f32_max, Op.f32_copysign], 'x', 'y'],
+    fold_: ['@', 'x', 'y'],
+    replace_: [Op.f32_const, 'R'],
+  },
+  {
+    match_: [
+      ['@',
+        Op.f64_abs, Op.f64_neg, Op.f64_ceil, Op.f64_floor, Op.f64_trunc, Op.f64_nearest, Op.f64_sqrt,
+        Op.f64_convert_i64_s, Op.f64_convert_i64_u, Op.f64_reinterpret_i64,
+      ],
+      'x',
+    ],
+    fold_: ['@', 'x'],
+    replace_: [Op.f64_const, 'R'],
+  },
+  {
+    match_: [['@', Op.f64_add, Op.f64_sub, Op.f64_mul, Op.f64_div, Op.f64_min, Op.f64_max, Op.f64_copysign], 'x', 'y'],
+    fold_: ['@', 'x', 'y'],
+    replace_: [Op.f64_const, 'R'],
+  },
+
+  // Move constants to the right of commutative operations and comparisons
+  {
+    match_: [['@', Op.i32_add, Op.i32_mul, Op.i32_and, Op.i32_or, Op.i32_xor, Op.i32_eq, Op.i32_ne], [Op.i32_const, 'P'], 'x'],
+    replace_: ['@', 'x', [Op.i32_const, 'P']],
+  },
+  {
+    match_: [['@', Op.i64_add, Op.i64_mul, Op.i64_and, Op.i64_or, Op.i64_xor, Op.i64_eq, Op.i64_ne], [Op.i64_const, 'P'], 'x'],
+    replace_: ['@', 'x', [Op.i64_const, 'P']],
+  },
+  { match_: [Op.i32_lt_s, [Op.i32_const, 'P'], 'x'], replace_: [Op.i32_gt_s, 'x', [Op.i32_const, 'P']] },
+  { match_: [Op.i32_gt_s, [Op.i32_const, 'P'], 'x'], replace_: [Op.i32_lt_s, 'x', [Op.i32_const, 'P']] },
+  { match_: [Op.i32_le_s, [Op.i32_const, 'P'], 'x'], replace_: [Op.i32_ge_s, 'x', [Op.i32_const, 'P']] },
+  { match_: [Op.i32_ge_s, [Op.i32_const, 'P'], 'x'], replace_: [Op.i32_le_s, 'x', [Op.i32_const, 'P']] },
+  { match_: [Op.i32_lt_u, [Op.TO_U32, [Op.i32_const, 'P']], 'x'], replace_: [Op.i32_gt_u, 'x', [Op.TO_U32, [Op.i32_const, 'P']]] },
+  { match_: [Op.i32_gt_u, [Op.TO_U32, [Op.i32_const, 'P']], 'x'], replace_: [Op.i32_lt_u, 'x', [Op.TO_U32, [Op.i32_const, 'P']]] },
+  { match_: [Op.i32_le_u, [Op.TO_U32, [Op.i32_const, 'P']], 'x'], replace_: [Op.i32_ge_u, 'x', [Op.TO_U32, [Op.i32_const, 'P']]] },
+  { match_: [Op.i32_ge_u, [Op.TO_U32, [Op.i32_const, 'P']], 'x'], replace_: [Op.i32_le_u, 'x', [Op.TO_U32, [Op.i32_const, 'P']]] },
+  { match_: [Op.i64_lt_s, [Op.i64_const, 'P'], 'x'], replace_: [Op.i64_gt_s, 'x', [Op.i64_const, 'P']] },
+  { match_: [Op.i64_gt_s, [Op.i64_const, 'P'], 'x'], replace_: [Op.i64_lt_s, 'x', [Op.i64_const, 'P']] },
+  { match_: [Op.i64_le_s, [Op.i64_const, 'P'], 'x'], replace_: [Op.i64_ge_s, 'x', [Op.i64_const, 'P']] },
+  { match_: [Op.i64_ge_s, [Op.i64_const, 'P'], 'x'], replace_: [Op.i64_le_s, 'x', [Op.i64_const, 'P']] },
+  { match_: [Op.i64_lt_s, [Op.TO_S64, [Op.i64_const, 'P']], 'x'], replace_: [Op.i64_gt_s, 'x', [Op.TO_S64, [Op.i64_const, 'P']]] },
+  { match_: [Op.i64_gt_s, [Op.TO_S64, [Op.i64_const, 'P']], 'x'], replace_: [Op.i64_lt_s, 'x', [Op.TO_S64, [Op.i64_const, 'P']]] },
+  { match_: [Op.i64_le_s, [Op.TO_S64, [Op.i64_const, 'P']], 'x'], replace_: [Op.i64_ge_s, 'x', [Op.TO_S64, [Op.i64_const, 'P']]] },
+  { match_: [Op.i64_ge_s, [Op.TO_S64, [Op.i64_const, 'P']], 'x'], replace_: [Op.i64_le_s, 'x', [Op.TO_S64, [Op.i64_const, 'P']]] },
+  { match_: [Op.i64_lt_u, [Op.i64_const, 'P'], 'x'], replace_: [Op.i64_gt_u, 'x', [Op.i64_const, 'P']] },
+  { match_: [Op.i64_gt_u, [Op.i64_const, 'P'], 'x'], replace_: [Op.i64_lt_u, 'x', [Op.i64_const, 'P']] },
+  { match_: [Op.i64_le_u, [Op.i64_const, 'P'], 'x'], replace_: [Op.i64_ge_u, 'x', [Op.i64_const, 'P']] },
+  { match_: [Op.i64_ge_u, [Op.i64_const, 'P'], 'x'], replace_: [Op.i64_le_u, 'x', [Op.i64_const, 'P']] },
+
+  // Identity elements ("x + 0", "x * 1", "x & -1", "x << 0", etc. => "x")
+  {
+    match_: [['@', Op.i32_add, Op.i32_sub, Op.i32_or, Op.i32_xor], 'x', [Op.i32_const, 'P']],
+    replace_: 'x',
+    onlyIf_: ['P', '===', 0],
+  },
+  {
+    match_: [['@', Op.i32_mul, Op.i32_div_s], 'x', [Op.i32_const, 'P']],
+    replace_: 'x',
+    onlyIf_: ['P', '===', 1],
+  },
+  {
+    match_: [Op.i32_div_u, [Op.TO_U32, 'x'], [Op.TO_U32, [Op.i32_const, 'P']]],
+    replace_: 'x',
+    onlyIf_: ['P', '===', 1],
+  },
+  {
+    match_: [Op.i32_and, 'x', [Op.i32_const, 'P']],
+    replace_: 'x',
+    onlyIf_: ['P', '===', -1],
+  },
+  {
+    match_: [['@', Op.i32_shl, Op.i32_shr_s, Op.i32_shr_u, Op.i32_rotl, Op.i32_rotr], 'x', [Op.i32_const, 'P']],
+    replace_: 'x',
+    onlyIf_: [['P', '&', 31], '===', 0],
+  },
+  {
+    match_: [['@', Op.i64_add, Op.i64_sub, Op.i64_or, Op.i64_xor], 'x', [Op.i64_const, 'P']],
+    replace_: 'x',
+    onlyIf_: ['P', '===', 0n],
+  },
+  {
+    match_: [['@', Op.i64_mul, Op.i64_div_u], 'x', [Op.i64_const, 'P']],
+    replace_: 'x',
+    onlyIf_: ['P', '===', 1n],
+  },
+  {
+    match_: [Op.i64_and, 'x', [Op.i64_const, 'P']],
+    replace_: 'x',
+    onlyIf_: ['P', '===', 0xFFFF_FFFF_FFFF_FFFFn],
+  },
+  {
+    match_: [['@', Op.i64_shl, Op.i64_shr_s, Op.i64_shr_u, Op.i64_rotl, Op.i64_rotr], 'x', [Op.i64_const, 'P']],
+    replace_: 'x',
+    onlyIf_: [['P', '&', 63n], '===', 0n],
+  },
+
+  // Absorbing elements ("x * 0", "x & 0", "x | -1" => constant)
+  {
+    match_: [['@', Op.i32_mul, Op.i32_and], 'x', [Op.i32_const, 'P']],
+    replace_: [Op.i32_const, 'P'],
+    onlyIf_: ['P', '===', 0],
+    drops_: 'x',
+  },
+  {
+    match_: [Op.i32_or, 'x', [Op.i32_const, 'P']],
+    replace_: [Op.i32_const, 'P'],
+    onlyIf_: ['P', '===', -1],
+    drops_: 'x',
+  },
+  {
+    match_: [['@', Op.i64_mul, Op.i64_and], 'x', [Op.i64_const, 'P']],
+    replace_: [Op.i64_const, 'P'],
+    onlyIf_: ['P', '===', 0n],
+    drops_: 'x',
+  },
+  {
+    match_: [Op.i64_or, 'x', [Op.i64_const, 'P']],
+    replace_: [Op.i64_const, 'P'],
+    onlyIf_: ['P', '===', 0xFFFF_FFFF_FFFF_FFFFn],
+    drops_: 'x',
+  },
+
+  // Comparisons against zero
+  {
+    match_: [Op.i32_eq, 'x', [Op.i32_const, 'P']],
+    replace_: [Op.i32_eqz, 'x'],
+    onlyIf_: ['P', '===', 0],
+  },
+  {
+    match_: [Op.i64_eq, 'x', [Op.i64_const, 'P']],
+    replace_: [Op.i64_eqz, 'x'],
+    onlyIf_: ['P', '===', 0n],
+  },
+  {
+    match_: [Op.i32_gt_u, [Op.TO_U32, 'x'], [Op.TO_U32, [Op.i32_const, 'P']]],
+    replace_: [Op.i32_ne, 'x', [Op.i32_const, 'P']],
+    onlyIf_: ['P', '===', 0],
+  },
+  {
+    match_: [Op.i32_le_u, [Op.TO_U32, 'x'], [Op.TO_U32, [Op.i32_const, 'P']]],
+    replace_: [Op.i32_eqz, 'x'],
+    onlyIf_: ['P', '===', 0],
+  },
+  {
+    match_: [Op.i32_lt_u, [Op.TO_U32, 'x'], [Op.TO_U32, [Op.i32_const, 'P']]],
+    replace_: [Op.i32_const, 'P'],
+    onlyIf_: ['P', '===', 0],
+    drops_: 'x',
+  },
+  {
+    match_: [Op.i64_gt_u, 'x', [Op.i64_const, 'P']],
+    replace_: [Op.i64_ne, 'x', [Op.i64_const, 'P']],
+    onlyIf_: ['P', '===', 0n],
+  },
+  {
+    match_: [Op.i64_le_u, 'x', [Op.i64_const, 'P']],
+    replace_: [Op.i64_eqz, 'x'],
+    onlyIf_: ['P', '===', 0n],
+  },
+
+  // Nested comparisons ("(x ? 1 : 0) === 1" => "x ? 1 : 0")
+  {
+    match_: [Op.i32_eqz, 'x'],
+    nested_: {
+      'x': [
+        // "(x ? 1 : 0) ? 0 : 1" => "x ? 0 : 1"
+        { match_: [Op.BOOL_TO_INT, 'y'], replace_: [Op.i32_eqz, 'y'] },
+        // "(x ? 0 : 1) ? 0 : 1" => "x ? 1 : 0"
+        { match_: [Op.i32_eqz, 'y'], replace_: [Op.BOOL_TO_INT, 'y'] },
+      ],
+    },
+  },
+  {
+    match_: [Op.BOOL_TO_INT, 'x'],
+    nested_: {
+      'x': [
+        // "(x ? 1 : 0) ? 1 : 0" => "x ? 1 : 0"
+        { match_: [Op.BOOL_TO_INT, 'y'], replace_: [Op.BOOL_TO_INT, 'y'] },
+        // "(x ? 0 : 1) ? 1 : 0" => "x ? 0 : 1"
+        { match_: [['@', Op.i32_eqz, Op.i64_eqz], 'y'], replace_: ['@', 'y'] },
+        // "(x !== 0) ? 1 : 0" => "x ? 1 : 0"
+        { match_: [Op.i32_ne, 'y', [Op.i32_const, 'P']], replace_: [Op.BOOL_TO_INT, 'y'], onlyIf_: ['P', '===', 0] },
+      ],
+    },
+  },
+  {
+    match_: [Op.i32_eq, [Op.BOOL_TO_INT, 'x'], [Op.i32_const, 'P']],
+    replace_: [Op.BOOL_TO_INT, 'x'],
+    onlyIf_: ['P', '===', 1],
+  },
+  {
+    match_: [Op.i32_ne, [Op.BOOL_TO_INT, 'x'], [Op.i32_const, 'P']],
+    replace_: [Op.i32_eqz, 'x'],
+    onlyIf_: ['P', '===', 1],
+  },
+
   // load of (addr + constant) => merge constant into load's offset
   {
     match_: [
@@ -171,6 +529,7 @@ const rules: Rule[] = [
       'P',
     ],
     replace_: ['$', 'x', [Edit.i32_add, 'P', 'Q']],
+    uncheckedOnly_: true, // The 32-bit address wraps around but the offset doesn't
   },
 
   // store of (addr + constant) => merge constant into store's offset
@@ -186,6 +545,7 @@ const rules: Rule[] = [
       'P',
     ],
     replace_: ['$', 'x', 'y', [Edit.i32_add, 'P', 'Q']],
+    uncheckedOnly_: true, // The 32-bit address wraps around but the offset doesn't
   },
 
   // i64_store8 => i32_store8
@@ -209,6 +569,7 @@ const rules: Rule[] = [
             'Q',
           ],
           replace_: [Op.i32_store8, 'x', [Op.i32_load8_u, 'z', 'Q'], 'P'],
+          uncheckedOnly_: true, // This narrows the load
         },
         {
           match_: [['@', Op.i64_extend_i32_s, Op.i64_extend_i32_u], 'z'],
@@ -246,6 +607,7 @@ const rules: Rule[] = [
             'Q',
           ],
           replace_: [Op.i32_store16, 'x', [Op.i32_load16_u, 'z', 'Q'], 'P'],
+          uncheckedOnly_: true, // This narrows the load
         },
         {
           match_: [['@', Op.i64_extend_i32_s, Op.i64_extend_i32_u], 'z'],
@@ -290,6 +652,7 @@ const rules: Rule[] = [
             'Q',
           ],
           replace_: [Op.i32_store, 'x', [Op.i32_load, 'z', 'Q'], 'P'],
+          uncheckedOnly_: true, // This narrows the load
         },
         {
           match_: [['@', Op.i64_extend_i32_s, Op.i64_extend_i32_u], 'z'],
@@ -364,7 +727,10 @@ const rules: Rule[] = [
         // "if (x ? 1 : 0)" => "if (x)"
         { match_: [Op.BOOL_TO_INT, 'y'], replace_: [Op.BOOL, 'y'] },
         // "if (x ? 0 : 1)" => "if (!x)"
-        { match_: [['@', Op.i32_eqz, Op.i64_eqz], 'x'], replace_: [Op.BOOL_NOT, 'y'] },
+        { match_: [['@', Op.i32_eqz, Op.i64_eqz], 'y'], replace_: [Op.BOOL_NOT, 'y'] },
+        // "if (x !== 0)" => "if (x)"
+        { match_: [Op.i32_ne, 'y', [Op.i32_const, 'P']], replace_: [Op.BOOL, 'y'], onlyIf_: ['P', '===', 0] },
+        { match_: [Op.i64_ne, 'y', [Op.i64_const, 'P']], replace_: [Op.BOOL, 'y'], onlyIf_: ['P', '===', 0n] },
       ],
     },
   },
@@ -376,6 +742,9 @@ const rules: Rule[] = [
         { match_: [Op.BOOL_TO_INT, 'y'], replace_: [Op.BOOL_NOT, 'y'] },
         // "if (!(x ? 0 : 1)" => "if (x)"
         { match_: [['@', Op.i32_eqz, Op.i64_eqz], 'y'], replace_: [Op.BOOL, 'y'] },
+        // "if (!(x !== 0))" => "if (!x)"
+        { match_: [Op.i32_ne, 'y', [Op.i32_const, 'P']], replace_: [Op.BOOL_NOT, 'y'], onlyIf_: ['P', '===', 0] },
+        { match_: [Op.i64_ne, 'y', [Op.i64_const, 'P']], replace_: [Op.BOOL_NOT, 'y'], onlyIf_: ['P', '===', 0n] },
         // "if (!(x === 0))" => "if (x !== 0)" (note: does not apply to floating-point due to NaN)
         { match_: [Op.i32_eq, 'y', 'z'], replace_: [Op.BOOL, [Op.i32_ne, 'y', 'z']] },
         { match_: [Op.i32_ne, 'y', 'z'], replace_: [Op.BOOL, [Op.i32_eq, 'y', 'z']] },
@@ -463,6 +832,7 @@ const rules: Rule[] = [
         {
           match_: [['$', Op.i64_load32_s, Op.i64_load32_u, Op.i64_load], 'y', 'P'],
           replace_: [Op.i32_load, 'y', 'P'],
+          uncheckedOnly_: true, // This narrows the load
         },
         {
           match_: [['@', Op.i64_extend_i32_s, Op.i64_extend_i32_u], 'y'],
@@ -524,11 +894,774 @@ const rules: Rule[] = [
   },
 ]
 
+// Comparing two 64-bit integers that were extended from 32-bit integers the
+// same way gives the same result as comparing the 32-bit integers. Zero
+// extension makes signed comparisons unsigned, and sign extension keeps the
+// unsigned order. Signed comparisons have "TO_S64" operands unless 64-bit
+// integers are lowered to pairs, so both forms are matched.
+const narrowExtendedComparisons = (): Rule[] => {
+  const comparisons: [i64: OpWithoutPayload, signExtended: OpWithoutPayload, zeroExtended: OpWithoutPayload][] = [
+    [Op.i64_eq, Op.i32_eq, Op.i32_eq], [Op.i64_ne, Op.i32_ne, Op.i32_ne],
+    [Op.i64_lt_s, Op.i32_lt_s, Op.i32_lt_u], [Op.i64_lt_u, Op.i32_lt_u, Op.i32_lt_u],
+    [Op.i64_gt_s, Op.i32_gt_s, Op.i32_gt_u], [Op.i64_gt_u, Op.i32_gt_u, Op.i32_gt_u],
+    [Op.i64_le_s, Op.i32_le_s, Op.i32_le_u], [Op.i64_le_u, Op.i32_le_u, Op.i32_le_u],
+    [Op.i64_ge_s, Op.i32_ge_s, Op.i32_ge_u], [Op.i64_ge_u, Op.i32_ge_u, Op.i32_ge_u],
+  ]
+  const result: Rule[] = []
+  for (const [i64, signExtended, zeroExtended] of comparisons) {
+    for (const extend of [Op.i64_extend_i32_s, Op.i64_extend_i32_u] as const) {
+      const i32 = extend === Op.i64_extend_i32_s ? signExtended : zeroExtended
+      const replace: Replace = metaTable[i32] & MetaFlag.ToU32 ? [i32, [Op.TO_U32, 'x'], [Op.TO_U32, 'y']] : [i32, 'x', 'y']
+      result.push({ match_: [i64, [extend, 'x'], [extend, 'y']], replace_: replace })
+      if (metaTable[i64] & MetaFlag.ToS64) {
+        result.push({ match_: [i64, [Op.TO_S64, [extend, 'x']], [Op.TO_S64, [extend, 'y']]], replace_: replace })
+      }
+    }
+  }
+  return result
+}
+
+// These rules are only used for modules that were produced by a specific
+// toolchain (see "toolchainFor"), since the patterns they look for are rare
+// elsewhere. They are tried before the built-in rules.
+export type Toolchain = 'rust' | 'clang' | 'assemblyscript' | 'tinygo'
+
+const toolchainRules: Record<Toolchain, Rule[]> = {
+  // Rust's standard library implements many floating-point operations by
+  // converting to and from the bits of the number
+  rust: [
+    // "from_bits(to_bits(x))" => "x"
+    {
+      match_: [Op.i32_reinterpret_f32, [Op.f32_reinterpret_i32, 'x']],
+      replace_: 'x',
+    },
+    {
+      match_: [Op.i64_reinterpret_f64, [Op.f64_reinterpret_i64, 'x']],
+      replace_: 'x',
+    },
+    {
+      match_: [Op.f64_reinterpret_i64, [Op.i64_reinterpret_f64, 'x']],
+      replace_: 'x',
+    },
+
+    // "from_bits(to_bits(x) & 0x7FFF...)" => "abs(x)"
+    {
+      match_: [Op.f32_reinterpret_i32, [Op.i32_and, [Op.i32_reinterpret_f32, 'x'], [Op.i32_const, 'P']]],
+      replace_: [Op.f32_abs, 'x'],
+      onlyIf_: ['P', '===', 0x7FFF_FFFF],
+    },
+    {
+      match_: [Op.f64_reinterpret_i64, [Op.i64_and, [Op.i64_reinterpret_f64, 'x'], [Op.i64_const, 'P']]],
+      replace_: [Op.f64_abs, 'x'],
+      onlyIf_: ['P', '===', 0x7FFF_FFFF_FFFF_FFFFn],
+    },
+
+    // "from_bits(to_bits(x) ^ 0x8000...)" => "-x"
+    {
+      match_: [Op.f32_reinterpret_i32, [Op.i32_xor, [Op.i32_reinterpret_f32, 'x'], [Op.i32_const, 'P']]],
+      replace_: [Op.f32_neg, 'x'],
+      onlyIf_: ['P', '===', -0x8000_0000],
+    },
+    {
+      match_: [Op.f64_reinterpret_i64, [Op.i64_xor, [Op.i64_reinterpret_f64, 'x'], [Op.i64_const, 'P']]],
+      replace_: [Op.f64_neg, 'x'],
+      onlyIf_: ['P', '===', 0x8000_0000_0000_0000n],
+    },
+  ],
+
+  // Code generated by clang (including Emscripten) keeps the stack pointer in
+  // a global and computes addresses relative to it using chains of constant
+  // additions and subtractions, which can be combined into a single constant
+  clang: [
+    // "(x + P) + Q" => "x + (P + Q)"
+    {
+      match_: [Op.i32_add, [Op.i32_add, 'x', [Op.i32_const, 'P']], [Op.i32_const, 'Q']],
+      replace_: [Op.i32_add, 'x', [Op.i32_const, [Edit.i32_add, 'P', 'Q']]],
+    },
+    // "(x - P) + Q" => "x + (Q - P)"
+    {
+      match_: [Op.i32_add, [Op.i32_sub, 'x', [Op.i32_const, 'P']], [Op.i32_const, 'Q']],
+      replace_: [Op.i32_add, 'x', [Op.i32_const, [Edit.i32_sub, 'Q', 'P']]],
+    },
+    // "(x + P) - Q" => "x + (P - Q)"
+    {
+      match_: [Op.i32_sub, [Op.i32_add, 'x', [Op.i32_const, 'P']], [Op.i32_const, 'Q']],
+      replace_: [Op.i32_add, 'x', [Op.i32_const, [Edit.i32_sub, 'P', 'Q']]],
+    },
+    // "(x - P) - Q" => "x - (P + Q)"
+    {
+      match_: [Op.i32_sub, [Op.i32_sub, 'x', [Op.i32_const, 'P']], [Op.i32_const, 'Q']],
+      replace_: [Op.i32_sub, 'x', [Op.i32_const, [Edit.i32_add, 'P', 'Q']]],
+    },
+  ],
+
+  // AssemblyScript wraps small integer types ("bool", "u8", "i16", etc.)
+  // after every operation that could overflow them, including operations
+  // that already produce a value in range
+  assemblyscript: [
+    // "load8_u(x) & 0xFF" => "load8_u(x)"
+    {
+      match_: [Op.i32_and, [Op.i32_load8_u, 'x', 'P'], [Op.i32_const, 'Q']],
+      replace_: [Op.i32_load8_u, 'x', 'P'],
+      onlyIf_: [['Q', '&', 0xFF], '===', 0xFF],
+    },
+    // "load16_u(x) & 0xFFFF" => "load16_u(x)"
+    {
+      match_: [Op.i32_and, [Op.i32_load16_u, 'x', 'P'], [Op.i32_const, 'Q']],
+      replace_: [Op.i32_load16_u, 'x', 'P'],
+      onlyIf_: [['Q', '&', 0xFFFF], '===', 0xFFFF],
+    },
+    // "(x ? 1 : 0) & 1" => "x ? 1 : 0"
+    {
+      match_: [Op.i32_and, [['@', Op.BOOL_TO_INT, Op.i32_eqz, Op.i64_eqz], 'x'], [Op.i32_const, 'P']],
+      replace_: ['@', 'x'],
+      onlyIf_: [['P', '&', 1], '===', 1],
+    },
+    // "(x << 24) >> 24" => "extend8_s(x)"
+    {
+      match_: [Op.i32_shr_s, [Op.i32_shl, 'x', [Op.i32_const, 'P']], [Op.i32_const, 'Q']],
+      replace_: [Op.i32_extend8_s, 'x'],
+      onlyIf_: [[['P', '&', 31], '===', 24], '&', [['Q', '&', 31], '===', 24]],
+    },
+    // "(x << 16) >> 16" => "extend16_s(x)"
+    {
+      match_: [Op.i32_shr_s, [Op.i32_shl, 'x', [Op.i32_const, 'P']], [Op.i32_const, 'Q']],
+      replace_: [Op.i32_extend16_s, 'x'],
+      onlyIf_: [[['P', '&', 31], '===', 16], '&', [['Q', '&', 31], '===', 16]],
+    },
+  ],
+
+  // TinyGo does a lot of 64-bit math on values that were extended from 32-bit
+  // integers, and inlining often leaves "select" with a constant condition
+  tinygo: [
+    ...narrowExtendedComparisons(),
+    {
+      match_: [Op.select, [Op.BOOL, [Op.i32_const, 'P']], 'x', 'y'],
+      replace_: 'x',
+      onlyIf_: ['P', '!==', 0],
+      drops_: 'y',
+    },
+    {
+      match_: [Op.select, [Op.BOOL, [Op.i32_const, 'P']], 'x', 'y'],
+      replace_: 'y',
+      onlyIf_: ['P', '===', 0],
+      drops_: 'x',
+    },
+  ],
+}
+
+// The "producers" section lists the languages, tools, and SDKs that produced
+// a module. A module can list more than one toolchain because toolchains that
+// are built on LLVM link in code compiled with clang, so the first one in
+// this list wins.
+const producerToolchains: [name: string, toolchain: Toolchain][] = [
+  ['tinygo', 'tinygo'],
+  ['assemblyscript', 'assemblyscript'],
+  ['rust', 'rust'],
+  ['rustc', 'rust'],
+  ['emscripten', 'clang'],
+  ['clang', 'clang'],
+]
+
+// This returns the toolchain whose rules to use, which is either forced with
+// the "toolchain" option or detected from the "producers" section
+const toolchainFor = (wasm: WASM, options: InstanceOptions): Toolchain | 'none' => {
+  const toolchain = options.toolchain
+  if (toolchain !== undefined) {
+    if (toolchain !== 'none' && !Object.prototype.hasOwnProperty.call(toolchainRules, toolchain)) {
+      throw new TypeError(`Unsupported toolchain: ${toolchain}`)
+    }
+    return toolchain
+  }
+  let best = producerToolchains.length
+  for (const [, name] of wasm.producersSection_) {
+    const lower = name.toLowerCase()
+    for (let i = 0; i < best; i++) {
+      if (producerToolchains[i][0] === lower) best = i
+    }
+  }
+  return best < producerToolchains.length ? producerToolchains[best][1] : 'none'
+}
+
+// Extra rules can be registered using the opcode names from "Op" instead of
+// numbers. They use the same placeholders as the built-in rules: "x", "y", and
+// "z" for child expressions, "P" and "Q" for payloads, and "@" and "$" for
+// one of a set of opcodes (without and with a payload respectively). Rules
+// match the AST that the compiler generates, where unsigned and signed
+// operands are wrapped in "TO_U32" and "TO_S64" nodes and comparisons (other
+// than "i32_eqz" and "i64_eqz") produce booleans that are wrapped in
+// "BOOL_TO_INT" nodes.
+export type RuleOp = keyof typeof Op
+export type RuleExpr = Expr
+export type RulePayload = 'P' | 'Q'
+export type RuleMatch = [RuleOp | ['@' | '$', ...RuleOp[]], ...(RuleMatch | RuleExpr | RulePayload)[]]
+export type RuleReplace = RuleExpr | [RuleOp | '@' | '$', ...(RuleReplace | RulePayload)[]]
+export type RuleCheck = RulePayload | bigint | number | [RuleCheck, '===' | '!==' | '<' | '>' | '<=' | '>=' | '&' | '|' | '^', RuleCheck]
+
+export interface OptimizationRule {
+  match: RuleMatch
+  nested?: Partial<Record<RuleExpr, OptimizationRule[]>>
+  replace?: RuleReplace
+  onlyIf?: RuleCheck
+}
+
+const checkOperators = ['===', '!==', '<', '>', '<=', '>=', '&', '|', '^']
+
+// This returns the number of children of a node that rules can use and whether
+// it ends with a payload, or null if rules can't use it (e.g. "call")
+const ruleOpShape = (op: Op): [childCount: number, hasPayload: boolean] | null => {
+  if (op >= Op.i32_trunc_sat_f32_s && op <= Op.i64_trunc_sat_f64_u || op >= Op.BOOL && op <= Op.TO_S64) return [1, false]
+  if (op === Op.U32_LOAD || op === Op.S64_LOAD) return [1, true]
+  if (op >= Op.i32_load && op <= Op.i64_store32 || op >= Op.i32_const && op <= Op.f64_const) return [metaTable[op] & MetaFlag.PopMask, true]
+  if (op >= Op.i32_eqz && op <= Op.i64_extend32_s && !(metaTable[op] & MetaFlag.Omit)) return [metaTable[op] & MetaFlag.PopMask, false]
+  return null
+}
+
+// Malformed rules would generate code that corrupts the AST, so extra rules
+// are checked and converted to the internal format when they are registered.
+// Every placeholder must be bound exactly once by a match (nested matches can
+// use the placeholders of the rules that contain them, but can't rebind them).
+const convertRules = (extraRules: OptimizationRule[], path: string, bound: Set<string>, oneOfShapes: Map<string, [number, boolean]>): Rule[] => {
+  const fail = (path: string, message: string): never => {
+    throw new TypeError(`Invalid optimization rule at "${path}": ${message}`)
+  }
+
+  const convertOp = (name: unknown, path: string): [Op, number, boolean] => {
+    const op = typeof name === 'string' && Object.prototype.hasOwnProperty.call(Op, name) ? Op[name as RuleOp] : undefined
+    if (typeof op !== 'number') fail(path, `Unknown opcode ${JSON.stringify(name)}`)
+    const shape = ruleOpShape(op!)
+    if (!shape) fail(path, `The opcode "${name}" can't be used in rules`)
+    return [op!, ...shape!]
+  }
+
+  const checkOperandCount = (operandCount: number, childCount: number, hasPayload: boolean, path: string): void => {
+    if (operandCount !== childCount + +hasPayload) {
+      fail(path, `Expected ${childCount} ${childCount === 1 ? 'child' : 'children'}${hasPayload ? ' and a payload' : ''}`)
+    }
+  }
+
+  const checkOperand = (operand: unknown, isPayload: boolean, path: string): void => {
+    if (isPayload ? operand !== 'P' && operand !== 'Q' : operand !== 'x' && operand !== 'y' && operand !== 'z') {
+      fail(path, `Expected ${isPayload ? '"P" or "Q"' : '"x", "y", or "z"'} but got ${JSON.stringify(operand)}`)
+    }
+  }
+
+  const checkBound = (name: string, path: string): void => {
+    if (!bound.has(name)) fail(path, `"${name}" isn't bound by a match`)
+  }
+
+  const bind = (name: string, path: string): void => {
+    if (bound.has(name)) fail(path, `"${name}" is already bound`)
+    bound.add(name)
+  }
+
+  const convertMatch = (match: unknown, path: string): Match => {
+    if (!Array.isArray(match) || !match.length) return fail(path, 'Expected a non-empty array')
+    const [pattern, ...operands] = match
+    let result: [Op | [OneOfWithoutPayload | OneOfWithPayload, ...Op[]], ...(Match | Expr | Payload)[]]
+    let childCount: number
+    let hasPayload: boolean
+    if (Array.isArray(pattern)) {
+      const [name, ...names] = pattern
+      if (name !== '@' && name !== '$') fail(path + '[0][0]', `Expected "@" or "$" but got ${JSON.stringify(name)}`)
+      if (!names.length) fail(path + '[0]', 'Expected at least one opcode')
+      const ops: Op[] = []
+      childCount = -1
+      hasPayload = name === '$'
+      for (let i = 0; i < names.length; i++) {
+        const [op, opChildCount, opHasPayload] = convertOp(names[i], `${path}[0][${i + 1}]`)
+        if (opHasPayload !== hasPayload) fail(`${path}[0][${i + 1}]`, `The opcode "${names[i]}" ${hasPayload ? "doesn't have" : 'has'} a payload, so it can't be used with "${name}"`)
+        if (childCount >= 0 && opChildCount !== childCount) fail(`${path}[0][${i + 1}]`, 'Every opcode must have the same number of children')
+        childCount = opChildCount
+        ops.push(op)
+      }
+      bind(name, path + '[0][0]')
+      oneOfShapes.set(name, [childCount, hasPayload])
+      result = [[name, ...ops]]
+    } else {
+      const [op, opChildCount, opHasPayload] = convertOp(pattern, path + '[0]')
+      childCount = opChildCount
+      hasPayload = opHasPayload
+      result = [op]
+    }
+    checkOperandCount(operands.length, childCount, hasPayload, path)
+    for (let i = 0; i < operands.length; i++) {
+      const operand = operands[i]
+      const operandPath = `${path}[${i + 1}]`
+      if (i < childCount && Array.isArray(operand)) {
+        result.push(convertMatch(operand, operandPath))
+      } else {
+        checkOperand(operand, i === childCount, operandPath)
+        bind(operand, operandPath)
+        result.push(operand)
+      }
+    }
+    return result as Match
+  }
+
+  const convertReplace = (replace: unknown, path: string): Replace => {
+    if (!Array.isArray(replace)) {
+      checkOperand(replace, false, path)
+      checkBound(replace as Expr, path)
+      return replace as Expr
+    }
+    if (!replace.length) fail(path, 'Expected a non-empty array')
+    const [pattern, ...operands] = replace
+    let result: [Op | OneOfWithoutPayload | OneOfWithPayload, ...(Replace | ReplacePayload)[]]
+    let childCount: number
+    let hasPayload: boolean
+    if (pattern === '@' || pattern === '$') {
+      checkBound(pattern, path + '[0]')
+      ;[childCount, hasPayload] = oneOfShapes.get(pattern)!
+      result = [pattern]
+    } else {
+      const [op, opChildCount, opHasPayload] = convertOp(pattern, path + '[0]')
+      childCount = opChildCount
+      hasPayload = opHasPayload
+      result = [op]
+    }
+    checkOperandCount(operands.length, childCount, hasPayload, path)
+    for (let i = 0; i < operands.length; i++) {
+      const operand = operands[i]
+      const operandPath = `${path}[${i + 1}]`
+      if (i < childCount) {
+        result.push(convertReplace(operand, operandPath))
+      } else {
+        checkOperand(operand, true, operandPath)
+        checkBound(operand, operandPath)
+        result.push(operand)
+      }
+    }
+    return result as Replace
+  }
+
+  // Checks either compare numbers or BigInts (see "Check"), so mixing them is
+  // always a mistake
+  const convertCheck = (check: unknown, path: string, kinds: Set<string>): Check => {
+    if (typeof check === 'bigint' || typeof check === 'number') {
+      kinds.add(typeof check)
+      if (kinds.size > 1) fail(path, "Numbers and BigInts can't be mixed")
+      return check
+    }
+    if (Array.isArray(check)) {
+      if (check.length !== 3 || !checkOperators.includes(check[1])) {
+        fail(path, `Expected [left, operator, right] where the operator is one of ${checkOperators.map(x => `"${x}"`).join(', ')}`)
+      }
+      return [convertCheck(check[0], path + '[0]', kinds), check[1], convertCheck(check[2], path + '[2]', kinds)]
+    }
+    checkOperand(check, true, path)
+    checkBound(check as Payload, path)
+    return check as Payload
+  }
+
+  if (!Array.isArray(extraRules)) fail(path, 'Expected an array')
+  const result: Rule[] = []
+  for (let i = 0; i < extraRules.length; i++) {
+    const rule = extraRules[i]
+    const rulePath = `${path}[${i}]`
+    if (!rule || typeof rule !== 'object') fail(rulePath, 'Expected an object')
+    for (const key in rule) {
+      if (key !== 'match' && key !== 'nested' && key !== 'replace' && key !== 'onlyIf') fail(rulePath, `Unknown property "${key}"`)
+    }
+    if (rule.nested === undefined && rule.replace === undefined) fail(rulePath, 'Expected "nested" or "replace"')
+
+    // Placeholders bound by this rule are only visible to this rule
+    const parentBound = bound
+    const parentOneOfShapes = oneOfShapes
+    bound = new Set(bound)
+    oneOfShapes = new Map(oneOfShapes)
+    const converted: Rule = { match_: convertMatch(rule.match, rulePath + '.match'), extra_: true }
+    if (rule.onlyIf !== undefined) converted.onlyIf_ = convertCheck(rule.onlyIf, rulePath + '.onlyIf', new Set)
+    if (rule.nested !== undefined) {
+      if (!rule.nested || typeof rule.nested !== 'object') fail(rulePath + '.nested', 'Expected an object')
+      const nested: Partial<Record<Expr, Rule[]>> = converted.nested_ = {}
+      for (const operand in rule.nested) {
+        const nestedPath = `${rulePath}.nested.${operand}`
+        checkOperand(operand, false, nestedPath)
+        checkBound(operand, nestedPath)
+        nested[operand as Expr] = convertRules(rule.nested[operand as Expr]!, nestedPath, bound, oneOfShapes)
+      }
+    }
+    if (rule.replace !== undefined) converted.replace_ = convertReplace(rule.replace, rulePath + '.replace')
+    bound = parentBound
+    oneOfShapes = parentOneOfShapes
+    result.push(converted)
+  }
+  return result
+}
+
+type Optimizer = ReturnType<typeof compileOptimizations>
+
+const maxRewritesPerNode = 1000
+
+// Extra rules are tried before the built-in rules, with the rules for an
+// instance before the global ones and the toolchain rules last. Each
+// combination of rules is compiled into its own optimizer, which is only
+// created once it's needed (precompiled modules never need it).
+interface RuleSet {
+  id_: number
+  rules_: Rule[]
+  hasExtraRules_: boolean
+  fingerprint_: string | undefined
+  optimizers_: (Optimizer | undefined)[] // Indexed by "boundsChecks"
+}
+
+interface ExtraRules {
+  rules_: Rule[]
+  ruleSets_: Partial<Record<Toolchain | 'none', RuleSet>>
+}
+
+let nextRuleSetID = 0
+let globalRules: ExtraRules = { rules_: [], ruleSets_: {} }
+let instanceRules = new WeakMap<OptimizationRule[], ExtraRules>()
+
+const ruleSetFor = (wasm: WASM, options: InstanceOptions): RuleSet => {
+  const toolchain = toolchainFor(wasm, options)
+  const optimizationRules = options.optimizationRules
+  let extraRules = globalRules
+  if (optimizationRules) {
+    let converted = instanceRules.get(optimizationRules)
+    if (!converted) {
+      converted = { rules_: convertRules(optimizationRules, 'optimizationRules', new Set, new Map).concat(globalRules.rules_), ruleSets_: {} }
+      instanceRules.set(optimizationRules, converted)
+    }
+    extraRules = converted
+  }
+  return extraRules.ruleSets_[toolchain] ||= {
+    id_: nextRuleSetID++,
+    rules_: extraRules.rules_.concat(toolchain === 'none' ? [] : toolchainRules[toolchain], rules),
+    hasExtraRules_: extraRules.rules_.length > 0,
+    fingerprint_: undefined,
+    optimizers_: [],
+  }
+}
+
+// Rules added here apply to every function compiled afterward. Functions
+// that were already compiled keep using the code generated without them.
+export const addOptimizationRules = (extraRules: OptimizationRule[]): void => {
+  globalRules = { rules_: globalRules.rules_.concat(convertRules(extraRules, 'rules', new Set, new Map)), ruleSets_: {} }
+  instanceRules = new WeakMap
+}
+
+export const optimizerFor = (wasm: WASM, options: InstanceOptions): Optimizer => {
+  const ruleSet = ruleSetFor(wasm, options)
+  const boundsChecks = !!options.boundsChecks
+  return ruleSet.optimizers_[+boundsChecks] ||= compileOptimizations(ruleSet.rules_, boundsChecks, ruleSet.hasExtraRules_)
+}
+
+// This also checks the rules and the toolchain, so it's used to report
+// invalid options up front. Code generated with different rules must be
+// stored separately.
+export const ruleSetID = (wasm: WASM, options: InstanceOptions): number => ruleSetFor(wasm, options).id_
+
+// The rules are plain data, so this string changes whenever a rule changes.
+// It's used to invalidate cached code that was generated with other rules.
+export const rulesFingerprint = (wasm: WASM, options: InstanceOptions): string => {
+  const ruleSet = ruleSetFor(wasm, options)
+  return ruleSet.fingerprint_ ||= JSON.stringify(ruleSet.rules_, (_, value) => typeof value === 'bigint' ? value + 'n' : value)
+}
+
+const f32Array = new Float32Array(1)
+const u32Array = new Uint32Array(f32Array.buffer)
+const f64Array = new Float64Array(1)
+const u64Array = new BigUint64Array(f64Array.buffer)
+
+// Floating-point constants are stored as their bits in the constants array,
+// which keeps NaN payloads and the sign of zero intact
+export const f32FromBits = (bits: bigint): number => {
+  u32Array[0] = Number(bits)
+  return f32Array[0]
+}
+export const f64FromBits = (bits: bigint): number => {
+  u64Array[0] = bits
+  return f64Array[0]
+}
+const f32ToBits = (x: number): number => {
+  f32Array[0] = x
+  return u32Array[0]
+}
+const f64ToBits = (x: number): bigint => {
+  f64Array[0] = x
+  return u64Array[0]
+}
+
+const ctz32 = (x: number): number => x ? 31 - Math.clz32(x & -x) : 32
+const popcnt32 = (x: number): number => {
+  let count = 0
+  for (; x; count++) x &= x - 1
+  return count
+}
+
+// Rounding to a 64-bit float first and then to a 32-bit float can round twice,
+// so large integers are rounded to 24 significant bits directly instead
+const bigIntToF32 = (x: bigint): number => {
+  const abs = x < 0n ? -x : x
+  if (abs < 1n << 53n) return Math.fround(Number(x))
+  const shift = BigInt(abs.toString(2).length - 24)
+  const half = 1n << (shift - 1n)
+  const rest = abs & ((half << 1n) - 1n)
+  let bits = abs >> shift
+  if (rest > half || (rest === half && (bits & 1n))) bits++
+  const value = Number(bits << shift)
+  return Math.fround(x < 0n ? -value : value)
+}
+
+// Round to nearest number, preferring multiples of 2
+const nearest = (x: number): number => Math.abs(x - Math.trunc(x)) === 0.5 ? 2 * Math.round(x / 2) : Math.round(x)
+
+// This returns the value of a constant node, looking through sign conversions.
+// 32-bit integers are numbers (unsigned if wrapped in "TO_U32"), 64-bit
+// integers are BigInts, and floating-point numbers are numbers.
+const constantValue = (ast: Int32Array, constants: bigint[], ptr: number): number | bigint | undefined => {
+  if (ptr < 0) return
+  let op = ast[ptr] & Pack.OpMask
+  const toU32 = op === Op.TO_U32
+  if (toU32 || op === Op.TO_S64) {
+    ptr = ast[ptr + 1]
+    if (ptr < 0) return
+    op = ast[ptr] & Pack.OpMask
+  }
+  switch (op) {
+    case Op.i32_const: return toU32 ? ast[ptr + 1] >>> 0 : ast[ptr + 1]
+    case Op.i64_const: return constants[ast[ptr + 1]] & 0xFFFF_FFFF_FFFF_FFFFn
+    case Op.f32_const: return f32FromBits(constants[ast[ptr + 1]])
+    case Op.f64_const: return f64FromBits(constants[ast[ptr + 1]])
+  }
+}
+
+// Some conversions aren't present in the AST (e.g. "f64_promote_f32") because
+// they don't need any code, so operands are converted to the expected type here
+const f32Bits = (ast: Int32Array, constants: bigint[], ptr: number, value: number | bigint): number => {
+  return (ast[ptr] & Pack.OpMask) === Op.f32_const ? Number(constants[ast[ptr + 1]]) : f32ToBits(value as number)
+}
+const f64Bits = (ast: Int32Array, constants: bigint[], ptr: number, value: number | bigint): bigint => {
+  return (ast[ptr] & Pack.OpMask) === Op.f64_const ? constants[ast[ptr + 1]] : f64ToBits(value as number)
+}
+
+// This evaluates an opcode with constant operands using WebAssembly semantics.
+// It returns the payload of the resulting constant node (the value itself for
+// "i32_const" and an index into the constants array otherwise), or undefined
+// if an operand isn't a constant or if evaluating the opcode would trap.
+const foldConstant = (ast: Int32Array, constants: bigint[], op: Op, ptrA: number, ptrB?: number): number | undefined => {
+  const a = constantValue(ast, constants, ptrA)
+  const b = ptrB === undefined ? 0 : constantValue(ast, constants, ptrB)
+  if (a === undefined || b === undefined) return
+
+  const f64A = typeof a === 'number' ? a : 0, f64B = typeof b === 'number' ? b : 0
+  const f32A = Math.fround(f64A), f32B = Math.fround(f64B)
+  const i32A = f64A | 0, i32B = f64B | 0
+  const u32A = f64A >>> 0, u32B = f64B >>> 0
+  const i64 = (x: bigint): number => constants.push(BigInt.asUintN(64, x)) - 1
+  const f32 = (x: number): number => constants.push(BigInt(f32ToBits(x))) - 1
+  const f64 = (x: number): number => constants.push(f64ToBits(x)) - 1
+
+  switch (op) {
+    case Op.BOOL_TO_INT: return a ? 1 : 0
+    case Op.i32_eqz: case Op.i64_eqz: return a ? 0 : 1
+
+    case Op.i32_eq: return +(i32A === i32B)
+    case Op.i32_ne: return +(i32A !== i32B)
+    case Op.i32_lt_s: return +(i32A < i32B)
+    case Op.i32_lt_u: return +(u32A < u32B)
+    case Op.i32_gt_s: return +(i32A > i32B)
+    case Op.i32_gt_u: return +(u32A > u32B)
+    case Op.i32_le_s: return +(i32A <= i32B)
+    case Op.i32_le_u: return +(u32A <= u32B)
+    case Op.i32_ge_s: return +(i32A >= i32B)
+    case Op.i32_ge_u: return +(u32A >= u32B)
+
+    case Op.i64_eq: return +(a === b)
+    case Op.i64_ne: return +(a !== b)
+    case Op.i64_lt_s: return +(BigInt.asIntN(64, a as bigint) < BigInt.asIntN(64, b as bigint))
+    case Op.i64_lt_u: return +(a < b)
+    case Op.i64_gt_s: return +(BigInt.asIntN(64, a as bigint) > BigInt.asIntN(64, b as bigint))
+    case Op.i64_gt_u: return +(a > b)
+    case Op.i64_le_s: return +(BigInt.asIntN(64, a as bigint) <= BigInt.asIntN(64, b as bigint))
+    case Op.i64_le_u: return +(a <= b)
+    case Op.i64_ge_s: return +(BigInt.asIntN(64, a as bigint) >= BigInt.asIntN(64, b as bigint))
+    case Op.i64_ge_u: return +(a >= b)
+
+    case Op.f32_eq: return +(f32A === f32B)
+    case Op.f32_ne: return +(f32A !== f32B)
+    case Op.f32_lt: return +(f32A < f32B)
+    case Op.f32_gt: return +(f32A > f32B)
+    case Op.f32_le: return +(f32A <= f32B)
+    case Op.f32_ge: return +(f32A >= f32B)
+
+    case Op.f64_eq: return +(f64A === f64B)
+    case Op.f64_ne: return +(f64A !== f64B)
+    case Op.f64_lt: return +(f64A < f64B)
+    case Op.f64_gt: return +(f64A > f64B)
+    case Op.f64_le: return +(f64A <= f64B)
+    case Op.f64_ge: return +(f64A >= f64B)
+
+    case Op.i32_clz: return Math.clz32(i32A)
+    case Op.i32_ctz: return ctz32(i32A)
+    case Op.i32_popcnt: return popcnt32(i32A)
+    case Op.i32_add: return i32A + i32B | 0
+    case Op.i32_sub: return i32A - i32B | 0
+    case Op.i32_mul: return Math.imul(i32A, i32B)
+    case Op.i32_div_s: return i32B === 0 || (i32A === -0x8000_0000 && i32B === -1) ? undefined : i32A / i32B | 0
+    case Op.i32_div_u: return u32B === 0 ? undefined : u32A / u32B | 0
+    case Op.i32_rem_s: return i32B === 0 ? undefined : i32A % i32B | 0
+    case Op.i32_rem_u: return u32B === 0 ? undefined : u32A % u32B | 0
+    case Op.i32_and: return i32A & i32B
+    case Op.i32_or: return i32A | i32B
+    case Op.i32_xor: return i32A ^ i32B
+    case Op.i32_shl: return i32A << i32B
+    case Op.i32_shr_s: return i32A >> i32B
+    case Op.i32_shr_u: return i32A >>> i32B | 0
+    case Op.i32_rotl: return i32A << i32B | i32A >>> (32 - i32B)
+    case Op.i32_rotr: return i32A >>> i32B | i32A << (32 - i32B)
+
+    case Op.i64_clz: {
+      const high = Number((a as bigint) >> 32n)
+      return i64(BigInt(high ? Math.clz32(high) : 32 + Math.clz32(Number((a as bigint) & 0xFFFF_FFFFn))))
+    }
+    case Op.i64_ctz: {
+      const low = Number((a as bigint) & 0xFFFF_FFFFn)
+      return i64(BigInt(low ? ctz32(low) : 32 + ctz32(Number((a as bigint) >> 32n))))
+    }
+    case Op.i64_popcnt: return i64(BigInt(popcnt32(Number((a as bigint) & 0xFFFF_FFFFn)) + popcnt32(Number((a as bigint) >> 32n))))
+    case Op.i64_add: return i64((a as bigint) + (b as bigint))
+    case Op.i64_sub: return i64((a as bigint) - (b as bigint))
+    case Op.i64_mul: return i64((a as bigint) * (b as bigint))
+    case Op.i64_div_s: {
+      const x = BigInt.asIntN(64, a as bigint), y = BigInt.asIntN(64, b as bigint)
+      return y === 0n || (x === -0x8000_0000_0000_0000n && y === -1n) ? undefined : i64(x / y)
+    }
+    case Op.i64_div_u: return b === 0n ? undefined : i64((a as bigint) / (b as bigint))
+    case Op.i64_rem_s: return b === 0n ? undefined : i64(BigInt.asIntN(64, a as bigint) % BigInt.asIntN(64, b as bigint))
+    case Op.i64_rem_u: return b === 0n ? undefined : i64((a as bigint) % (b as bigint))
+    case Op.i64_and: return i64((a as bigint) & (b as bigint))
+    case Op.i64_or: return i64((a as bigint) | (b as bigint))
+    case Op.i64_xor: return i64((a as bigint) ^ (b as bigint))
+    case Op.i64_shl: return i64((a as bigint) << ((b as bigint) & 63n))
+    case Op.i64_shr_s: return i64(BigInt.asIntN(64, a as bigint) >> ((b as bigint) & 63n))
+    case Op.i64_shr_u: return i64((a as bigint) >> ((b as bigint) & 63n))
+    case Op.i64_rotl: {
+      const shift = (b as bigint) & 63n
+      return i64((a as bigint) << shift | (a as bigint) >> (64n - shift))
+    }
+    case Op.i64_rotr: {
+      const shift = (b as bigint) & 63n
+      return i64((a as bigint) >> shift | (a as bigint) << (64n - shift))
+    }
+
+    case Op.f32_abs: return constants.push(BigInt(f32Bits(ast, constants, ptrA, a) & 0x7FFF_FFFF)) - 1
+    case Op.f32_neg: return constants.push(BigInt((f32Bits(ast, constants, ptrA, a) ^ 0x8000_0000) >>> 0)) - 1
+    case Op.f32_copysign: {
+      const bits = f32Bits(ast, constants, ptrA, a) & 0x7FFF_FFFF | f32Bits(ast, constants, ptrB!, b) & 0x8000_0000
+      return constants.push(BigInt(bits >>> 0)) - 1
+    }
+    case Op.f32_ceil: return f32(Math.ceil(f32A))
+    case Op.f32_floor: return f32(Math.floor(f32A))
+    case Op.f32_trunc: return f32(Math.trunc(f32A))
+    case Op.f32_nearest: return f32(nearest(f32A))
+    case Op.f32_sqrt: return f32(Math.sqrt(f32A))
+    case Op.f32_add: return f32(f32A + f32B)
+    case Op.f32_sub: return f32(f32A - f32B)
+    case Op.f32_mul: return f32(f32A * f32B)
+    case Op.f32_div: return f32(f32A / f32B)
+    case Op.f32_min: return f32(Math.min(f32A, f32B))
+    case Op.f32_max: return f32(Math.max(f32A, f32B))
+
+    case Op.f64_abs: return constants.push(f64Bits(ast, constants, ptrA, a) & 0x7FFF_FFFF_FFFF_FFFFn) - 1
+    case Op.f64_neg: return constants.push(f64Bits(ast, constants, ptrA, a) ^ 0x8000_0000_0000_0000n) - 1
+    case Op.f64_copysign: {
+      const bits = f64Bits(ast, constants, ptrA, a) & 0x7FFF_FFFF_FFFF_FFFFn | f64Bits(ast, constants, ptrB!, b) & 0x8000_0000_0000_0000n
+      return constants.push(bits) - 1
+    }
+    case Op.f64_ceil: return f64(Math.ceil(f64A))
+    case Op.f64_floor: return f64(Math.floor(f64A))
+    case Op.f64_trunc: return f64(Math.trunc(f64A))
+    case Op.f64_nearest: return f64(nearest(f64A))
+    case Op.f64_sqrt: return f64(Math.sqrt(f64A))
+    case Op.f64_add: return f64(f64A + f64B)
+    case Op.f64_sub: return f64(f64A - f64B)
+    case Op.f64_mul: return f64(f64A * f64B)
+    case Op.f64_div: return f64(f64A / f64B)
+    case Op.f64_min: return f64(Math.min(f64A, f64B))
+    case Op.f64_max: return f64(Math.max(f64A, f64B))
+
+    case Op.i32_wrap_i64: return Number(BigInt.asIntN(32, a as bigint))
+    case Op.i32_trunc_f32_s: case Op.i32_trunc_f64_s: {
+      const x = Math.trunc(op === Op.i32_trunc_f32_s ? f32A : f64A)
+      return x >= -0x8000_0000 && x <= 0x7FFF_FFFF ? x | 0 : undefined
+    }
+    case Op.i32_trunc_f32_u: case Op.i32_trunc_f64_u: {
+      const x = Math.trunc(op === Op.i32_trunc_f32_u ? f32A : f64A)
+      return x >= 0 && x <= 0xFFFF_FFFF ? x | 0 : undefined
+    }
+    case Op.i32_trunc_sat_f32_s: case Op.i32_trunc_sat_f64_s: {
+      const x = Math.trunc(op === Op.i32_trunc_sat_f32_s ? f32A : f64A)
+      return x >= 0x7FFF_FFFF ? 0x7FFF_FFFF : x <= -0x8000_0000 ? -0x8000_0000 : x | 0
+    }
+    case Op.i32_trunc_sat_f32_u: case Op.i32_trunc_sat_f64_u: {
+      const x = Math.trunc(op === Op.i32_trunc_sat_f32_u ? f32A : f64A)
+      return x >= 0xFFFF_FFFF ? -1 : x > 0 ? x | 0 : 0
+    }
+    case Op.i64_extend_i32_s: return i64(BigInt(i32A))
+    case Op.i64_extend_i32_u: return i64(BigInt(u32A))
+    case Op.i64_trunc_f32_s: case Op.i64_trunc_f64_s: {
+      const x = Math.trunc(op === Op.i64_trunc_f32_s ? f32A : f64A)
+      return x >= -0x8000_0000_0000_0000 && x < 0x8000_0000_0000_0000 ? i64(BigInt(x)) : undefined
+    }
+    case Op.i64_trunc_f32_u: case Op.i64_trunc_f64_u: {
+      const x = Math.trunc(op === Op.i64_trunc_f32_u ? f32A : f64A)
+      return x >= 0 && x < 0x1_0000_0000_0000_0000 ? i64(BigInt(x)) : undefined
+    }
+    case Op.i64_trunc_sat_f32_s: case Op.i64_trunc_sat_f64_s: {
+      const x = Math.trunc(op === Op.i64_trunc_sat_f32_s ? f32A : f64A)
+      return i64(x >= 0x8000_0000_0000_0000 ? 0x7FFF_FFFF_FFFF_FFFFn : x <= -0x8000_0000_0000_0000 ? -0x8000_0000_0000_0000n : x ? BigInt(x) : 0n)
+    }
+    case Op.i64_trunc_sat_f32_u: case Op.i64_trunc_sat_f64_u: {
+      const x = Math.trunc(op === Op.i64_trunc_sat_f32_u ? f32A : f64A)
+      return i64(x >= 0x1_0000_0000_0000_0000 ? 0xFFFF_FFFF_FFFF_FFFFn : x > 0 ? BigInt(x) : 0n)
+    }
+    case Op.f32_convert_i64_s: return f32(bigIntToF32(BigInt.asIntN(64, a as bigint)))
+    case Op.f32_convert_i64_u: return f32(bigIntToF32(a as bigint))
+    case Op.f64_convert_i64_s: return f64(Number(BigInt.asIntN(64, a as bigint)))
+    case Op.f64_convert_i64_u: return f64(Number(a))
+    case Op.i32_reinterpret_f32: return f32Bits(ast, constants, ptrA, a) | 0
+    case Op.i64_reinterpret_f64: return i64(f64Bits(ast, constants, ptrA, a))
+    case Op.f32_reinterpret_i32: return constants.push(BigInt(u32A)) - 1
+    case Op.f64_reinterpret_i64: return constants.push(a as bigint) - 1
+
+    case Op.i32_extend8_s: return i32A << 24 >> 24
+    case Op.i32_extend16_s: return i32A << 16 >> 16
+    case Op.i64_extend8_s: return i64(BigInt.asIntN(8, a as bigint))
+    case Op.i64_extend16_s: return i64(BigInt.asIntN(16, a as bigint))
+    case Op.i64_extend32_s: return i64(BigInt.asIntN(32, a as bigint))
+  }
+}
+
+// Subtrees without side effects (including traps) can be removed entirely
+const hasNoSideEffects = (ast: Int32Array, ptr: number): boolean => {
+  if (ptr < 0) return true
+  const node = ast[ptr]
+  const op = node & Pack.OpMask
+  if (!(
+    op === Op.local_get || op === Op.global_get || op === Op.select || (op >= Op.BOOL && op <= Op.TO_S64) ||
+    (op >= Op.i32_const && op <= Op.i64_extend32_s &&
+      !(op >= Op.i32_div_s && op <= Op.i32_rem_u) && !(op >= Op.i64_div_s && op <= Op.i64_rem_u) &&
+      !(op >= Op.i32_trunc_f32_s && op <= Op.i32_trunc_f64_u) && !(op >= Op.i64_trunc_f32_s && op <= Op.i64_trunc_f64_u))
+  )) return false
+  const childCount = (node >> Pack.ChildCountShift) & Pack.ChildCountMask
+  for (let i = 1; i <= childCount; i++) {
+    if (!hasNoSideEffects(ast, ast[ptr + i])) return false
+  }
+  return true
+}
+
 // This function compiles the declarative set of optimization rules above into
 // code that does the subtree matching and replacement. This only needs to be
 // done once. The rules are compiled instead of interpreted to improve compile
 // speed, as these rules are applied to every node that the compiler generates.
-export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], allocateNode: (node: number, length: number) => number, ptr: number) => number => {
+//
+// Rules that change which memory accesses are out of bounds are left out when
+// the generated code checks memory bounds.
+const compileOptimizations = (rules: Rule[], boundsChecks: boolean, hasExtraRules: boolean): (ast: Int32Array, constants: bigint[], allocateNode: (node: number, length: number) => number, ptr: number) => number => {
   type PlaceholderMap = Partial<Record<Expr | Payload, string>>
 
   interface ReusableNode {
@@ -605,11 +1738,11 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
     reusableNodes: ReusableNode[],
     placeholderVarsFromParent: PlaceholderMap,
   ): void => {
-    for (const { match_: match, nested_: nested, replace_: replace, onlyIf_: onlyIf } of rules) {
+    for (const { match_: match, nested_: nested, replace_: replace, onlyIf_: onlyIf, fold_: fold, drops_: drops, extra_: extra } of rules) {
       compileMatch(ptrVar, opVar, match, reusableNodes, reusableNodes => {
         const placeholderVars: PlaceholderMap = Object.create(placeholderVarsFromParent)
 
-        compileOnlyIf(onlyIf, placeholderVars, () => {
+        compileConditions(onlyIf, fold, drops, placeholderVars, () => {
           // Handle nested rules
           if (nested) {
             for (const operand in nested) {
@@ -633,11 +1766,12 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
 
           // Replace the root subtree with another subtree
           if (replace) {
-            // Make sure to preserve the output stack slot of the root node in
-            // case this expression isn't inlined and we need to emit an
-            // assignment to that stack slot.
             if (ENABLE_STATS) code += `${recordStatsVar}(${JSON.stringify(buildStatName!(match))});`
-            const replacePtr = constructReplacement(replace, placeholderVars, reusableNodes.slice(), `|${astVar}[${rootPtrVar}]&${~0 << Pack.OutSlotShift}`)
+
+            // The built-in rules are written so that reused nodes are never
+            // overwritten before they are read, but extra rules may not be
+            if (extra) storeReplacePlaceholders(replace, placeholderVars)
+            const replacePtr = constructReplacement(replace, placeholderVars, reusableNodes.slice())
 
             // If we know how to optimize the resulting node, then continue to
             // optimize the node until no further optimizations are made.
@@ -656,18 +1790,45 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
     }
   }
 
-  const compileOnlyIf = (onlyIf: Check | undefined, placeholderVars: PlaceholderMap, then: () => void): void => {
-    if (onlyIf) {
+  const compileConditions = (onlyIf: Check | undefined, fold: Fold | undefined, drops: Expr | undefined, placeholderVars: PlaceholderMap, then: () => void): void => {
+    const conditions: string[] = []
+
+    if (onlyIf !== undefined) {
+      const comparesNumbers = (check: Check): boolean => typeof check === 'number' ||
+        (typeof check === 'object' && (comparesNumbers(check[0]) || comparesNumbers(check[2])))
+      const isI32 = comparesNumbers(onlyIf)
       const compileCheck = (onlyIf: Check): string => {
         if (typeof onlyIf === 'string') {
-          return `${constantsVar}[${placeholderVars[onlyIf] || placeholderExprs[onlyIf]}]&0xFFFFFFFFFFFFFFFFn`
+          const payload = placeholderVars[onlyIf] || placeholderExprs[onlyIf]
+          return isI32 ? payload! : `${constantsVar}[${payload}]&0xFFFFFFFFFFFFFFFFn`
         }
         if (typeof onlyIf === 'bigint') {
           return onlyIf + 'n'
         }
+        if (typeof onlyIf === 'number') {
+          return onlyIf + ''
+        }
         return `(${compileCheck(onlyIf[0])})${onlyIf[1]}(${compileCheck(onlyIf[2])})`
       }
-      code += `if(${compileCheck(onlyIf)}){`
+      conditions.push(compileCheck(onlyIf))
+    }
+
+    if (drops) {
+      conditions.push(`${noSideEffectsVar}(${astVar},${placeholderVars[drops] || placeholderExprs[drops]})`)
+    }
+
+    if (fold) {
+      const [op, ...operands] = fold
+      const resultVar = newVarName()
+      const args = [astVar, constantsVar, typeof op === 'string' ? oneOfOps[op]!.opVar_ : op]
+      for (const operand of operands) args.push(placeholderVars[operand] || placeholderExprs[operand]!)
+      code += `var ${resultVar};`
+      conditions.push(`(${resultVar}=${foldVar}(${args}))!==void 0`)
+      placeholderVars.R = resultVar
+    }
+
+    if (conditions.length) {
+      code += `if(${conditions.join('&&')}){`
       then()
       code += '}'
     } else {
@@ -683,7 +1844,19 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
     }
   }
 
-  const constructReplacement = (replace: Replace | ReplacePayload, placeholderVars: PlaceholderMap, reusableNodes: ReusableNode[], outStackSlot = ''): string => {
+  const storeReplacePlaceholders = (replace: Replace, placeholderVars: PlaceholderMap): void => {
+    if (typeof replace === 'string') {
+      storePlaceholderExprToVar(replace, placeholderVars)
+    } else {
+      for (let i = 1; i < replace.length; i++) {
+        const operand = replace[i]
+        if (typeof operand === 'string') storePlaceholderExprToVar(operand as Expr | Payload, placeholderVars)
+        else storeReplacePlaceholders(operand as Replace, placeholderVars)
+      }
+    }
+  }
+
+  const constructReplacement = (replace: Replace | ReplacePayload, placeholderVars: PlaceholderMap, reusableNodes: ReusableNode[]): string => {
     if (typeof replace === 'string') return placeholderVars[replace] || placeholderExprs[replace]!
 
     if (replace[0] === Edit.i64_to_i32) {
@@ -697,6 +1870,12 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
       return `${operand1}+${operand2}`
     }
 
+    if (replace[0] === Edit.i32_sub) {
+      const operand1 = constructReplacement(replace[1], placeholderVars, reusableNodes)
+      const operand2 = constructReplacement(replace[2], placeholderVars, reusableNodes)
+      return `${operand1}-${operand2}`
+    }
+
     if (replace[0] === Edit.i64_and) {
       const replace1 = replace[1]
       if (typeof replace1 === 'string') {
@@ -712,7 +1891,7 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
     // Compute the value of the AST node itself
     const [op, ...operands] = replace
     const last = operands[operands.length - 1]
-    const hasPayload = typeof last === 'string' ? last === 'P' || last === 'Q' : typeof last[0] !== 'string' && last[0] < 0
+    const hasPayload = typeof last === 'string' ? last === 'P' || last === 'Q' || last === 'R' : typeof last[0] !== 'string' && last[0] < 0
     const shiftedChildCount = (hasPayload ? operands.length - 1 : operands.length) << Pack.ChildCountShift
 
     // Try to reuse part of the old subtree for efficiency
@@ -738,19 +1917,20 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
       }
     }
 
+    // Take this node so we don't accidentally reuse the same node twice
+    if (newPtr) reusableNodes.splice(bestIndex!, 1)
+
     // Assign to the node itself
     if (typeof op === 'string' && oneOfOps[op]!.ptrVar_ === newPtr) {
       // The node that this opcode came from is being reused and that node's
       // opcode isn't changing because the replacement references the original
       // opcode. In that case, we don't need to reassign the node at all.
     } else {
-      const node = (typeof op === 'string'
+      const node = typeof op === 'string'
         ? `${oneOfOps[op]!.opVar_}|${shiftedChildCount}`
         : `${op | shiftedChildCount}`
-      ) + outStackSlot
       if (newPtr) {
         // Handle when we can reuse an existing node
-        reusableNodes.splice(bestIndex!, 1) // Take this node so we don't accidentally reuse the same node twice
         code += `${astVar}[${newPtr}]=${node};`
       } else {
         // Handle when we need to allocate a new node
@@ -761,7 +1941,7 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
 
     // Copy over the operands (but skip no-ops when reusing a node)
     for (let i = 0; i < operands.length; i++) {
-      if (existingOperands && operands[i] !== existingOperands[i]) {
+      if (!existingOperands || operands[i] !== existingOperands[i]) {
         const value = constructReplacement(operands[i], placeholderVars, reusableNodes)
         code += `${astVar}[${newPtr}+${i + 1}]=${value};`
       }
@@ -779,13 +1959,30 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
   const placeholderExprs: PlaceholderMap = {}
   const oneOfOps: Partial<Record<OneOfWithoutPayload | OneOfWithPayload, OneOfOp>> = {}
   const recordStatsVar = newVarName()
+  const foldVar = newVarName()
+  const noSideEffectsVar = newVarName()
   const astVar = newVarName()
   const constantsVar = newVarName()
   const allocateNode = newVarName()
   const rootPtrVar = newVarName()
   const rootOpVar = newVarName()
   const opCanBeOptimized = new Set<Op>()
-  for (const { match_: [pattern] } of rules) {
+  const filterRules = (rules: Rule[]): Rule[] => {
+    const result: Rule[] = []
+    for (const rule of rules) {
+      if (rule.uncheckedOnly_) continue
+      if (rule.nested_) {
+        const nested: Partial<Record<Expr, Rule[]>> = {}
+        for (const operand in rule.nested_) nested[operand as Expr] = filterRules(rule.nested_[operand as Expr]!)
+        result.push({ ...rule, nested_: nested })
+      } else {
+        result.push(rule)
+      }
+    }
+    return result
+  }
+  const enabledRules = boundsChecks ? filterRules(rules) : rules
+  for (const { match_: [pattern] } of enabledRules) {
     if (typeof pattern === 'number') {
       opCanBeOptimized.add(pattern)
     } else {
@@ -794,11 +1991,18 @@ export const compileOptimizations = (): (ast: Int32Array, constants: bigint[], a
     }
   }
   let code = `for(;;){var ${rootOpVar}=${astVar}[${rootPtrVar}]&${Pack.OpMask};`
-  compileRules(rootPtrVar, rootOpVar, rules, ENABLE_STATS ? matchToStatName : null, [], {})
+
+  // Extra rules can undo each other's replacements (or the replacements of the
+  // built-in rules), which would otherwise loop forever
+  if (hasExtraRules) {
+    const countVar = newVarName()
+    code = `var ${countVar}=0;` + code + `if(++${countVar}>${maxRewritesPerNode})throw new TypeError("Optimization rules keep rewriting the same node");`
+  }
+
+  compileRules(rootPtrVar, rootOpVar, enabledRules, ENABLE_STATS ? matchToStatName : null, [], {})
   code += `return ${rootPtrVar}}`
-  return ENABLE_STATS
-    ? new Function(recordStatsVar, `return(${astVar},${constantsVar},${allocateNode},${rootPtrVar})=>{${code}}`)(recordStats)
-    : new Function(astVar, constantsVar, allocateNode, rootPtrVar, code)
+  return new Function(recordStatsVar, foldVar, noSideEffectsVar, `return(${astVar},${constantsVar},${allocateNode},${rootPtrVar})=>{${code}}`)(
+    ENABLE_STATS ? recordStats : null, foldConstant, hasNoSideEffects)
 }
 
 let stats: Record<string, number> | undefined
@@ -6,8 +6,11 @@
 // https://webassembly.github.io/spec/core/binary/index.html
 
 import { Op } from "./defs.ts";
+import { CompileError } from "./errors.ts";
+import { validate } from "./validate.ts";
+import type { Global, Precompiled } from "./instantiate.ts";
 
-const enum Section {
+export const enum Section {
   Custom,
   Type,
   Import,
@@ -41,21 +44,33 @@ export const enum Desc {
   Global,
 }
 
-const enum LimitsKind {
+export const enum LimitsKind {
   OnlyMin,
   MinMax,
 }
 
-const enum Mutable {
+export const enum Mutable {
   Const,
   Var,
 }
 
-const enum SegmentFlag {
+export const enum SegmentFlag {
   Passive = 1 << 0,
   MemoryIndex = 1 << 1,
 }
 
+export const enum ElementFlag {
+  PassiveOrDeclarative = 1 << 0,
+  TableIndexOrDeclarative = 1 << 1,
+  Expressions = 1 << 2,
+}
+
+export const enum ElementMode {
+  Active,
+  Passive,
+  Declarative,
+}
+
 const enum NameSubsection {
   Module,
   Function,
@@ -63,22 +78,35 @@ const enum NameSubsection {
 }
 
 export type FuncType = readonly [argTypes: readonly Type[], returnTypes: readonly Type[]]
+export type Initializer = (globals: readonly Global[], funcRef: (index: number) => unknown) => unknown
 export type LocalRun = readonly [count: number, type: Type]
 
 export type CodeItem = readonly [locals: readonly LocalRun[], codeStart: number, codeEnd: number]
 export type CustomItem = readonly [name: string, bytes: Uint8Array]
-export type DataItem = readonly [memory: number, offset: number, data: Uint8Array]
-export type ElementItem = readonly [offset: number, indices: readonly number[]]
+export type DataItem = readonly [memory: number, offset: Initializer | null, data: Uint8Array] // The offset is null for passive segments
+export type ElementItem = readonly [mode: ElementMode, table: number, offset: Initializer | null, items: readonly Initializer[]]
 export type ExportItem = readonly [name: string, desc: Desc, index: number]
-export type GlobalItem = readonly [type: Type, mutable: Mutable, initializer: (globals: (number | bigint)[]) => number | bigint]
+export type GlobalItem = readonly [type: Type, mutable: Mutable, initializer: Initializer]
 export type ImportItem =
   | readonly [module: string, name: string, desc: Desc.Func, index: number]
   | readonly [module: string, name: string, desc: Desc.Table, type: Type, min: number, max: number]
   | readonly [module: string, name: string, desc: Desc.Mem, min: number, max: number]
   | readonly [module: string, name: string, desc: Desc.Global, type: Type, mutable: Mutable]
 export type MemoryItem = readonly [min: number, max: number]
+export type ProducerItem = readonly [field: string, name: string, version: string]
 export type TableItem = readonly [type: Type, min: number, max: number]
 
+// Function types are compared structurally, so each distinct function type is
+// given a canonical id that's the same across all modules. This lets the type
+// of a function be checked with a single comparison.
+const canonicalFuncTypes = new Map<string, number>()
+export const canonicalFuncType = ([argTypes, returnTypes]: FuncType): number => {
+  const key = argTypes + ':' + returnTypes
+  let id = canonicalFuncTypes.get(key)
+  if (id === undefined) canonicalFuncTypes.set(key, id = canonicalFuncTypes.size)
+  return id
+}
+
 export interface WASM {
   readonly bytes_: Uint8Array
   readonly dataView_: DataView
@@ -92,15 +120,21 @@ export interface WASM {
   readonly importSection_: readonly ImportItem[]
   readonly memorySection_: readonly MemoryItem[]
   readonly nameSection_: ReadonlyMap<number, string>
+  readonly producersSection_: readonly ProducerItem[]
   readonly startSection_: number
   readonly tableSection_: readonly TableItem[]
   readonly typeSection_: readonly FuncType[]
+
+  // Generated code doesn't depend on the instance, so it's shared by all
+  // instances of this module (see "codeCacheFor" in "instantiate.ts")
+  readonly codeCache_: Map<string, Precompiled>
 }
 
 // Note: This deliberately assumes that the input is valid WebAssembly for
 // simplicity. Typically you'd use this to run a WebAssembly binary that you
 // already know is valid. If it's important to get validation errors for
-// invalid input, then you want to use another tool instead of this one.
+// invalid input, then pass "{ validate: true }" to the "Module" constructor
+// to run the checks in "validate.ts" first.
 const parse = (bytes: Uint8Array): WASM => {
   const dataView = new DataView(bytes.buffer)
 
@@ -164,41 +198,69 @@ const parse = (bytes: Uint8Array): WASM => {
     return [readU32LEB(), kind === LimitsKind.OnlyMin ? Infinity : readU32LEB()]
   }
 
-  const readConstantU32 = (): number => {
-    const op: Op = bytes[ptr++]
-    let value: number
-    if (op === Op.i32_const) value = readU32LEB()
-    else throw new Error('Unsupported constant instruction: 0x' + op.toString(16))
-    if (bytes[ptr++] !== Op.end) throw new Error('Expected end after constant')
-    return value
+  const popOperands = (stack: Initializer[]): [left: Initializer, right: Initializer] => {
+    if (stack.length < 2) throw new CompileError('Missing operand in constant expression')
+    const right = stack.pop()!
+    return [stack.pop()!, right]
   }
 
-  const readInitializer = (): (globals: (number | bigint)[]) => number | bigint => {
-    const op: Op = bytes[ptr++]
-    let initializer: (globals: (number | bigint)[]) => number | bigint
-    if (op === Op.i32_const) {
-      const value = readI32LEB()
-      initializer = () => value
-    }
-    else if (op === Op.i64_const) {
-      const value = readI64LEB()
-      initializer = () => value
-    }
-    else if (op === Op.f32_const) {
-      const value = readF32()
-      initializer = () => value
-    }
-    else if (op === Op.f64_const) {
-      const value = readF64()
-      initializer = () => value
-    }
-    else if (op === Op.global_get) {
-      const index = readU32LEB()
-      initializer = globals => globals[index]
+  // Constant expressions are turned into functions that are evaluated during
+  // instantiation, since they can refer to globals (e.g. an imported base
+  // address for position-independent code). Arithmetic instructions are from
+  // the "extended constant expressions" proposal.
+  const readInitializer = (): Initializer => {
+    const stack: Initializer[] = []
+    while (true) {
+      const op: Op = bytes[ptr++]
+      if (op === Op.end) break
+      if (op === Op.i32_const) {
+        const value = readI32LEB()
+        stack.push(() => value)
+      }
+      else if (op === Op.i64_const) {
+        const value = readI64LEB() & 0xFFFF_FFFF_FFFF_FFFFn
+        stack.push(() => value)
+      }
+      else if (op === Op.f32_const) {
+        const value = readF32()
+        stack.push(() => value)
+      }
+      else if (op === Op.f64_const) {
+        const value = readF64()
+        stack.push(() => value)
+      }
+      else if (op === Op.global_get) {
+        const index = readU32LEB()
+        stack.push(globals => globals[index].value_)
+      }
+      else if (op === Op.ref_null) {
+        ptr++ // Skip over the heap type
+        stack.push(() => null)
+      }
+      else if (op === Op.ref_func) {
+        const index = readU32LEB()
+        stack.push((_globals, funcRef) => funcRef(index))
+      }
+      else if (op === Op.i32_add || op === Op.i32_sub || op === Op.i32_mul) {
+        const [left, right] = popOperands(stack)
+        stack.push((globals, funcRef) => {
+          const x = left(globals, funcRef) as number
+          const y = right(globals, funcRef) as number
+          return op === Op.i32_add ? x + y | 0 : op === Op.i32_sub ? x - y | 0 : Math.imul(x, y)
+        })
+      }
+      else if (op === Op.i64_add || op === Op.i64_sub || op === Op.i64_mul) {
+        const [left, right] = popOperands(stack)
+        stack.push((globals, funcRef) => {
+          const x = left(globals, funcRef) as bigint
+          const y = right(globals, funcRef) as bigint
+          return (op === Op.i64_add ? x + y : op === Op.i64_sub ? x - y : x * y) & 0xFFFF_FFFF_FFFF_FFFFn
+        })
+      }
+      else throw new CompileError('Unsupported constant instruction: 0x' + op.toString(16))
     }
-    else throw new Error('Unsupported constant instruction: 0x' + op.toString(16))
-    if (bytes[ptr++] !== Op.end) throw new Error('Expected end after constant')
-    return initializer
+    if (stack.length !== 1) throw new CompileError('Expected a single value from constant expression')
+    return stack[0]
   }
 
   const codeSection: CodeItem[] = []
@@ -211,13 +273,15 @@ const parse = (bytes: Uint8Array): WASM => {
   const importSection: ImportItem[] = []
   const memorySection: MemoryItem[] = []
   const nameSection: Map<number, string> = new Map
+  const producersSection: ProducerItem[] = []
   const tableSection: TableItem[] = []
   const typeSection: FuncType[] = []
   let startSection = -1
+  let dataCount = -1
   let ptr = 8
 
   if (bytes.slice(0, 8).join(',') !== '0,97,115,109,1,0,0,0')
-    throw new Error('Invalid file header')
+    throw new CompileError('Invalid file header')
 
   while (ptr + 5 < bytes.length) {
     const sectionType: Section = bytes[ptr++]
@@ -238,11 +302,22 @@ const parse = (bytes: Uint8Array): WASM => {
           }
         }
       }
+
+      // The tools that produced this module (e.g. "rustc") are used to pick
+      // optimization rules for that toolchain (see "toolchainFor")
+      else if (sectionName === 'producers') {
+        for (let i = 0, fieldCount = readU32LEB(); i < fieldCount && ptr < sectionEnd; i++) {
+          const field = readName()
+          for (let j = 0, valueCount = readU32LEB(); j < valueCount && ptr < sectionEnd; j++) {
+            producersSection.push([field, readName(), readName()])
+          }
+        }
+      }
     }
 
     else if (sectionType === Section.Type) {
       for (let i = 0, typeCount = readU32LEB(); i < typeCount; i++) {
-        if (bytes[ptr++] !== 0x60) throw new Error('Invalid function type')
+        if (bytes[ptr++] !== 0x60) throw new CompileError('Invalid function type')
         typeSection.push([readValueTypes(), readValueTypes()])
       }
     }
@@ -256,7 +331,7 @@ const parse = (bytes: Uint8Array): WASM => {
         else if (desc === Desc.Table) importSection.push([module, name, desc, bytes[ptr++], ...readLimits()])
         else if (desc === Desc.Mem) importSection.push([module, name, desc, ...readLimits()])
         else if (desc === Desc.Global) importSection.push([module, name, desc, bytes[ptr++], bytes[ptr++]])
-        else throw new Error('Unsupported import type: ' + desc)
+        else throw new CompileError('Unsupported import type: ' + desc)
       }
     }
 
@@ -303,15 +378,25 @@ const parse = (bytes: Uint8Array): WASM => {
 
     else if (sectionType === Section.Element) {
       for (let i = 0, elementCount = readU32LEB(); i < elementCount; i++) {
-        const byte = bytes[ptr++]
-        if (byte === 0) {
-          const offset = readConstantU32()
-          const indices: number[] = []
-          for (let j = 0, count = readU32LEB(); j < count; j++) indices.push(readU32LEB())
-          elementSection.push([offset, indices])
-        } else {
-          throw new Error('Unsupported element kind: ' + byte)
+        const flags: ElementFlag = readU32LEB()
+        if (flags > 7) throw new CompileError('Unsupported element kind: ' + flags)
+        const mode =
+          !(flags & ElementFlag.PassiveOrDeclarative) ? ElementMode.Active :
+            flags & ElementFlag.TableIndexOrDeclarative ? ElementMode.Declarative :
+              ElementMode.Passive
+        const table = mode === ElementMode.Active && flags & ElementFlag.TableIndexOrDeclarative ? readU32LEB() : 0
+        const offset = mode === ElementMode.Active ? readInitializer() : null
+        if (flags & (ElementFlag.PassiveOrDeclarative | ElementFlag.TableIndexOrDeclarative)) ptr++ // Skip over the element kind or reference type
+        const items: Initializer[] = []
+        for (let j = 0, count = readU32LEB(); j < count; j++) {
+          if (flags & ElementFlag.Expressions) {
+            items.push(readInitializer())
+          } else {
+            const index = readU32LEB()
+            items.push((_globals, funcRef) => funcRef(index))
+          }
         }
+        elementSection.push([mode, table, offset, items])
       }
     }
 
@@ -327,26 +412,31 @@ const parse = (bytes: Uint8Array): WASM => {
     }
 
     else if (sectionType === Section.Data) {
-      for (let i = 0, dataCount = readU32LEB(); i < dataCount; i++) {
+      const segmentCount = readU32LEB()
+      if (dataCount >= 0 && segmentCount !== dataCount) throw new CompileError(`Expected ${dataCount} data segments but found ${segmentCount}`)
+      for (let i = 0; i < segmentCount; i++) {
         const flags: SegmentFlag = bytes[ptr++]
         const memory = flags & SegmentFlag.MemoryIndex ? readU32LEB() : 0
-        const offset = flags & SegmentFlag.Passive ? 0 : readConstantU32()
+        const offset = flags & SegmentFlag.Passive ? null : readInitializer()
         const length = readU32LEB()
         dataSection.push([memory, offset, bytes.slice(ptr, ptr += length)])
       }
     }
 
     else if (sectionType === Section.DataCount) {
-      // This section is not used...
+      dataCount = readU32LEB()
     }
 
     else {
-      throw new Error('Unsupported section type ' + sectionType)
+      throw new CompileError('Unsupported section type ' + sectionType)
     }
 
     ptr = sectionEnd
   }
 
+  // A missing data section has zero data segments
+  if (dataCount > 0 && dataSection.length === 0) throw new CompileError(`Expected ${dataCount} data segments but found 0`)
+
   return {
     bytes_: bytes,
     dataView_: dataView,
@@ -360,21 +450,124 @@ const parse = (bytes: Uint8Array): WASM => {
     importSection_: importSection,
     memorySection_: memorySection,
     nameSection_: nameSection,
+    producersSection_: producersSection,
     startSection_: startSection,
     tableSection_: tableSection,
     typeSection_: typeSection,
+    codeCache_: new Map,
   }
 }
 
 export const moduleMap = new Map<Module, WASM>()
 
+export interface ModuleOptions {
+  // Check that the module is valid WebAssembly before parsing it, and throw a
+  // "CompileError" if it's not. This is off by default because parsing assumes
+  // valid input and validation has to do an extra pass over every function.
+  // Note that "validate()" always does this.
+  validate?: boolean
+}
+
 export class Module {
-  constructor(source: BufferSource) {
-    moduleMap.set(this, parse(source instanceof Uint8Array ? source :
-      new Uint8Array(source instanceof ArrayBuffer ? source : source.buffer)))
+  constructor(source: BufferSource, options: ModuleOptions = {}) {
+    const bytes = source instanceof Uint8Array ? source :
+      new Uint8Array(source instanceof ArrayBuffer ? source : source.buffer)
+    if (options.validate) validate(bytes)
+    try {
+      moduleMap.set(this, parse(bytes))
+    } catch (error) {
+      // Truncated files can also cause errors such as "RangeError" from "DataView"
+      throw error instanceof CompileError ? error : new CompileError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  static customSections(moduleObject: Module, sectionName: string): ArrayBuffer[] {
+    const wasm = wasmFor(moduleObject)
+    const sections: ArrayBuffer[] = []
+
+    // The section name is required, but is converted to a string like in the
+    // built-in API (so an explicit "undefined" looks for "undefined")
+    if (arguments.length < 2) throw new TypeError('Argument "sectionName" is required')
+    sectionName = String(sectionName)
+    for (const [name, bytes] of wasm.customSections_) {
+      if (name === sectionName) sections.push(bytes.slice().buffer)
+    }
+    return sections
+  }
+
+  static exports(moduleObject: Module): ModuleExportDescriptor[] {
+    const wasm = wasmFor(moduleObject)
+    return wasm.exportSection_.map(([name, desc, index]) => ({ name, kind: descKinds[desc], type: externType(wasm, desc, index) }))
+  }
+
+  static imports(moduleObject: Module): ModuleImportDescriptor[] {
+    const wasm = wasmFor(moduleObject)
+    const counts = [0, 0, 0, 0] // The number of imports of each kind so far
+    return wasm.importSection_.map(([module, name, desc]) => ({ module, name, kind: descKinds[desc], type: externType(wasm, desc, counts[desc]++) }))
   }
+}
+
+// These have the optional "type" field from the WebAssembly "type reflection"
+// proposal: https://github.com/WebAssembly/js-types/blob/main/proposals/js-types/Overview.md
+export type ModuleExportDescriptor = WebAssembly.ModuleExportDescriptor & { type: ExternType }
+export type ModuleImportDescriptor = WebAssembly.ModuleImportDescriptor & { type: ExternType }
+export type ExternType =
+  | { parameters: string[], results: string[] }
+  | { element: string, minimum: number, maximum?: number }
+  | { minimum: number, maximum?: number, shared: boolean }
+  | { value: string, mutable: boolean }
+
+// The built-in "WebAssembly.ValueType" type only has the numeric types
+export type ValueType = 'i32' | 'i64' | 'f32' | 'f64' | 'v128' | 'anyfunc' | 'funcref' | 'externref'
+
+export const valueTypeNames: Record<number, ValueType> = {
+  [Type.I32]: 'i32',
+  [Type.I64]: 'i64',
+  [Type.F32]: 'f32',
+  [Type.F64]: 'f64',
+  [Type.V128]: 'v128',
+  [Type.FuncRef]: 'anyfunc',
+  [Type.ExternRef]: 'externref',
+}
+
+const descKinds: Record<Desc, WebAssembly.ImportExportKind> = {
+  [Desc.Func]: 'function',
+  [Desc.Table]: 'table',
+  [Desc.Mem]: 'memory',
+  [Desc.Global]: 'global',
+}
+
+export const wasmFor = (moduleObject: Module): WASM => {
+  const wasm = moduleMap.get(moduleObject)
+  if (!wasm) throw new TypeError('Argument must be a "Module" object')
+  return wasm
+}
+
+// Indices count imports before definitions, like they do in the bytecode
+const externType = (wasm: WASM, desc: Desc, index: number): ExternType => {
+  const imports = wasm.importSection_.filter(tuple => tuple[2] === desc)
+  const limits = (minimum: number, maximum: number) => maximum < Infinity ? { minimum, maximum } : { minimum }
+  if (index < imports.length) {
+    const tuple = imports[index]
+    if (tuple[2] === Desc.Func) return funcType(wasm.typeSection_[tuple[3]])
+    if (tuple[2] === Desc.Table) return { element: valueTypeNames[tuple[3]], ...limits(tuple[4], tuple[5]) }
+    if (tuple[2] === Desc.Mem) return { ...limits(tuple[3], tuple[4]), shared: false }
+    return { value: valueTypeNames[tuple[3]], mutable: tuple[4] === Mutable.Var }
+  }
+  index -= imports.length
+  if (desc === Desc.Func) return funcType(wasm.typeSection_[wasm.functionSection_[index]])
+  if (desc === Desc.Table) {
+    const [type, min, max] = wasm.tableSection_[index]
+    return { element: valueTypeNames[type], ...limits(min, max) }
+  }
+  if (desc === Desc.Mem) {
+    const [min, max] = wasm.memorySection_[index]
+    return { ...limits(min, max), shared: false }
+  }
+  const [type, mutable] = wasm.globalSection_[index]
+  return { value: valueTypeNames[type], mutable: mutable === Mutable.Var }
+}
 
-  declare static customSections: (moduleObject: Module, sectionName: string) => ArrayBuffer[]
-  declare static exports: (moduleObject: Module) => WebAssembly.ModuleExportDescriptor[]
-  declare static imports: (moduleObject: Module) => WebAssembly.ModuleImportDescriptor[]
+const funcType = ([argTypes, returnTypes]: FuncType): ExternType => {
+  return { parameters: argTypes.map(type => valueTypeNames[type]), results: returnTypes.map(type => valueTypeNames[type]) }
 }
@@ -1,60 +1,61 @@
-import { Global, Instance, Memory, Table } from "./instantiate.ts";
-import { Module } from "./parse.ts";
+import { Global, Instance, type InstanceOptions, Memory, Table, compileInChunks } from "./instantiate.ts";
+import { Module, type ModuleOptions } from "./parse.ts";
 
 export { Global, Instance, Memory, Table } from "./instantiate.ts";
+export type { CodeCache } from "./cache.ts";
+export type { GlobalDescriptor, InstanceOptions, Precompiled, TableDescriptor, TableKind } from "./instantiate.ts";
 export { Module } from "./parse.ts";
+export { addOptimizationRules } from "./optimize.ts";
+export type { OptimizationRule, RuleCheck, RuleExpr, RuleMatch, RuleOp, RulePayload, RuleReplace, Toolchain } from "./optimize.ts";
+export type { ModuleOptions, ValueType } from "./parse.ts";
+export { CompileError, LinkError, RuntimeError } from "./errors.ts";
 
-export const CompileError = WebAssembly.CompileError;
-export const LinkError = WebAssembly.LinkError;
-
-export type GlobalDescriptor = WebAssembly.GlobalDescriptor;
 export type MemoryDescriptor = WebAssembly.MemoryDescriptor;
-export type ModuleExportDescriptor = WebAssembly.ModuleExportDescriptor;
-export type ModuleImportDescriptor = WebAssembly.ModuleImportDescriptor;
-export type TableDescriptor = WebAssembly.TableDescriptor;
+export type { ExternType, ModuleExportDescriptor, ModuleImportDescriptor } from "./parse.ts";
 export type WebAssemblyInstantiatedSource = { module: Module, instance: Instance };
 export type ImportExportKind = WebAssembly.ImportExportKind;
-export type TableKind = WebAssembly.TableKind;
 export type ExportValue = Function | Global | Memory | Table;
 export type Exports = Record<string, ExportValue>;
 export type ImportValue = ExportValue | number;
 export type Imports = Record<string, ModuleImports>;
 export type ModuleImports = Record<string, ImportValue>;
-export type ValueType = WebAssembly.ValueType;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/compile_static) */
-export function compile(bytes: BufferSource): Promise<Module> {
-    return Promise.resolve(new Module(bytes));
+export function compile(bytes: BufferSource, options?: ModuleOptions): Promise<Module> {
+    return Promise.resolve(new Module(bytes, options));
 }
 
 /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/compileStreaming_static) */
-export async function compileStreaming(source: Response | PromiseLike<Response>): Promise<Module> {
+export async function compileStreaming(source: Response | PromiseLike<Response>, options?: ModuleOptions): Promise<Module> {
     const bytes = await source;
-    return compile(await bytes.arrayBuffer());
+    return compile(await bytes.arrayBuffer(), options);
 }
 
 /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/instantiate_static) */
-export async function instantiate(bytes: BufferSource, importObject?: Imports): Promise<WebAssemblyInstantiatedSource>;
-export async function instantiate(moduleObject: Module, importObject?: Imports): Promise<Instance>;
-export function instantiate(input: BufferSource | Module, importObject?: Imports): Promise<WebAssemblyInstantiatedSource | Instance> {
-    if (input instanceof Module) return Promise.resolve(new Instance(input, importObject));
-    const module = new Module(input);
-    return Promise.resolve({
-        module,
-        instance: new Instance(module, importObject),
-    });
+export async function instantiate(bytes: BufferSource, importObject?: Imports, options?: InstanceOptions & ModuleOptions): Promise<WebAssemblyInstantiatedSource>;
+export async function instantiate(moduleObject: Module, importObject?: Imports, options?: InstanceOptions): Promise<Instance>;
+export async function instantiate(input: BufferSource | Module, importObject?: Imports, options?: InstanceOptions & ModuleOptions): Promise<WebAssemblyInstantiatedSource | Instance> {
+    const module = input instanceof Module ? input : new Module(input, options);
+
+    // The constructor would compile everything synchronously for eager
+    // compilation, so it's done in chunks here instead
+    const eager = !!options && options.compilation === 'eager';
+    const instance = new Instance(module, importObject, eager ? { ...options, compilation: 'lazy' } : options);
+    if (eager) await compileInChunks(instance);
+
+    return input instanceof Module ? instance : { module, instance };
 }
 
 /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/instantiateStreaming_static) */
-export async function instantiateStreaming(source: Response | PromiseLike<Response>, importObject?: Imports): Promise<WebAssemblyInstantiatedSource> {
+export async function instantiateStreaming(source: Response | PromiseLike<Response>, importObject?: Imports, options?: InstanceOptions & ModuleOptions): Promise<WebAssemblyInstantiatedSource> {
     const bytes = await source;
-    return instantiate(await bytes.arrayBuffer(), importObject);
+    return instantiate(await bytes.arrayBuffer(), importObject, options);
 }
 
 /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/validate_static) */
 export function validate(bytes: BufferSource): boolean {
     try {
-        new Module(bytes);
+        new Module(bytes, { validate: true });
         return true;
     } catch {
         return false;
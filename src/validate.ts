@@ -0,0 +1,829 @@
+// This file checks that a WebAssembly binary is valid according to the
+// specification. The parser and the compiler both assume that their input is
+// valid to keep them small and fast, so validation is a separate pass over the
+// bytes that runs before parsing when it's requested.
+//
+// See the WebAssembly validation reference for more information:
+// https://webassembly.github.io/spec/core/valid/index.html
+// https://webassembly.github.io/spec/core/appendix/algorithm.html
+
+import { MetaFlag, Op, alignTable, metaTable, operandTypeTable, resultTypeTable } from "./defs.ts";
+import { CompileError } from "./errors.ts";
+import { Desc, ElementFlag, type FuncType, LimitsKind, Mutable, Section, SegmentFlag, Type } from "./parse.ts";
+
+// This is the type of an operand popped from the stack in unreachable code,
+// which matches any other type
+const Unknown = 0
+
+type StackType = Type | typeof Unknown
+
+interface Control {
+  op_: Op
+  params_: readonly Type[]
+  results_: readonly Type[]
+  height_: number
+  unreachable_: boolean
+}
+
+type GlobalType = readonly [type: Type, mutable: Mutable]
+
+const isValueType = (type: number): type is Type => {
+  return type === Type.I32 || type === Type.I64 || type === Type.F32 || type === Type.F64 || isRefType(type)
+}
+
+const isRefType = (type: number): type is Type => {
+  return type === Type.FuncRef || type === Type.ExternRef
+}
+
+export const validate = (bytes: Uint8Array): void => {
+  const decoder = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true })
+  let ptr = 0
+  let end = bytes.length // The end of the current section or function body
+
+  const error = (message: string): never => {
+    throw new CompileError(`${message} (at offset ${ptr})`)
+  }
+
+  const readByte = (): number => {
+    if (ptr >= end) error('Unexpected end')
+    return bytes[ptr++]
+  }
+
+  const skipBytes = (count: number): void => {
+    if (count > end - ptr) error('Unexpected end')
+    ptr += count
+  }
+
+  const readU32LEB = (): number => {
+    let value = 0
+    for (let shift = 0; ; shift += 7) {
+      const byte = readByte()
+      if (shift === 28) {
+        if (byte & 0x80) error('Integer representation too long')
+        if (byte & 0x70) error('Integer too large')
+      }
+      value |= (byte & 0x7F) << shift
+      if (!(byte & 0x80)) return value >>> 0
+    }
+  }
+
+  // The value is only exact for sizes up to 33 bits, which is fine because
+  // the only larger size (64 bits) is for "i64.const" where it isn't needed
+  const readSignedLEB = (bits: number): number => {
+    const maxBytes = Math.ceil(bits / 7)
+    let value = 0
+    let shift = 0
+    let byte: number
+    for (let i = 1; ; i++) {
+      byte = readByte()
+      value += (byte & 0x7F) * 2 ** shift
+      shift += 7
+      if (!(byte & 0x80)) break
+      if (i === maxBytes) error('Integer representation too long')
+    }
+
+    // The unused bits in the last byte must all be copies of the sign bit
+    if (shift > bits) {
+      const signAndUnusedBits = (byte & 0x7F) >> (bits - shift + 6)
+      if (signAndUnusedBits !== 0 && signAndUnusedBits !== 0x7F >> (bits - shift + 6)) error('Integer too large')
+    }
+    return byte & 0x40 ? value - 2 ** shift : value
+  }
+
+  const readName = (): string => {
+    const length = readU32LEB()
+    const start = ptr
+    skipBytes(length)
+    try {
+      return decoder.decode(bytes.subarray(start, ptr))
+    } catch {
+      return error('Malformed UTF-8 encoding')
+    }
+  }
+
+  const readValueType = (): Type => {
+    const type = readByte()
+    if (!isValueType(type)) error('Malformed value type: 0x' + type.toString(16))
+    return type as Type
+  }
+
+  const readRefType = (): Type => {
+    const type = readByte()
+    if (!isRefType(type)) error('Malformed reference type: 0x' + type.toString(16))
+    return type as Type
+  }
+
+  const readValueTypes = (): Type[] => {
+    const types: Type[] = []
+    for (let i = 0, count = readU32LEB(); i < count; i++) types.push(readValueType())
+    return types
+  }
+
+  const readMutability = (): Mutable => {
+    const mutable = readByte()
+    if (mutable !== Mutable.Const && mutable !== Mutable.Var) error('Malformed mutability')
+    return mutable
+  }
+
+  const readLimits = (maxLimit: number, what: string): void => {
+    const kind: LimitsKind = readByte()
+    if (kind !== LimitsKind.OnlyMin && kind !== LimitsKind.MinMax) error('Malformed limits flags')
+    const min = readU32LEB()
+    const max = kind === LimitsKind.MinMax ? readU32LEB() : min
+    if (min > maxLimit || max > maxLimit) error(`The ${what} size must be at most ${maxLimit}`)
+    if (min > max) error(`The ${what} size minimum must not be greater than the maximum`)
+  }
+
+  const typeSection: FuncType[] = []
+  const funcs: number[] = [] // The type index of each function
+  const tables: Type[] = []
+  const globals: GlobalType[] = []
+  const elementTypes: Type[] = []
+  const declaredFuncs = new Set<number>() // Functions that "ref.func" can refer to inside a function body
+  let memoryCount = 0
+  let importedGlobalCount = 0
+  let definedFuncCount = 0
+  let codeCount = 0
+  let dataCount = -1
+
+  const funcType = (index: number): FuncType => {
+    if (index >= typeSection.length) error(`Unknown type: ${index}`)
+    return typeSection[index]
+  }
+
+  const func = (index: number): FuncType => {
+    if (index >= funcs.length) error(`Unknown function: ${index}`)
+    return typeSection[funcs[index]]
+  }
+
+  const table = (index: number): Type => {
+    if (index >= tables.length) error(`Unknown table: ${index}`)
+    return tables[index]
+  }
+
+  const memory = (index: number): void => {
+    if (index >= memoryCount) error(`Unknown memory: ${index}`)
+  }
+
+  const addMemory = (): void => {
+    if (++memoryCount > 1) error('Multiple memories are not allowed')
+  }
+
+  const readZeroByte = (): void => {
+    if (readByte() !== 0) error('Zero byte expected')
+  }
+
+  // This implements the validation algorithm from the specification's appendix
+  // using a stack of value types and a stack of control frames. Constant
+  // expressions (e.g. global initializers) are validated by the same code but
+  // only allow a few instructions and only some globals.
+  const operands: StackType[] = []
+  const controls: Control[] = []
+
+  const validateExpression = (
+    localRuns: readonly (readonly [count: number, type: Type])[],
+    results: readonly Type[],
+    constantGlobalCount: number, // This is -1 for function bodies
+  ): void => {
+    const isConstant = constantGlobalCount >= 0
+
+    const push = (type: StackType): void => {
+      operands.push(type)
+    }
+
+    const pop = (): StackType => {
+      const control = controls[controls.length - 1]
+      if (operands.length === control.height_) {
+        if (control.unreachable_) return Unknown
+        error('Type mismatch: the stack is empty')
+      }
+      return operands.pop()!
+    }
+
+    const popExpected = (expected: StackType): StackType => {
+      const actual = pop()
+      if (actual !== expected && actual !== Unknown && expected !== Unknown) error('Type mismatch')
+      return actual
+    }
+
+    const popTypes = (types: readonly StackType[]): StackType[] => {
+      const popped: StackType[] = []
+      for (let i = types.length - 1; i >= 0; i--) popped.unshift(popExpected(types[i]))
+      return popped
+    }
+
+    const pushTypes = (types: readonly StackType[]): void => {
+      for (const type of types) push(type)
+    }
+
+    const pushControl = (op: Op, params: readonly Type[], results: readonly Type[]): void => {
+      controls.push({ op_: op, params_: params, results_: results, height_: operands.length, unreachable_: false })
+      pushTypes(params)
+    }
+
+    const popControl = (): Control => {
+      const control = controls[controls.length - 1]
+      popTypes(control.results_)
+      if (operands.length !== control.height_) error('Type mismatch: values remaining on the stack')
+      controls.pop()
+      return control
+    }
+
+    const setUnreachable = (): void => {
+      const control = controls[controls.length - 1]
+      operands.length = control.height_
+      control.unreachable_ = true
+    }
+
+    const label = (depth: number): readonly Type[] => {
+      if (depth >= controls.length) error(`Unknown label: ${depth}`)
+      const control = controls[controls.length - 1 - depth]
+      return control.op_ === Op.loop ? control.params_ : control.results_
+    }
+
+    const local = (index: number): Type => {
+      for (const [count, type] of localRuns) {
+        if (index < count) return type
+        index -= count
+      }
+      return error(`Unknown local: ${index}`)
+    }
+
+    const global = (index: number): GlobalType => {
+      if (index >= (isConstant ? constantGlobalCount : globals.length)) error(`Unknown global: ${index}`)
+      return globals[index]
+    }
+
+    const readBlockType = (): FuncType => {
+      if (ptr < end && bytes[ptr] === 0x40) {
+        ptr++
+        return [[], []]
+      }
+      if (ptr < end && isValueType(bytes[ptr])) return [[], [bytes[ptr++]]]
+      const index = readSignedLEB(33)
+      if (index < 0) error('Malformed block type')
+      return funcType(index)
+    }
+
+    const dataSegment = (index: number): void => {
+      if (dataCount < 0) error('Data count section required')
+      if (index >= dataCount) error(`Unknown data segment: ${index}`)
+    }
+
+    const elementSegment = (index: number): Type => {
+      if (index >= elementTypes.length) error(`Unknown element segment: ${index}`)
+      return elementTypes[index]
+    }
+
+    operands.length = 0
+    controls.length = 0
+    pushControl(Op.block, [], results)
+
+    while (controls.length) {
+      const op = readByte()
+
+      if (isConstant && op !== Op.end && op !== Op.i32_const && op !== Op.i64_const && op !== Op.f32_const &&
+        op !== Op.f64_const && op !== Op.global_get && op !== Op.ref_null && op !== Op.ref_func &&
+        op !== Op.i32_add && op !== Op.i32_sub && op !== Op.i32_mul &&
+        op !== Op.i64_add && op !== Op.i64_sub && op !== Op.i64_mul) {
+        error('Constant expression required')
+      }
+
+      switch (op) {
+        case Op.unreachable:
+          setUnreachable()
+          break
+
+        case Op.nop:
+          break
+
+        case Op.block:
+        case Op.loop: {
+          const [params, results] = readBlockType()
+          popTypes(params)
+          pushControl(op, params, results)
+          break
+        }
+
+        case Op.if: {
+          const [params, results] = readBlockType()
+          popExpected(Type.I32)
+          popTypes(params)
+          pushControl(op, params, results)
+          break
+        }
+
+        case Op.else: {
+          const control = controls[controls.length - 1]
+          if (control.op_ !== Op.if) error('Unexpected "else"')
+          popControl()
+          pushControl(op, control.params_, control.results_)
+          break
+        }
+
+        case Op.end: {
+          const control = popControl()
+
+          // An "if" without an "else" must pass its inputs through unchanged
+          if (control.op_ === Op.if && control.params_.join() !== control.results_.join()) error('Type mismatch: "if" without "else"')
+          pushTypes(control.results_)
+          break
+        }
+
+        case Op.br:
+          popTypes(label(readU32LEB()))
+          setUnreachable()
+          break
+
+        case Op.br_if: {
+          const types = label(readU32LEB())
+          popExpected(Type.I32)
+          popTypes(types)
+          pushTypes(types)
+          break
+        }
+
+        case Op.br_table: {
+          const depths: number[] = []
+          for (let i = 0, count = readU32LEB(); i < count; i++) depths.push(readU32LEB())
+          const defaultTypes = label(readU32LEB())
+          popExpected(Type.I32)
+          for (const depth of depths) {
+            const types = label(depth)
+            if (types.length !== defaultTypes.length) error('Type mismatch: "br_table" targets have different arities')
+            pushTypes(popTypes(types))
+          }
+          popTypes(defaultTypes)
+          setUnreachable()
+          break
+        }
+
+        case Op.return:
+          popTypes(controls[0].results_)
+          setUnreachable()
+          break
+
+        case Op.call: {
+          const [argTypes, returnTypes] = func(readU32LEB())
+          popTypes(argTypes)
+          pushTypes(returnTypes)
+          break
+        }
+
+        case Op.call_indirect: {
+          const [argTypes, returnTypes] = funcType(readU32LEB())
+          if (table(readU32LEB()) !== Type.FuncRef) error('Type mismatch: "call_indirect" requires a "funcref" table')
+          popExpected(Type.I32)
+          popTypes(argTypes)
+          pushTypes(returnTypes)
+          break
+        }
+
+        case Op.drop:
+          pop()
+          break
+
+        case Op.select: {
+          popExpected(Type.I32)
+          const a = pop()
+          const b = pop()
+          if (isRefType(a) || isRefType(b)) error('Type mismatch: "select" without a type requires numeric operands')
+          if (a !== b && a !== Unknown && b !== Unknown) error('Type mismatch')
+          push(a === Unknown ? b : a)
+          break
+        }
+
+        case Op.select_type: {
+          if (readU32LEB() !== 1) error('Invalid result arity for "select"')
+          const type = readValueType()
+          popExpected(Type.I32)
+          popExpected(type)
+          popExpected(type)
+          push(type)
+          break
+        }
+
+        case Op.local_get:
+          push(local(readU32LEB()))
+          break
+
+        case Op.local_set:
+          popExpected(local(readU32LEB()))
+          break
+
+        case Op.local_tee: {
+          const type = local(readU32LEB())
+          popExpected(type)
+          push(type)
+          break
+        }
+
+        case Op.global_get: {
+          const [type, mutable] = global(readU32LEB())
+          if (isConstant && mutable === Mutable.Var) error('Constant expression required')
+          push(type)
+          break
+        }
+
+        case Op.global_set: {
+          const [type, mutable] = global(readU32LEB())
+          if (mutable !== Mutable.Var) error('Global is immutable')
+          popExpected(type)
+          break
+        }
+
+        case Op.table_get: {
+          const type = table(readU32LEB())
+          popExpected(Type.I32)
+          push(type)
+          break
+        }
+
+        case Op.table_set: {
+          const type = table(readU32LEB())
+          popExpected(type)
+          popExpected(Type.I32)
+          break
+        }
+
+        case Op.memory_size:
+          readZeroByte()
+          memory(0)
+          push(Type.I32)
+          break
+
+        case Op.memory_grow:
+          readZeroByte()
+          memory(0)
+          popExpected(Type.I32)
+          push(Type.I32)
+          break
+
+        case Op.i32_const:
+          readSignedLEB(32)
+          push(Type.I32)
+          break
+
+        case Op.i64_const:
+          readSignedLEB(64)
+          push(Type.I64)
+          break
+
+        case Op.f32_const:
+          skipBytes(4)
+          push(Type.F32)
+          break
+
+        case Op.f64_const:
+          skipBytes(8)
+          push(Type.F64)
+          break
+
+        case Op.ref_null:
+          push(readRefType())
+          break
+
+        case Op.ref_is_null: {
+          const type = pop()
+          if (type !== Unknown && !isRefType(type)) error('Type mismatch: "ref.is_null" requires a reference')
+          push(Type.I32)
+          break
+        }
+
+        case Op.ref_func: {
+          const index = readU32LEB()
+          func(index)
+
+          // Function bodies may only refer to functions that are referenced
+          // somewhere outside of a function body (e.g. in an element segment)
+          if (isConstant) declaredFuncs.add(index)
+          else if (!declaredFuncs.has(index)) error(`Undeclared function reference: ${index}`)
+          push(Type.FuncRef)
+          break
+        }
+
+        case 0xFC: {
+          const subOp = readU32LEB()
+          switch (subOp) {
+            case Op.i32_trunc_sat_f32_s:
+            case Op.i32_trunc_sat_f32_u:
+            case Op.i32_trunc_sat_f64_s:
+            case Op.i32_trunc_sat_f64_u:
+            case Op.i64_trunc_sat_f32_s:
+            case Op.i64_trunc_sat_f32_u:
+            case Op.i64_trunc_sat_f64_s:
+            case Op.i64_trunc_sat_f64_u:
+              popExpected(subOp & 2 ? Type.F64 : Type.F32)
+              push(subOp & 4 ? Type.I64 : Type.I32)
+              break
+
+            case Op.memory_init:
+              dataSegment(readU32LEB())
+              readZeroByte()
+              memory(0)
+              popTypes([Type.I32, Type.I32, Type.I32])
+              break
+
+            case Op.data_drop:
+              dataSegment(readU32LEB())
+              break
+
+            case Op.memory_copy:
+              readZeroByte()
+              readZeroByte()
+              memory(0)
+              popTypes([Type.I32, Type.I32, Type.I32])
+              break
+
+            case Op.memory_fill:
+              readZeroByte()
+              memory(0)
+              popTypes([Type.I32, Type.I32, Type.I32])
+              break
+
+            case Op.table_init: {
+              const type = elementSegment(readU32LEB())
+              if (table(readU32LEB()) !== type) error('Type mismatch: "table.init" element type')
+              popTypes([Type.I32, Type.I32, Type.I32])
+              break
+            }
+
+            case Op.elem_drop:
+              elementSegment(readU32LEB())
+              break
+
+            case Op.table_copy:
+              if (table(readU32LEB()) !== table(readU32LEB())) error('Type mismatch: "table.copy" element type')
+              popTypes([Type.I32, Type.I32, Type.I32])
+              break
+
+            case Op.table_grow: {
+              const type = table(readU32LEB())
+              popExpected(Type.I32)
+              popExpected(type)
+              push(Type.I32)
+              break
+            }
+
+            case 0x10: // "table.size"
+              table(readU32LEB())
+              push(Type.I32)
+              break
+
+            case 0x11: { // "table.fill"
+              const type = table(readU32LEB())
+              popExpected(Type.I32)
+              popExpected(type)
+              popExpected(Type.I32)
+              break
+            }
+
+            default:
+              error('Illegal opcode: 0xFC' + subOp.toString(16).padStart(2, '0'))
+          }
+          break
+        }
+
+        default: {
+          // Everything else is described by "metaTable" (e.g. "i32.add")
+          const flags = metaTable[op]
+          if (flags & MetaFlag.HasAlign) {
+            const align = readU32LEB()
+            readU32LEB() // Skip over the offset
+            memory(0)
+            if (align > alignTable[op]) error('Alignment must not be larger than natural')
+            if (flags & MetaFlag.Push) {
+              popExpected(Type.I32)
+              push(resultTypeTable[op])
+            } else {
+              popExpected(operandTypeTable[op])
+              popExpected(Type.I32)
+            }
+          } else if (flags & MetaFlag.Simple && resultTypeTable[op]) {
+            for (let i = flags & MetaFlag.PopMask; i > 0; i--) popExpected(operandTypeTable[op])
+            push(resultTypeTable[op])
+          } else {
+            error('Illegal opcode: 0x' + op.toString(16).padStart(2, '0'))
+          }
+        }
+      }
+    }
+  }
+
+  const validateConstantExpression = (type: Type, globalCount: number): void => {
+    validateExpression([], [type], globalCount)
+  }
+
+  if (bytes.length < 4 || bytes[0] !== 0x00 || bytes[1] !== 0x61 || bytes[2] !== 0x73 || bytes[3] !== 0x6D) error('Magic header not detected')
+  ptr = 4
+  if (bytes.length < 8 || bytes[4] !== 1 || bytes[5] !== 0 || bytes[6] !== 0 || bytes[7] !== 0) error('Unknown binary version')
+  ptr = 8
+
+  // Non-custom sections must appear in this order (note that the data count
+  // section comes before the code section even though its id is larger). This
+  // isn't a top-level constant because "parse.ts" imports this file, so the
+  // "Section" enum isn't defined yet when this file is first evaluated.
+  const sectionOrder = [
+    Section.Type,
+    Section.Import,
+    Section.Function,
+    Section.Table,
+    Section.Memory,
+    Section.Global,
+    Section.Export,
+    Section.Start,
+    Section.Element,
+    Section.DataCount,
+    Section.Code,
+    Section.Data,
+  ]
+  let nextSectionOrder = 0
+  let hasDataSection = false
+
+  while (ptr < bytes.length) {
+    end = bytes.length
+    const sectionType: Section = readByte()
+    const contentsSize = readU32LEB()
+    if (contentsSize > bytes.length - ptr) error('Section extends past the end of the file')
+    const sectionEnd = end = ptr + contentsSize
+
+    if (sectionType !== Section.Custom) {
+      const order = sectionOrder.indexOf(sectionType)
+      if (order < 0) error('Malformed section id: ' + sectionType)
+      if (order < nextSectionOrder) error('Unexpected section (sections must be in order and must not be repeated)')
+      nextSectionOrder = order + 1
+    }
+
+    switch (sectionType) {
+      case Section.Custom:
+        readName()
+        ptr = sectionEnd
+        break
+
+      case Section.Type:
+        for (let i = 0, count = readU32LEB(); i < count; i++) {
+          if (readByte() !== Type.Func) error('Malformed function type')
+          typeSection.push([readValueTypes(), readValueTypes()])
+        }
+        break
+
+      case Section.Import:
+        for (let i = 0, count = readU32LEB(); i < count; i++) {
+          readName()
+          readName()
+          const desc: Desc = readByte()
+          if (desc === Desc.Func) {
+            const index = readU32LEB()
+            funcType(index)
+            funcs.push(index)
+          } else if (desc === Desc.Table) {
+            tables.push(readRefType())
+            readLimits(0xFFFF_FFFF, 'table')
+          } else if (desc === Desc.Mem) {
+            readLimits(0x1_0000, 'memory')
+            addMemory()
+          } else if (desc === Desc.Global) {
+            globals.push([readValueType(), readMutability()])
+            importedGlobalCount++
+          } else {
+            error('Malformed import kind: ' + desc)
+          }
+        }
+        break
+
+      case Section.Function:
+        definedFuncCount = readU32LEB()
+        for (let i = 0; i < definedFuncCount; i++) {
+          const index = readU32LEB()
+          funcType(index)
+          funcs.push(index)
+        }
+        break
+
+      case Section.Table:
+        for (let i = 0, count = readU32LEB(); i < count; i++) {
+          tables.push(readRefType())
+          readLimits(0xFFFF_FFFF, 'table')
+        }
+        break
+
+      case Section.Memory:
+        for (let i = 0, count = readU32LEB(); i < count; i++) {
+          readLimits(0x1_0000, 'memory')
+          addMemory()
+        }
+        break
+
+      case Section.Global:
+        for (let i = 0, count = readU32LEB(); i < count; i++) {
+          const type = readValueType()
+          const mutable = readMutability()
+          validateConstantExpression(type, importedGlobalCount)
+          globals.push([type, mutable])
+        }
+        break
+
+      case Section.Export: {
+        const names = new Set<string>()
+        for (let i = 0, count = readU32LEB(); i < count; i++) {
+          const name = readName()
+          if (names.has(name)) error(`Duplicate export name: ${JSON.stringify(name)}`)
+          names.add(name)
+          const desc: Desc = readByte()
+          const index = readU32LEB()
+          if (desc === Desc.Func) {
+            func(index)
+            declaredFuncs.add(index)
+          }
+          else if (desc === Desc.Table) table(index)
+          else if (desc === Desc.Mem) memory(index)
+          else if (desc === Desc.Global) {
+            if (index >= globals.length) error(`Unknown global: ${index}`)
+          }
+          else error('Malformed export kind: ' + desc)
+        }
+        break
+      }
+
+      case Section.Start: {
+        const [argTypes, returnTypes] = func(readU32LEB())
+        if (argTypes.length || returnTypes.length) error('The start function must not have arguments or results')
+        break
+      }
+
+      case Section.Element:
+        for (let i = 0, count = readU32LEB(); i < count; i++) {
+          const flags: ElementFlag = readU32LEB()
+          if (flags > 7) error('Malformed element segment kind: ' + flags)
+          const isActive = !(flags & ElementFlag.PassiveOrDeclarative)
+          const tableIndex = isActive && flags & ElementFlag.TableIndexOrDeclarative ? readU32LEB() : 0
+          if (isActive) {
+            table(tableIndex)
+            validateConstantExpression(Type.I32, globals.length)
+          }
+          let type = Type.FuncRef
+          if (flags & (ElementFlag.PassiveOrDeclarative | ElementFlag.TableIndexOrDeclarative)) {
+            if (flags & ElementFlag.Expressions) type = readRefType()
+            else if (readByte() !== 0) error('Malformed element kind')
+          }
+          for (let j = 0, itemCount = readU32LEB(); j < itemCount; j++) {
+            if (flags & ElementFlag.Expressions) validateConstantExpression(type, globals.length)
+            else {
+              const index = readU32LEB()
+              func(index)
+              declaredFuncs.add(index)
+            }
+          }
+          if (isActive && tables[tableIndex] !== type) error('Type mismatch: element segment type')
+          elementTypes.push(type)
+        }
+        break
+
+      case Section.DataCount:
+        dataCount = readU32LEB()
+        break
+
+      case Section.Code:
+        codeCount = readU32LEB()
+        if (codeCount !== definedFuncCount) error('Function and code section have inconsistent lengths')
+        for (let i = 0; i < codeCount; i++) {
+          const bodySize = readU32LEB()
+          if (bodySize > sectionEnd - ptr) error('Function body extends past the end of the section')
+          const bodyEnd = end = ptr + bodySize
+          const [argTypes, returnTypes] = typeSection[funcs[funcs.length - codeCount + i]]
+          const localRuns: [count: number, type: Type][] = argTypes.map(type => [1, type])
+          let localCount = argTypes.length
+          for (let j = 0, runCount = readU32LEB(); j < runCount; j++) {
+            const count = readU32LEB()
+            if ((localCount += count) > 0xFFFF_FFFF) error('Too many locals')
+            localRuns.push([count, readValueType()])
+          }
+          validateExpression(localRuns, returnTypes, -1)
+          if (ptr !== bodyEnd) error('Function body has extra bytes after the final "end"')
+          end = sectionEnd
+        }
+        break
+
+      case Section.Data: {
+        const count = readU32LEB()
+        if (dataCount >= 0 && count !== dataCount) error('Data count and data section have inconsistent lengths')
+        hasDataSection = true
+        for (let i = 0; i < count; i++) {
+          const flags: SegmentFlag = readU32LEB()
+          if (flags > 2) error('Malformed data segment kind: ' + flags)
+          if (!(flags & SegmentFlag.Passive)) {
+            memory(flags & SegmentFlag.MemoryIndex ? readU32LEB() : 0)
+            validateConstantExpression(Type.I32, globals.length)
+          }
+          skipBytes(readU32LEB())
+        }
+        break
+      }
+    }
+
+    if (ptr !== sectionEnd) error('Section size mismatch')
+  }
+
+  if (codeCount !== definedFuncCount) error('Function and code section have inconsistent lengths')
+  if (dataCount > 0 && !hasDataSection) error('Data count and data section have inconsistent lengths')
+}
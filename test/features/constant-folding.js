@@ -0,0 +1,94 @@
+// Expressions with constant operands and algebraic identities must keep the
+// exact WebAssembly semantics when they are simplified: integers wrap, "f32"
+// results are rounded, NaN and -0 are preserved, and traps are left in place
+// (module
+//   (func (export "i32_add_wrap") (result i32) (i32.add (i32.const 0x7FFFFFFF) (i32.const 1)))
+//   (func (export "i32_mul_wrap") (result i32) (i32.mul (i32.const 0x12345678) (i32.const 0x9ABCDEF)))
+//   (func (export "i32_shl_mod") (result i32) (i32.shl (i32.const 3) (i32.const 33)))
+//   (func (export "i32_rotl") (result i32) (i32.rotl (i32.const 0x80000001) (i32.const 1)))
+//   (func (export "i32_div_u") (result i32) (i32.div_u (i32.const -1) (i32.const 2)))
+//   (func (export "i32_rem_s_min") (result i32) (i32.rem_s (i32.const 0x80000000) (i32.const -1)))
+//   (func (export "i32_div_zero") (result i32) (i32.div_s (i32.const 1) (i32.const 0)))
+//   (func (export "i32_div_overflow") (result i32) (i32.div_s (i32.const 0x80000000) (i32.const -1)))
+//   (func (export "i64_shl_mod") (result i64) (i64.shl (i64.const 1) (i64.const 65)))
+//   (func (export "i64_mul_wrap") (result i64) (i64.mul (i64.const 0x100000001) (i64.const 0xFFFFFFFF00000001)))
+//   (func (export "i64_div_u") (result i64) (i64.div_u (i64.const -1) (i64.const 3)))
+//   (func (export "i64_shr_s") (result i64) (i64.shr_s (i64.const -8) (i64.const 1)))
+//   (func (export "i64_rem_zero") (result i64) (i64.rem_u (i64.const 1) (i64.const 0)))
+//   (func (export "eqz_eqz") (param $x i32) (result i32) (i32.eqz (i32.eqz (local.get $x))))
+//   (func (export "and_ones") (param $x i32) (result i32) (i32.and (local.get $x) (i32.const -1)))
+//   (func (export "mul_one") (param $x i32) (result i32) (i32.mul (local.get $x) (i32.const 1)))
+//   (func (export "or_zero") (param $x i32) (result i32) (i32.or (local.get $x) (i32.const 0)))
+//   (func (export "mul_zero") (param $x i32) (result i32) (i32.mul (local.get $x) (i32.const 0)))
+//   (func (export "i64_and_ones") (param $x i64) (result i64) (i64.and (local.get $x) (i64.const -1)))
+//   (func (export "lt_wrap") (param $x i32) (result i32)
+//     (i32.lt_s (i32.add (local.get $x) (i32.const 1)) (i32.const 0)))
+//   (func (export "lt_u_zero") (param $x i32) (result i32) (i32.lt_u (local.get $x) (i32.const 0)))
+//   (func (export "ge_u_zero") (param $x i32) (result i32) (i32.ge_u (local.get $x) (i32.const 0)))
+//   (func (export "cmp_nested") (param $x i32) (result i32)
+//     (i32.eq (i32.gt_s (local.get $x) (i32.const 5)) (i32.const 0)))
+//   (func (export "f32_round") (result i32)
+//     (i32.reinterpret_f32 (f32.add (f32.const 0.1) (f32.const 0.2))))
+//   (func (export "f32_overflow") (result f32) (f32.mul (f32.const 3e38) (f32.const 10)))
+//   (func (export "f32_div") (result i32)
+//     (i32.reinterpret_f32 (f32.div (f32.const 1) (f32.const 3))))
+//   (func (export "f64_nan") (result i32)
+//     (f64.ne (f64.min (f64.const nan) (f64.const 0)) (f64.min (f64.const nan) (f64.const 0))))
+//   (func (export "f64_neg_zero") (result i64)
+//     (i64.reinterpret_f64 (f64.add (f64.const -0) (f64.const -0))))
+//   (func (export "f64_min_zero") (result i64)
+//     (i64.reinterpret_f64 (f64.min (f64.const 0) (f64.const -0))))
+//   (func (export "f64_add_zero") (param $x f64) (result i64)
+//     (i64.reinterpret_f64 (f64.add (local.get $x) (f64.const 0))))
+//   (func (export "f64_sub_zero") (param $x f64) (result i64)
+//     (i64.reinterpret_f64 (f64.sub (local.get $x) (f64.const 0))))
+//   (func (export "f64_mul_zero") (param $x f64) (result i64)
+//     (i64.reinterpret_f64 (f64.mul (local.get $x) (f64.const 0))))
+//   (func (export "f64_mul_zero_nan") (param $x f64) (result i32) (local $y f64)
+//     (local.set $y (f64.mul (local.get $x) (f64.const 0)))
+//     (f64.ne (local.get $y) (local.get $y)))
+//   (func (export "trunc_nan") (result i32) (i32.trunc_f32_s (f32.const nan)))
+//   (func (export "trunc_sat") (result i32) (i32.trunc_sat_f64_s (f64.const 1e10)))
+//   (func (export "convert") (result f32) (f32.convert_i32_s (i32.const 16777217))))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x21\x07\x60\x00\x01\x7f\x60\x00\x01\x7e\x60\x01\x7f\x01\x7f\x60\x01\x7e\x01\x7e\x60\x00\x01\x7d\x60\x01\x7c\x01\x7e\x60\x01\x7c\x01\x7f\x03\x25\x24\x00\x00\x00\x00\x00\x00\x00\x00\x01\x01\x01\x01\x01\x02\x02\x02\x02\x02\x03\x02\x02\x02\x02\x00\x04\x00\x00\x01\x01\x05\x05\x05\x06\x00\x00\x04\x07\xdb\x03\x24\x0c\x69\x33\x32\x5f\x61\x64\x64\x5f\x77\x72\x61\x70\x00\x00\x0c\x69\x33\x32\x5f\x6d\x75\x6c\x5f\x77\x72\x61\x70\x00\x01\x0b\x69\x33\x32\x5f\x73\x68\x6c\x5f\x6d\x6f\x64\x00\x02\x08\x69\x33\x32\x5f\x72\x6f\x74\x6c\x00\x03\x09\x69\x33\x32\x5f\x64\x69\x76\x5f\x75\x00\x04\x0d\x69\x33\x32\x5f\x72\x65\x6d\x5f\x73\x5f\x6d\x69\x6e\x00\x05\x0c\x69\x33\x32\x5f\x64\x69\x76\x5f\x7a\x65\x72\x6f\x00\x06\x10\x69\x33\x32\x5f\x64\x69\x76\x5f\x6f\x76\x65\x72\x66\x6c\x6f\x77\x00\x07\x0b\x69\x36\x34\x5f\x73\x68\x6c\x5f\x6d\x6f\x64\x00\x08\x0c\x69\x36\x34\x5f\x6d\x75\x6c\x5f\x77\x72\x61\x70\x00\x09\x09\x69\x36\x34\x5f\x64\x69\x76\x5f\x75\x00\x0a\x09\x69\x36\x34\x5f\x73\x68\x72\x5f\x73\x00\x0b\x0c\x69\x36\x34\x5f\x72\x65\x6d\x5f\x7a\x65\x72\x6f\x00\x0c\x07\x65\x71\x7a\x5f\x65\x71\x7a\x00\x0d\x08\x61\x6e\x64\x5f\x6f\x6e\x65\x73\x00\x0e\x07\x6d\x75\x6c\x5f\x6f\x6e\x65\x00\x0f\x07\x6f\x72\x5f\x7a\x65\x72\x6f\x00\x10\x08\x6d\x75\x6c\x5f\x7a\x65\x72\x6f\x00\x11\x0c\x69\x36\x34\x5f\x61\x6e\x64\x5f\x6f\x6e\x65\x73\x00\x12\x07\x6c\x74\x5f\x77\x72\x61\x70\x00\x13\x09\x6c\x74\x5f\x75\x5f\x7a\x65\x72\x6f\x00\x14\x09\x67\x65\x5f\x75\x5f\x7a\x65\x72\x6f\x00\x15\x0a\x63\x6d\x70\x5f\x6e\x65\x73\x74\x65\x64\x00\x16\x09\x66\x33\x32\x5f\x72\x6f\x75\x6e\x64\x00\x17\x0c\x66\x33\x32\x5f\x6f\x76\x65\x72\x66\x6c\x6f\x77\x00\x18\x07\x66\x33\x32\x5f\x64\x69\x76\x00\x19\x07\x66\x36\x34\x5f\x6e\x61\x6e\x00\x1a\x0c\x66\x36\x34\x5f\x6e\x65\x67\x5f\x7a\x65\x72\x6f\x00\x1b\x0c\x66\x36\x34\x5f\x6d\x69\x6e\x5f\x7a\x65\x72\x6f\x00\x1c\x0c\x66\x36\x34\x5f\x61\x64\x64\x5f\x7a\x65\x72\x6f\x00\x1d\x0c\x66\x36\x34\x5f\x73\x75\x62\x5f\x7a\x65\x72\x6f\x00\x1e\x0c\x66\x36\x34\x5f\x6d\x75\x6c\x5f\x7a\x65\x72\x6f\x00\x1f\x10\x66\x36\x34\x5f\x6d\x75\x6c\x5f\x7a\x65\x72\x6f\x5f\x6e\x61\x6e\x00\x20\x09\x74\x72\x75\x6e\x63\x5f\x6e\x61\x6e\x00\x21\x09\x74\x72\x75\x6e\x63\x5f\x73\x61\x74\x00\x22\x07\x63\x6f\x6e\x76\x65\x72\x74\x00\x23\x0a\xcb\x03\x24\x0b\x00\x41\xff\xff\xff\xff\x07\x41\x01\x6a\x0b\x0f\x00\x41\xf8\xac\xd1\x91\x01\x41\xef\x9b\xaf\xcd\x00\x6c\x0b\x07\x00\x41\x03\x41\x21\x74\x0b\x0b\x00\x41\x81\x80\x80\x80\x78\x41\x01\x77\x0b\x07\x00\x41\x7f\x41\x02\x6e\x0b\x0b\x00\x41\x80\x80\x80\x80\x78\x41\x7f\x6f\x0b\x07\x00\x41\x01\x41\x00\x6d\x0b\x0b\x00\x41\x80\x80\x80\x80\x78\x41\x7f\x6d\x0b\x08\x00\x42\x01\x42\xc1\x00\x86\x0b\x0f\x00\x42\x81\x80\x80\x80\x10\x42\x81\x80\x80\x80\x70\x7e\x0b\x07\x00\x42\x7f\x42\x03\x80\x0b\x07\x00\x42\x78\x42\x01\x87\x0b\x07\x00\x42\x01\x42\x00\x82\x0b\x06\x00\x20\x00\x45\x45\x0b\x07\x00\x20\x00\x41\x7f\x71\x0b\x07\x00\x20\x00\x41\x01\x6c\x0b\x07\x00\x20\x00\x41\x00\x72\x0b\x07\x00\x20\x00\x41\x00\x6c\x0b\x07\x00\x20\x00\x42\x7f\x83\x0b\x0a\x00\x20\x00\x41\x01\x6a\x41\x00\x48\x0b\x07\x00\x20\x00\x41\x00\x49\x0b\x07\x00\x20\x00\x41\x00\x4f\x0b\x0a\x00\x20\x00\x41\x05\x4a\x41\x00\x46\x0b\x0e\x00\x43\xcd\xcc\xcc\x3d\x43\xcd\xcc\x4c\x3e\x92\xbc\x0b\x0d\x00\x43\xe6\xb1\x61\x7f\x43\x00\x00\x20\x41\x94\x0b\x0e\x00\x43\x00\x00\x80\x3f\x43\x00\x00\x40\x40\x95\xbc\x0b\x29\x00\x44\x00\x00\x00\x00\x00\x00\xf8\x7f\x44\x00\x00\x00\x00\x00\x00\x00\x00\xa4\x44\x00\x00\x00\x00\x00\x00\xf8\x7f\x44\x00\x00\x00\x00\x00\x00\x00\x00\xa4\x62\x0b\x16\x00\x44\x00\x00\x00\x00\x00\x00\x00\x80\x44\x00\x00\x00\x00\x00\x00\x00\x80\xa0\xbd\x0b\x16\x00\x44\x00\x00\x00\x00\x00\x00\x00\x00\x44\x00\x00\x00\x00\x00\x00\x00\x80\xa4\xbd\x0b\x0f\x00\x20\x00\x44\x00\x00\x00\x00\x00\x00\x00\x00\xa0\xbd\x0b\x0f\x00\x20\x00\x44\x00\x00\x00\x00\x00\x00\x00\x00\xa1\xbd\x0b\x0f\x00\x20\x00\x44\x00\x00\x00\x00\x00\x00\x00\x00\xa2\xbd\x0b\x17\x01\x01\x7c\x20\x00\x44\x00\x00\x00\x00\x00\x00\x00\x00\xa2\x21\x01\x20\x01\x20\x01\x62\x0b\x08\x00\x43\x00\x00\xc0\x7f\xa8\x0b\x0d\x00\x44\x00\x00\x00\x20\x5f\xa0\x02\x42\xfc\x02\x0b\x08\x00\x41\x81\x80\x80\x08\xb2\x0b")
+assert_return(() => call($1, "i32_add_wrap", []), -2_147_483_648);
+assert_return(() => call($1, "i32_mul_wrap", []), Math.imul(0x12345678, 0x9ABCDEF));
+assert_return(() => call($1, "i32_shl_mod", []), 6);
+assert_return(() => call($1, "i32_rotl", []), 3);
+assert_return(() => call($1, "i32_div_u", []), 2_147_483_647);
+assert_return(() => call($1, "i32_rem_s_min", []), 0);
+assert_trap(() => call($1, "i32_div_zero", []));
+assert_trap(() => call($1, "i32_div_overflow", []));
+assert_return(() => call($1, "i64_shl_mod", []), 2n);
+assert_return(() => call($1, "i64_mul_wrap", []), 1n);
+assert_return(() => call($1, "i64_div_u", []), 6_148_914_691_236_517_205n);
+assert_return(() => call($1, "i64_shr_s", []), -4n);
+assert_trap(() => call($1, "i64_rem_zero", []));
+assert_return(() => call($1, "eqz_eqz", [5]), 1);
+assert_return(() => call($1, "eqz_eqz", [0]), 0);
+assert_return(() => call($1, "and_ones", [-7]), -7);
+assert_return(() => call($1, "mul_one", [-7]), -7);
+assert_return(() => call($1, "or_zero", [-7]), -7);
+assert_return(() => call($1, "mul_zero", [-7]), 0);
+assert_return(() => call($1, "i64_and_ones", [-7n]), -7n);
+assert_return(() => call($1, "lt_wrap", [2_147_483_647]), 1);
+assert_return(() => call($1, "lt_wrap", [-1]), 0);
+assert_return(() => call($1, "lt_wrap", [-2]), 1);
+assert_return(() => call($1, "lt_u_zero", [-1]), 0);
+assert_return(() => call($1, "ge_u_zero", [-1]), 1);
+assert_return(() => call($1, "cmp_nested", [6]), 0);
+assert_return(() => call($1, "cmp_nested", [5]), 1);
+assert_return(() => call($1, "f32_round", []), 1_050_253_722);
+assert_return(() => call($1, "f32_overflow", []), Infinity);
+assert_return(() => call($1, "f32_div", []), 1_051_372_203);
+assert_return(() => call($1, "f64_nan", []), 1);
+assert_return(() => call($1, "f64_neg_zero", []), -9_223_372_036_854_775_808n);
+assert_return(() => call($1, "f64_min_zero", []), -9_223_372_036_854_775_808n);
+assert_return(() => call($1, "f64_add_zero", [-0]), 0n);
+assert_return(() => call($1, "f64_sub_zero", [-0]), -9_223_372_036_854_775_808n);
+assert_return(() => call($1, "f64_mul_zero", [-1]), -9_223_372_036_854_775_808n);
+assert_return(() => call($1, "f64_mul_zero_nan", [Infinity]), 1);
+assert_return(() => call($1, "f64_mul_zero_nan", [-1]), 0);
+assert_trap(() => call($1, "trunc_nan", []));
+assert_return(() => call($1, "trunc_sat", []), 2_147_483_647);
+assert_return(() => call($1, "convert", []), 16_777_216);
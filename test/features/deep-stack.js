@@ -0,0 +1,200 @@
+// More than 255 values can be on the stack at once, including across blocks
+// (module
+//   (func (export "i32") (param $x i32) (result i32)
+//     (i32.add (local.get $x) (i32.const 0)) (i32.add (local.get $x) (i32.const 1)) (i32.add (local.get $x) (i32.const 2)) (i32.add (local.get $x) (i32.const 3))
+//     (i32.add (local.get $x) (i32.const 4)) (i32.add (local.get $x) (i32.const 5)) (i32.add (local.get $x) (i32.const 6)) (i32.add (local.get $x) (i32.const 7))
+//     (i32.add (local.get $x) (i32.const 8)) (i32.add (local.get $x) (i32.const 9)) (i32.add (local.get $x) (i32.const 10)) (i32.add (local.get $x) (i32.const 11))
+//     (i32.add (local.get $x) (i32.const 12)) (i32.add (local.get $x) (i32.const 13)) (i32.add (local.get $x) (i32.const 14)) (i32.add (local.get $x) (i32.const 15))
+//     (i32.add (local.get $x) (i32.const 16)) (i32.add (local.get $x) (i32.const 17)) (i32.add (local.get $x) (i32.const 18)) (i32.add (local.get $x) (i32.const 19))
+//     (i32.add (local.get $x) (i32.const 20)) (i32.add (local.get $x) (i32.const 21)) (i32.add (local.get $x) (i32.const 22)) (i32.add (local.get $x) (i32.const 23))
+//     (i32.add (local.get $x) (i32.const 24)) (i32.add (local.get $x) (i32.const 25)) (i32.add (local.get $x) (i32.const 26)) (i32.add (local.get $x) (i32.const 27))
+//     (i32.add (local.get $x) (i32.const 28)) (i32.add (local.get $x) (i32.const 29)) (i32.add (local.get $x) (i32.const 30)) (i32.add (local.get $x) (i32.const 31))
+//     (i32.add (local.get $x) (i32.const 32)) (i32.add (local.get $x) (i32.const 33)) (i32.add (local.get $x) (i32.const 34)) (i32.add (local.get $x) (i32.const 35))
+//     (i32.add (local.get $x) (i32.const 36)) (i32.add (local.get $x) (i32.const 37)) (i32.add (local.get $x) (i32.const 38)) (i32.add (local.get $x) (i32.const 39))
+//     (i32.add (local.get $x) (i32.const 40)) (i32.add (local.get $x) (i32.const 41)) (i32.add (local.get $x) (i32.const 42)) (i32.add (local.get $x) (i32.const 43))
+//     (i32.add (local.get $x) (i32.const 44)) (i32.add (local.get $x) (i32.const 45)) (i32.add (local.get $x) (i32.const 46)) (i32.add (local.get $x) (i32.const 47))
+//     (i32.add (local.get $x) (i32.const 48)) (i32.add (local.get $x) (i32.const 49)) (i32.add (local.get $x) (i32.const 50)) (i32.add (local.get $x) (i32.const 51))
+//     (i32.add (local.get $x) (i32.const 52)) (i32.add (local.get $x) (i32.const 53)) (i32.add (local.get $x) (i32.const 54)) (i32.add (local.get $x) (i32.const 55))
+//     (i32.add (local.get $x) (i32.const 56)) (i32.add (local.get $x) (i32.const 57)) (i32.add (local.get $x) (i32.const 58)) (i32.add (local.get $x) (i32.const 59))
+//     (i32.add (local.get $x) (i32.const 60)) (i32.add (local.get $x) (i32.const 61)) (i32.add (local.get $x) (i32.const 62)) (i32.add (local.get $x) (i32.const 63))
+//     (i32.add (local.get $x) (i32.const 64)) (i32.add (local.get $x) (i32.const 65)) (i32.add (local.get $x) (i32.const 66)) (i32.add (local.get $x) (i32.const 67))
+//     (i32.add (local.get $x) (i32.const 68)) (i32.add (local.get $x) (i32.const 69)) (i32.add (local.get $x) (i32.const 70)) (i32.add (local.get $x) (i32.const 71))
+//     (i32.add (local.get $x) (i32.const 72)) (i32.add (local.get $x) (i32.const 73)) (i32.add (local.get $x) (i32.const 74)) (i32.add (local.get $x) (i32.const 75))
+//     (i32.add (local.get $x) (i32.const 76)) (i32.add (local.get $x) (i32.const 77)) (i32.add (local.get $x) (i32.const 78)) (i32.add (local.get $x) (i32.const 79))
+//     (i32.add (local.get $x) (i32.const 80)) (i32.add (local.get $x) (i32.const 81)) (i32.add (local.get $x) (i32.const 82)) (i32.add (local.get $x) (i32.const 83))
+//     (i32.add (local.get $x) (i32.const 84)) (i32.add (local.get $x) (i32.const 85)) (i32.add (local.get $x) (i32.const 86)) (i32.add (local.get $x) (i32.const 87))
+//     (i32.add (local.get $x) (i32.const 88)) (i32.add (local.get $x) (i32.const 89)) (i32.add (local.get $x) (i32.const 90)) (i32.add (local.get $x) (i32.const 91))
+//     (i32.add (local.get $x) (i32.const 92)) (i32.add (local.get $x) (i32.const 93)) (i32.add (local.get $x) (i32.const 94)) (i32.add (local.get $x) (i32.const 95))
+//     (i32.add (local.get $x) (i32.const 96)) (i32.add (local.get $x) (i32.const 97)) (i32.add (local.get $x) (i32.const 98)) (i32.add (local.get $x) (i32.const 99))
+//     (i32.add (local.get $x) (i32.const 100)) (i32.add (local.get $x) (i32.const 101)) (i32.add (local.get $x) (i32.const 102)) (i32.add (local.get $x) (i32.const 103))
+//     (i32.add (local.get $x) (i32.const 104)) (i32.add (local.get $x) (i32.const 105)) (i32.add (local.get $x) (i32.const 106)) (i32.add (local.get $x) (i32.const 107))
+//     (i32.add (local.get $x) (i32.const 108)) (i32.add (local.get $x) (i32.const 109)) (i32.add (local.get $x) (i32.const 110)) (i32.add (local.get $x) (i32.const 111))
+//     (i32.add (local.get $x) (i32.const 112)) (i32.add (local.get $x) (i32.const 113)) (i32.add (local.get $x) (i32.const 114)) (i32.add (local.get $x) (i32.const 115))
+//     (i32.add (local.get $x) (i32.const 116)) (i32.add (local.get $x) (i32.const 117)) (i32.add (local.get $x) (i32.const 118)) (i32.add (local.get $x) (i32.const 119))
+//     (i32.add (local.get $x) (i32.const 120)) (i32.add (local.get $x) (i32.const 121)) (i32.add (local.get $x) (i32.const 122)) (i32.add (local.get $x) (i32.const 123))
+//     (i32.add (local.get $x) (i32.const 124)) (i32.add (local.get $x) (i32.const 125)) (i32.add (local.get $x) (i32.const 126)) (i32.add (local.get $x) (i32.const 127))
+//     (i32.add (local.get $x) (i32.const 128)) (i32.add (local.get $x) (i32.const 129)) (i32.add (local.get $x) (i32.const 130)) (i32.add (local.get $x) (i32.const 131))
+//     (i32.add (local.get $x) (i32.const 132)) (i32.add (local.get $x) (i32.const 133)) (i32.add (local.get $x) (i32.const 134)) (i32.add (local.get $x) (i32.const 135))
+//     (i32.add (local.get $x) (i32.const 136)) (i32.add (local.get $x) (i32.const 137)) (i32.add (local.get $x) (i32.const 138)) (i32.add (local.get $x) (i32.const 139))
+//     (i32.add (local.get $x) (i32.const 140)) (i32.add (local.get $x) (i32.const 141)) (i32.add (local.get $x) (i32.const 142)) (i32.add (local.get $x) (i32.const 143))
+//     (i32.add (local.get $x) (i32.const 144)) (i32.add (local.get $x) (i32.const 145)) (i32.add (local.get $x) (i32.const 146)) (i32.add (local.get $x) (i32.const 147))
+//     (i32.add (local.get $x) (i32.const 148)) (i32.add (local.get $x) (i32.const 149)) (i32.add (local.get $x) (i32.const 150)) (i32.add (local.get $x) (i32.const 151))
+//     (i32.add (local.get $x) (i32.const 152)) (i32.add (local.get $x) (i32.const 153)) (i32.add (local.get $x) (i32.const 154)) (i32.add (local.get $x) (i32.const 155))
+//     (i32.add (local.get $x) (i32.const 156)) (i32.add (local.get $x) (i32.const 157)) (i32.add (local.get $x) (i32.const 158)) (i32.add (local.get $x) (i32.const 159))
+//     (i32.add (local.get $x) (i32.const 160)) (i32.add (local.get $x) (i32.const 161)) (i32.add (local.get $x) (i32.const 162)) (i32.add (local.get $x) (i32.const 163))
+//     (i32.add (local.get $x) (i32.const 164)) (i32.add (local.get $x) (i32.const 165)) (i32.add (local.get $x) (i32.const 166)) (i32.add (local.get $x) (i32.const 167))
+//     (i32.add (local.get $x) (i32.const 168)) (i32.add (local.get $x) (i32.const 169)) (i32.add (local.get $x) (i32.const 170)) (i32.add (local.get $x) (i32.const 171))
+//     (i32.add (local.get $x) (i32.const 172)) (i32.add (local.get $x) (i32.const 173)) (i32.add (local.get $x) (i32.const 174)) (i32.add (local.get $x) (i32.const 175))
+//     (i32.add (local.get $x) (i32.const 176)) (i32.add (local.get $x) (i32.const 177)) (i32.add (local.get $x) (i32.const 178)) (i32.add (local.get $x) (i32.const 179))
+//     (i32.add (local.get $x) (i32.const 180)) (i32.add (local.get $x) (i32.const 181)) (i32.add (local.get $x) (i32.const 182)) (i32.add (local.get $x) (i32.const 183))
+//     (i32.add (local.get $x) (i32.const 184)) (i32.add (local.get $x) (i32.const 185)) (i32.add (local.get $x) (i32.const 186)) (i32.add (local.get $x) (i32.const 187))
+//     (i32.add (local.get $x) (i32.const 188)) (i32.add (local.get $x) (i32.const 189)) (i32.add (local.get $x) (i32.const 190)) (i32.add (local.get $x) (i32.const 191))
+//     (i32.add (local.get $x) (i32.const 192)) (i32.add (local.get $x) (i32.const 193)) (i32.add (local.get $x) (i32.const 194)) (i32.add (local.get $x) (i32.const 195))
+//     (i32.add (local.get $x) (i32.const 196)) (i32.add (local.get $x) (i32.const 197)) (i32.add (local.get $x) (i32.const 198)) (i32.add (local.get $x) (i32.const 199))
+//     (i32.add (local.get $x) (i32.const 200)) (i32.add (local.get $x) (i32.const 201)) (i32.add (local.get $x) (i32.const 202)) (i32.add (local.get $x) (i32.const 203))
+//     (i32.add (local.get $x) (i32.const 204)) (i32.add (local.get $x) (i32.const 205)) (i32.add (local.get $x) (i32.const 206)) (i32.add (local.get $x) (i32.const 207))
+//     (i32.add (local.get $x) (i32.const 208)) (i32.add (local.get $x) (i32.const 209)) (i32.add (local.get $x) (i32.const 210)) (i32.add (local.get $x) (i32.const 211))
+//     (i32.add (local.get $x) (i32.const 212)) (i32.add (local.get $x) (i32.const 213)) (i32.add (local.get $x) (i32.const 214)) (i32.add (local.get $x) (i32.const 215))
+//     (i32.add (local.get $x) (i32.const 216)) (i32.add (local.get $x) (i32.const 217)) (i32.add (local.get $x) (i32.const 218)) (i32.add (local.get $x) (i32.const 219))
+//     (i32.add (local.get $x) (i32.const 220)) (i32.add (local.get $x) (i32.const 221)) (i32.add (local.get $x) (i32.const 222)) (i32.add (local.get $x) (i32.const 223))
+//     (i32.add (local.get $x) (i32.const 224)) (i32.add (local.get $x) (i32.const 225)) (i32.add (local.get $x) (i32.const 226)) (i32.add (local.get $x) (i32.const 227))
+//     (i32.add (local.get $x) (i32.const 228)) (i32.add (local.get $x) (i32.const 229)) (i32.add (local.get $x) (i32.const 230)) (i32.add (local.get $x) (i32.const 231))
+//     (i32.add (local.get $x) (i32.const 232)) (i32.add (local.get $x) (i32.const 233)) (i32.add (local.get $x) (i32.const 234)) (i32.add (local.get $x) (i32.const 235))
+//     (i32.add (local.get $x) (i32.const 236)) (i32.add (local.get $x) (i32.const 237)) (i32.add (local.get $x) (i32.const 238)) (i32.add (local.get $x) (i32.const 239))
+//     (i32.add (local.get $x) (i32.const 240)) (i32.add (local.get $x) (i32.const 241)) (i32.add (local.get $x) (i32.const 242)) (i32.add (local.get $x) (i32.const 243))
+//     (i32.add (local.get $x) (i32.const 244)) (i32.add (local.get $x) (i32.const 245)) (i32.add (local.get $x) (i32.const 246)) (i32.add (local.get $x) (i32.const 247))
+//     (i32.add (local.get $x) (i32.const 248)) (i32.add (local.get $x) (i32.const 249)) (i32.add (local.get $x) (i32.const 250)) (i32.add (local.get $x) (i32.const 251))
+//     (i32.add (local.get $x) (i32.const 252)) (i32.add (local.get $x) (i32.const 253)) (i32.add (local.get $x) (i32.const 254)) (i32.add (local.get $x) (i32.const 255))
+//     (i32.add (local.get $x) (i32.const 256)) (i32.add (local.get $x) (i32.const 257)) (i32.add (local.get $x) (i32.const 258)) (i32.add (local.get $x) (i32.const 259))
+//     (i32.add (local.get $x) (i32.const 260)) (i32.add (local.get $x) (i32.const 261)) (i32.add (local.get $x) (i32.const 262)) (i32.add (local.get $x) (i32.const 263))
+//     (i32.add (local.get $x) (i32.const 264)) (i32.add (local.get $x) (i32.const 265)) (i32.add (local.get $x) (i32.const 266)) (i32.add (local.get $x) (i32.const 267))
+//     (i32.add (local.get $x) (i32.const 268)) (i32.add (local.get $x) (i32.const 269)) (i32.add (local.get $x) (i32.const 270)) (i32.add (local.get $x) (i32.const 271))
+//     (i32.add (local.get $x) (i32.const 272)) (i32.add (local.get $x) (i32.const 273)) (i32.add (local.get $x) (i32.const 274)) (i32.add (local.get $x) (i32.const 275))
+//     (i32.add (local.get $x) (i32.const 276)) (i32.add (local.get $x) (i32.const 277)) (i32.add (local.get $x) (i32.const 278)) (i32.add (local.get $x) (i32.const 279))
+//     (i32.add (local.get $x) (i32.const 280)) (i32.add (local.get $x) (i32.const 281)) (i32.add (local.get $x) (i32.const 282)) (i32.add (local.get $x) (i32.const 283))
+//     (i32.add (local.get $x) (i32.const 284)) (i32.add (local.get $x) (i32.const 285)) (i32.add (local.get $x) (i32.const 286)) (i32.add (local.get $x) (i32.const 287))
+//     (i32.add (local.get $x) (i32.const 288)) (i32.add (local.get $x) (i32.const 289)) (i32.add (local.get $x) (i32.const 290)) (i32.add (local.get $x) (i32.const 291))
+//     (i32.add (local.get $x) (i32.const 292)) (i32.add (local.get $x) (i32.const 293)) (i32.add (local.get $x) (i32.const 294)) (i32.add (local.get $x) (i32.const 295))
+//     (i32.add (local.get $x) (i32.const 296)) (i32.add (local.get $x) (i32.const 297)) (i32.add (local.get $x) (i32.const 298)) (i32.add (local.get $x) (i32.const 299))
+//     (block (result i32) (br_if 0 (i32.const 5) (local.get $x)) (drop) (i32.const 6))
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add
+//     i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add i32.add)
+//   (func (export "i64") (param $x i32) (result i64)
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x)) (i64.extend_i32_s (local.get $x))
+//     (if (result i64) (local.get $x) (then (i64.const 0x100000000)) (else (i64.const -1)))
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add
+//     i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add i64.add))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x0b\x02\x60\x01\x7f\x01\x7f\x60\x01\x7f\x01\x7e\x03\x03\x02\x00\x01\x07\x0d\x02\x03\x69\x33\x32\x00\x00\x03\x69\x36\x34\x00\x01\x0a\xc7\x19\x02\x82\x10\x00\x20\x00\x41\x00\x6a\x20\x00\x41\x01\x6a\x20\x00\x41\x02\x6a\x20\x00\x41\x03\x6a\x20\x00\x41\x04\x6a\x20\x00\x41\x05\x6a\x20\x00\x41\x06\x6a\x20\x00\x41\x07\x6a\x20\x00\x41\x08\x6a\x20\x00\x41\x09\x6a\x20\x00\x41\x0a\x6a\x20\x00\x41\x0b\x6a\x20\x00\x41\x0c\x6a\x20\x00\x41\x0d\x6a\x20\x00\x41\x0e\x6a\x20\x00\x41\x0f\x6a\x20\x00\x41\x10\x6a\x20\x00\x41\x11\x6a\x20\x00\x41\x12\x6a\x20\x00\x41\x13\x6a\x20\x00\x41\x14\x6a\x20\x00\x41\x15\x6a\x20\x00\x41\x16\x6a\x20\x00\x41\x17\x6a\x20\x00\x41\x18\x6a\x20\x00\x41\x19\x6a\x20\x00\x41\x1a\x6a\x20\x00\x41\x1b\x6a\x20\x00\x41\x1c\x6a\x20\x00\x41\x1d\x6a\x20\x00\x41\x1e\x6a\x20\x00\x41\x1f\x6a\x20\x00\x41\x20\x6a\x20\x00\x41\x21\x6a\x20\x00\x41\x22\x6a\x20\x00\x41\x23\x6a\x20\x00\x41\x24\x6a\x20\x00\x41\x25\x6a\x20\x00\x41\x26\x6a\x20\x00\x41\x27\x6a\x20\x00\x41\x28\x6a\x20\x00\x41\x29\x6a\x20\x00\x41\x2a\x6a\x20\x00\x41\x2b\x6a\x20\x00\x41\x2c\x6a\x20\x00\x41\x2d\x6a\x20\x00\x41\x2e\x6a\x20\x00\x41\x2f\x6a\x20\x00\x41\x30\x6a\x20\x00\x41\x31\x6a\x20\x00\x41\x32\x6a\x20\x00\x41\x33\x6a\x20\x00\x41\x34\x6a\x20\x00\x41\x35\x6a\x20\x00\x41\x36\x6a\x20\x00\x41\x37\x6a\x20\x00\x41\x38\x6a\x20\x00\x41\x39\x6a\x20\x00\x41\x3a\x6a\x20\x00\x41\x3b\x6a\x20\x00\x41\x3c\x6a\x20\x00\x41\x3d\x6a\x20\x00\x41\x3e\x6a\x20\x00\x41\x3f\x6a\x20\x00\x41\xc0\x00\x6a\x20\x00\x41\xc1\x00\x6a\x20\x00\x41\xc2\x00\x6a\x20\x00\x41\xc3\x00\x6a\x20\x00\x41\xc4\x00\x6a\x20\x00\x41\xc5\x00\x6a\x20\x00\x41\xc6\x00\x6a\x20\x00\x41\xc7\x00\x6a\x20\x00\x41\xc8\x00\x6a\x20\x00\x41\xc9\x00\x6a\x20\x00\x41\xca\x00\x6a\x20\x00\x41\xcb\x00\x6a\x20\x00\x41\xcc\x00\x6a\x20\x00\x41\xcd\x00\x6a\x20\x00\x41\xce\x00\x6a\x20\x00\x41\xcf\x00\x6a\x20\x00\x41\xd0\x00\x6a\x20\x00\x41\xd1\x00\x6a\x20\x00\x41\xd2\x00\x6a\x20\x00\x41\xd3\x00\x6a\x20\x00\x41\xd4\x00\x6a\x20\x00\x41\xd5\x00\x6a\x20\x00\x41\xd6\x00\x6a\x20\x00\x41\xd7\x00\x6a\x20\x00\x41\xd8\x00\x6a\x20\x00\x41\xd9\x00\x6a\x20\x00\x41\xda\x00\x6a\x20\x00\x41\xdb\x00\x6a\x20\x00\x41\xdc\x00\x6a\x20\x00\x41\xdd\x00\x6a\x20\x00\x41\xde\x00\x6a\x20\x00\x41\xdf\x00\x6a\x20\x00\x41\xe0\x00\x6a\x20\x00\x41\xe1\x00\x6a\x20\x00\x41\xe2\x00\x6a\x20\x00\x41\xe3\x00\x6a\x20\x00\x41\xe4\x00\x6a\x20\x00\x41\xe5\x00\x6a\x20\x00\x41\xe6\x00\x6a\x20\x00\x41\xe7\x00\x6a\x20\x00\x41\xe8\x00\x6a\x20\x00\x41\xe9\x00\x6a\x20\x00\x41\xea\x00\x6a\x20\x00\x41\xeb\x00\x6a\x20\x00\x41\xec\x00\x6a\x20\x00\x41\xed\x00\x6a\x20\x00\x41\xee\x00\x6a\x20\x00\x41\xef\x00\x6a\x20\x00\x41\xf0\x00\x6a\x20\x00\x41\xf1\x00\x6a\x20\x00\x41\xf2\x00\x6a\x20\x00\x41\xf3\x00\x6a\x20\x00\x41\xf4\x00\x6a\x20\x00\x41\xf5\x00\x6a\x20\x00\x41\xf6\x00\x6a\x20\x00\x41\xf7\x00\x6a\x20\x00\x41\xf8\x00\x6a\x20\x00\x41\xf9\x00\x6a\x20\x00\x41\xfa\x00\x6a\x20\x00\x41\xfb\x00\x6a\x20\x00\x41\xfc\x00\x6a\x20\x00\x41\xfd\x00\x6a\x20\x00\x41\xfe\x00\x6a\x20\x00\x41\xff\x00\x6a\x20\x00\x41\x80\x01\x6a\x20\x00\x41\x81\x01\x6a\x20\x00\x41\x82\x01\x6a\x20\x00\x41\x83\x01\x6a\x20\x00\x41\x84\x01\x6a\x20\x00\x41\x85\x01\x6a\x20\x00\x41\x86\x01\x6a\x20\x00\x41\x87\x01\x6a\x20\x00\x41\x88\x01\x6a\x20\x00\x41\x89\x01\x6a\x20\x00\x41\x8a\x01\x6a\x20\x00\x41\x8b\x01\x6a\x20\x00\x41\x8c\x01\x6a\x20\x00\x41\x8d\x01\x6a\x20\x00\x41\x8e\x01\x6a\x20\x00\x41\x8f\x01\x6a\x20\x00\x41\x90\x01\x6a\x20\x00\x41\x91\x01\x6a\x20\x00\x41\x92\x01\x6a\x20\x00\x41\x93\x01\x6a\x20\x00\x41\x94\x01\x6a\x20\x00\x41\x95\x01\x6a\x20\x00\x41\x96\x01\x6a\x20\x00\x41\x97\x01\x6a\x20\x00\x41\x98\x01\x6a\x20\x00\x41\x99\x01\x6a\x20\x00\x41\x9a\x01\x6a\x20\x00\x41\x9b\x01\x6a\x20\x00\x41\x9c\x01\x6a\x20\x00\x41\x9d\x01\x6a\x20\x00\x41\x9e\x01\x6a\x20\x00\x41\x9f\x01\x6a\x20\x00\x41\xa0\x01\x6a\x20\x00\x41\xa1\x01\x6a\x20\x00\x41\xa2\x01\x6a\x20\x00\x41\xa3\x01\x6a\x20\x00\x41\xa4\x01\x6a\x20\x00\x41\xa5\x01\x6a\x20\x00\x41\xa6\x01\x6a\x20\x00\x41\xa7\x01\x6a\x20\x00\x41\xa8\x01\x6a\x20\x00\x41\xa9\x01\x6a\x20\x00\x41\xaa\x01\x6a\x20\x00\x41\xab\x01\x6a\x20\x00\x41\xac\x01\x6a\x20\x00\x41\xad\x01\x6a\x20\x00\x41\xae\x01\x6a\x20\x00\x41\xaf\x01\x6a\x20\x00\x41\xb0\x01\x6a\x20\x00\x41\xb1\x01\x6a\x20\x00\x41\xb2\x01\x6a\x20\x00\x41\xb3\x01\x6a\x20\x00\x41\xb4\x01\x6a\x20\x00\x41\xb5\x01\x6a\x20\x00\x41\xb6\x01\x6a\x20\x00\x41\xb7\x01\x6a\x20\x00\x41\xb8\x01\x6a\x20\x00\x41\xb9\x01\x6a\x20\x00\x41\xba\x01\x6a\x20\x00\x41\xbb\x01\x6a\x20\x00\x41\xbc\x01\x6a\x20\x00\x41\xbd\x01\x6a\x20\x00\x41\xbe\x01\x6a\x20\x00\x41\xbf\x01\x6a\x20\x00\x41\xc0\x01\x6a\x20\x00\x41\xc1\x01\x6a\x20\x00\x41\xc2\x01\x6a\x20\x00\x41\xc3\x01\x6a\x20\x00\x41\xc4\x01\x6a\x20\x00\x41\xc5\x01\x6a\x20\x00\x41\xc6\x01\x6a\x20\x00\x41\xc7\x01\x6a\x20\x00\x41\xc8\x01\x6a\x20\x00\x41\xc9\x01\x6a\x20\x00\x41\xca\x01\x6a\x20\x00\x41\xcb\x01\x6a\x20\x00\x41\xcc\x01\x6a\x20\x00\x41\xcd\x01\x6a\x20\x00\x41\xce\x01\x6a\x20\x00\x41\xcf\x01\x6a\x20\x00\x41\xd0\x01\x6a\x20\x00\x41\xd1\x01\x6a\x20\x00\x41\xd2\x01\x6a\x20\x00\x41\xd3\x01\x6a\x20\x00\x41\xd4\x01\x6a\x20\x00\x41\xd5\x01\x6a\x20\x00\x41\xd6\x01\x6a\x20\x00\x41\xd7\x01\x6a\x20\x00\x41\xd8\x01\x6a\x20\x00\x41\xd9\x01\x6a\x20\x00\x41\xda\x01\x6a\x20\x00\x41\xdb\x01\x6a\x20\x00\x41\xdc\x01\x6a\x20\x00\x41\xdd\x01\x6a\x20\x00\x41\xde\x01\x6a\x20\x00\x41\xdf\x01\x6a\x20\x00\x41\xe0\x01\x6a\x20\x00\x41\xe1\x01\x6a\x20\x00\x41\xe2\x01\x6a\x20\x00\x41\xe3\x01\x6a\x20\x00\x41\xe4\x01\x6a\x20\x00\x41\xe5\x01\x6a\x20\x00\x41\xe6\x01\x6a\x20\x00\x41\xe7\x01\x6a\x20\x00\x41\xe8\x01\x6a\x20\x00\x41\xe9\x01\x6a\x20\x00\x41\xea\x01\x6a\x20\x00\x41\xeb\x01\x6a\x20\x00\x41\xec\x01\x6a\x20\x00\x41\xed\x01\x6a\x20\x00\x41\xee\x01\x6a\x20\x00\x41\xef\x01\x6a\x20\x00\x41\xf0\x01\x6a\x20\x00\x41\xf1\x01\x6a\x20\x00\x41\xf2\x01\x6a\x20\x00\x41\xf3\x01\x6a\x20\x00\x41\xf4\x01\x6a\x20\x00\x41\xf5\x01\x6a\x20\x00\x41\xf6\x01\x6a\x20\x00\x41\xf7\x01\x6a\x20\x00\x41\xf8\x01\x6a\x20\x00\x41\xf9\x01\x6a\x20\x00\x41\xfa\x01\x6a\x20\x00\x41\xfb\x01\x6a\x20\x00\x41\xfc\x01\x6a\x20\x00\x41\xfd\x01\x6a\x20\x00\x41\xfe\x01\x6a\x20\x00\x41\xff\x01\x6a\x20\x00\x41\x80\x02\x6a\x20\x00\x41\x81\x02\x6a\x20\x00\x41\x82\x02\x6a\x20\x00\x41\x83\x02\x6a\x20\x00\x41\x84\x02\x6a\x20\x00\x41\x85\x02\x6a\x20\x00\x41\x86\x02\x6a\x20\x00\x41\x87\x02\x6a\x20\x00\x41\x88\x02\x6a\x20\x00\x41\x89\x02\x6a\x20\x00\x41\x8a\x02\x6a\x20\x00\x41\x8b\x02\x6a\x20\x00\x41\x8c\x02\x6a\x20\x00\x41\x8d\x02\x6a\x20\x00\x41\x8e\x02\x6a\x20\x00\x41\x8f\x02\x6a\x20\x00\x41\x90\x02\x6a\x20\x00\x41\x91\x02\x6a\x20\x00\x41\x92\x02\x6a\x20\x00\x41\x93\x02\x6a\x20\x00\x41\x94\x02\x6a\x20\x00\x41\x95\x02\x6a\x20\x00\x41\x96\x02\x6a\x20\x00\x41\x97\x02\x6a\x20\x00\x41\x98\x02\x6a\x20\x00\x41\x99\x02\x6a\x20\x00\x41\x9a\x02\x6a\x20\x00\x41\x9b\x02\x6a\x20\x00\x41\x9c\x02\x6a\x20\x00\x41\x9d\x02\x6a\x20\x00\x41\x9e\x02\x6a\x20\x00\x41\x9f\x02\x6a\x20\x00\x41\xa0\x02\x6a\x20\x00\x41\xa1\x02\x6a\x20\x00\x41\xa2\x02\x6a\x20\x00\x41\xa3\x02\x6a\x20\x00\x41\xa4\x02\x6a\x20\x00\x41\xa5\x02\x6a\x20\x00\x41\xa6\x02\x6a\x20\x00\x41\xa7\x02\x6a\x20\x00\x41\xa8\x02\x6a\x20\x00\x41\xa9\x02\x6a\x20\x00\x41\xaa\x02\x6a\x20\x00\x41\xab\x02\x6a\x02\x7f\x41\x05\x20\x00\x0d\x00\x1a\x41\x06\x0b\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x6a\x0b\xc0\x09\x00\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\xac\x20\x00\x04\x7e\x42\x80\x80\x80\x80\x10\x05\x42\x7f\x0b\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x7c\x0b")
+assert_return(() => call($1, "i32", [0]), 44_856);
+assert_return(() => call($1, "i32", [1]), 45_155);
+assert_return(() => call($1, "i32", [-1]), 44_555);
+assert_return(() => call($1, "i32", [7]), 46_955);
+assert_return(() => call($1, "i64", [0]), -1n);
+assert_return(() => call($1, "i64", [1]), 4_294_967_596n);
+assert_return(() => call($1, "i64", [-1]), 4_294_966_996n);
+assert_return(() => call($1, "i64", [2_147_483_647]), 648_540_061_396n);
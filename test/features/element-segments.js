@@ -0,0 +1,86 @@
+// Every encoding of element segments (active with an implicit or explicit
+// table, passive and declarative, with function indices or expressions) along
+// with "table.init", "elem.drop" and "table.copy"
+// (module
+//   (type $i32 (func (result i32)))
+//   (table $t0 8 funcref)
+//   (table $t1 8 funcref)
+//   (table $t2 2 externref)
+//   (func $f0 (result i32) (i32.const 0))
+//   (func $f1 (result i32) (i32.const 1))
+//   (func $f2 (result i32) (i32.const 2))
+//   (func $f3 (result i32) (i32.const 3))
+//   (elem (i32.const 0) $f0 $f1)
+//   (elem $p1 func $f2 $f3)
+//   (elem (table $t1) (i32.const 1) func $f3 $f2)
+//   (elem declare func $f0)
+//   (elem (i32.const 2) funcref (ref.func $f2) (ref.null func))
+//   (elem $p5 funcref (ref.null func) (ref.func $f1))
+//   (elem (table $t1) (i32.const 4) funcref (ref.func $f0) (ref.null func))
+//   (elem declare funcref (ref.func $f1) (ref.null func))
+//   (elem $p8 externref (ref.null extern))
+//   (func (export "call0") (param $i i32) (result i32)
+//     (call_indirect $t0 (type $i32) (local.get $i)))
+//   (func (export "call1") (param $i i32) (result i32)
+//     (call_indirect $t1 (type $i32) (local.get $i)))
+//   (func (export "is_null0") (param $i i32) (result i32)
+//     (ref.is_null (table.get $t0 (local.get $i))))
+//   (func (export "is_null2") (param $i i32) (result i32)
+//     (ref.is_null (table.get $t2 (local.get $i))))
+//   (func (export "ref_func") (result i32)
+//     (ref.is_null (ref.func $f0)))
+//   (func (export "init_p1") (param $dest i32) (param $src i32) (param $n i32)
+//     (table.init $t0 $p1 (local.get $dest) (local.get $src) (local.get $n)))
+//   (func (export "init_p5") (param $dest i32) (param $src i32) (param $n i32)
+//     (table.init $t1 $p5 (local.get $dest) (local.get $src) (local.get $n)))
+//   (func (export "init_p8") (param $dest i32)
+//     (table.init $t2 $p8 (local.get $dest) (i32.const 0) (i32.const 1)))
+//   (func (export "set2") (param $i i32) (param externref)
+//     (table.set $t2 (local.get $i) (local.get 1)))
+//   (func (export "drop_p1")
+//     (elem.drop $p1))
+//   (func (export "copy00") (param $dest i32) (param $src i32) (param $n i32)
+//     (table.copy $t0 $t0 (local.get $dest) (local.get $src) (local.get $n)))
+//   (func (export "copy10") (param $dest i32) (param $src i32) (param $n i32)
+//     (table.copy $t1 $t0 (local.get $dest) (local.get $src) (local.get $n))))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x1c\x06\x60\x00\x01\x7f\x60\x01\x7f\x01\x7f\x60\x03\x7f\x7f\x7f\x00\x60\x01\x7f\x00\x60\x02\x7f\x6f\x00\x60\x00\x00\x03\x11\x10\x00\x00\x00\x00\x01\x01\x01\x01\x00\x02\x02\x03\x04\x05\x02\x02\x04\x0a\x03\x70\x00\x08\x70\x00\x08\x6f\x00\x02\x07\x73\x0c\x05\x63\x61\x6c\x6c\x30\x00\x04\x05\x63\x61\x6c\x6c\x31\x00\x05\x08\x69\x73\x5f\x6e\x75\x6c\x6c\x30\x00\x06\x08\x69\x73\x5f\x6e\x75\x6c\x6c\x32\x00\x07\x08\x72\x65\x66\x5f\x66\x75\x6e\x63\x00\x08\x07\x69\x6e\x69\x74\x5f\x70\x31\x00\x09\x07\x69\x6e\x69\x74\x5f\x70\x35\x00\x0a\x07\x69\x6e\x69\x74\x5f\x70\x38\x00\x0b\x04\x73\x65\x74\x32\x00\x0c\x07\x64\x72\x6f\x70\x5f\x70\x31\x00\x0d\x06\x63\x6f\x70\x79\x30\x30\x00\x0e\x06\x63\x6f\x70\x79\x31\x30\x00\x0f\x09\x4a\x09\x00\x41\x00\x0b\x02\x00\x01\x01\x00\x02\x02\x03\x02\x01\x41\x01\x0b\x00\x02\x03\x02\x03\x00\x01\x00\x04\x41\x02\x0b\x02\xd2\x02\x0b\xd0\x70\x0b\x05\x70\x02\xd0\x70\x0b\xd2\x01\x0b\x06\x01\x41\x04\x0b\x70\x02\xd2\x00\x0b\xd0\x70\x0b\x07\x70\x02\xd2\x01\x0b\xd0\x70\x0b\x05\x6f\x01\xd0\x6f\x0b\x0a\x8b\x01\x10\x04\x00\x41\x00\x0b\x04\x00\x41\x01\x0b\x04\x00\x41\x02\x0b\x04\x00\x41\x03\x0b\x07\x00\x20\x00\x11\x00\x00\x0b\x07\x00\x20\x00\x11\x00\x01\x0b\x07\x00\x20\x00\x25\x00\xd1\x0b\x07\x00\x20\x00\x25\x02\xd1\x0b\x05\x00\xd2\x00\xd1\x0b\x0c\x00\x20\x00\x20\x01\x20\x02\xfc\x0c\x01\x00\x0b\x0c\x00\x20\x00\x20\x01\x20\x02\xfc\x0c\x05\x01\x0b\x0c\x00\x20\x00\x41\x00\x41\x01\xfc\x0c\x08\x02\x0b\x08\x00\x20\x00\x20\x01\x26\x02\x0b\x05\x00\xfc\x0d\x01\x0b\x0c\x00\x20\x00\x20\x01\x20\x02\xfc\x0e\x00\x00\x0b\x0c\x00\x20\x00\x20\x01\x20\x02\xfc\x0e\x01\x00\x0b")
+assert_return(() => call($1, "call0", [0]), 0);
+assert_return(() => call($1, "call0", [1]), 1);
+assert_return(() => call($1, "call0", [2]), 2);
+assert_return(() => call($1, "is_null0", [3]), 1);
+assert_trap(() => call($1, "call0", [3]));
+assert_return(() => call($1, "call1", [1]), 3);
+assert_return(() => call($1, "call1", [2]), 2);
+assert_return(() => call($1, "call1", [4]), 0);
+assert_trap(() => call($1, "call1", [0]));
+assert_trap(() => call($1, "call1", [5]));
+assert_return(() => call($1, "ref_func", []), 0);
+assert_return(() => call($1, "init_p1", [5, 0, 2]));
+assert_return(() => call($1, "call0", [5]), 2);
+assert_return(() => call($1, "call0", [6]), 3);
+assert_trap(() => call($1, "init_p1", [7, 0, 2]));
+assert_trap(() => call($1, "init_p1", [0, 1, 2]));
+assert_return(() => call($1, "init_p1", [8, 2, 0]));
+assert_return(() => call($1, "drop_p1", []));
+assert_return(() => call($1, "drop_p1", []));
+assert_return(() => call($1, "init_p1", [0, 0, 0]));
+assert_trap(() => call($1, "init_p1", [0, 0, 1]));
+assert_return(() => call($1, "init_p5", [6, 0, 2]));
+assert_trap(() => call($1, "call1", [6]));
+assert_return(() => call($1, "call1", [7]), 1);
+assert_return(() => call($1, "set2", [1, "x"]));
+assert_return(() => call($1, "is_null2", [1]), 0);
+assert_return(() => call($1, "init_p8", [1]));
+assert_return(() => call($1, "is_null2", [1]), 1);
+assert_return(() => call($1, "copy00", [1, 0, 3]));
+assert_return(() => call($1, "call0", [1]), 0);
+assert_return(() => call($1, "call0", [2]), 1);
+assert_return(() => call($1, "call0", [3]), 2);
+assert_return(() => call($1, "copy00", [4, 5, 2]));
+assert_return(() => call($1, "call0", [4]), 2);
+assert_return(() => call($1, "call0", [5]), 3);
+assert_trap(() => call($1, "copy00", [7, 0, 2]));
+assert_trap(() => call($1, "copy00", [0, 7, 2]));
+assert_return(() => call($1, "copy00", [8, 8, 0]));
+assert_return(() => call($1, "copy10", [0, 3, 1]));
+assert_return(() => call($1, "call1", [0]), 2);
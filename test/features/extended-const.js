@@ -0,0 +1,36 @@
+// Global initializers and segment offsets can use extended constant
+// expressions, which are evaluated against the imported globals
+// (module
+//   (import "env" "memory_base" (global $memory_base i32))
+//   (import "env" "table_base" (global $table_base i32))
+//   (import "env" "big" (global $big i64))
+//   (type $i32 (func (result i32)))
+//   (memory 1)
+//   (table 4 funcref)
+//   (global (export "sum") i32 (i32.add (global.get $memory_base) (i32.const 4)))
+//   (global (export "product") i32 (i32.mul (i32.sub (global.get $table_base) (i32.const 3)) (i32.const 7)))
+//   (global (export "wrap") i32 (i32.add (i32.const 0x7FFFFFFF) (i32.const 1)))
+//   (global (export "i64") i64 (i64.sub (i64.mul (global.get $big) (i64.const 3)) (i64.const 20)))
+//   (data (i32.add (global.get $memory_base) (i32.const 2)) "\2a\2b")
+//   (elem (i32.mul (global.get $table_base) (i32.const 2)) $f)
+//   (func $f (result i32) (i32.const 99))
+//   (func (export "load8") (param $i i32) (result i32)
+//     (i32.load8_u (local.get $i)))
+//   (func (export "call") (param $i i32) (result i32)
+//     (call_indirect (type $i32) (local.get $i))))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x0a\x02\x60\x00\x01\x7f\x60\x01\x7f\x01\x7f\x02\x31\x03\x03\x65\x6e\x76\x0b\x6d\x65\x6d\x6f\x72\x79\x5f\x62\x61\x73\x65\x03\x7f\x00\x03\x65\x6e\x76\x0a\x74\x61\x62\x6c\x65\x5f\x62\x61\x73\x65\x03\x7f\x00\x03\x65\x6e\x76\x03\x62\x69\x67\x03\x7e\x00\x03\x04\x03\x00\x01\x01\x04\x04\x01\x70\x00\x04\x05\x03\x01\x00\x01\x06\x2b\x04\x7f\x00\x23\x00\x41\x04\x6a\x0b\x7f\x00\x23\x01\x41\x03\x6b\x41\x07\x6c\x0b\x7f\x00\x41\xff\xff\xff\xff\x07\x41\x01\x6a\x0b\x7e\x00\x23\x02\x42\x03\x7e\x42\x14\x7d\x0b\x07\x2d\x06\x03\x73\x75\x6d\x03\x03\x07\x70\x72\x6f\x64\x75\x63\x74\x03\x04\x04\x77\x72\x61\x70\x03\x05\x03\x69\x36\x34\x03\x06\x05\x6c\x6f\x61\x64\x38\x00\x01\x04\x63\x61\x6c\x6c\x00\x02\x09\x0a\x01\x00\x23\x01\x41\x02\x6c\x0b\x01\x00\x0a\x17\x03\x05\x00\x41\xe3\x00\x0b\x07\x00\x20\x00\x2d\x00\x00\x0b\x07\x00\x20\x00\x11\x00\x00\x0b\x0b\x0b\x01\x00\x23\x00\x41\x02\x6a\x0b\x02\x2a\x2b", { env: { memory_base: 16, table_base: 1, big: 5n } })
+assert_return(() => get($1, "sum"), 20);
+assert_return(() => get($1, "product"), -14);
+assert_return(() => get($1, "wrap"), -2_147_483_648);
+assert_return(() => get($1, "i64"), -5n);
+assert_return(() => call($1, "load8", [17]), 0);
+assert_return(() => call($1, "load8", [18]), 42);
+assert_return(() => call($1, "load8", [19]), 43);
+assert_return(() => call($1, "call", [2]), 99);
+assert_trap(() => call($1, "call", [1]));
+// (module
+//   (import "env" "memory_base" (global $memory_base i32))
+//   (memory 1)
+//   (data (i32.add (global.get $memory_base) (i32.const 0xFFFF)) "\01\02"))
+let $2 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x02\x14\x01\x03\x65\x6e\x76\x0b\x6d\x65\x6d\x6f\x72\x79\x5f\x62\x61\x73\x65\x03\x7f\x00\x05\x03\x01\x00\x01\x0b\x0d\x01\x00\x23\x00\x41\xff\xff\x03\x6a\x0b\x02\x01\x02", { env: { memory_base: 0 } })
+assert_return(() => ({ value: $2.error instanceof WebAssembly.RuntimeError }), true);
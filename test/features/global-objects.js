@@ -0,0 +1,59 @@
+// Global objects can be constructed from JavaScript, and a mutable global that
+// is imported by several instances shares its value with all of them
+let throwsTypeError = fn => {
+  try { fn() } catch (error) { return { value: error instanceof TypeError } }
+  return { value: false }
+}
+let counter = new WebAssembly.Global({ value: 'i32', mutable: true }, 5)
+let wide = new WebAssembly.Global({ value: 'i64', mutable: true }, 1n)
+let fixed = new WebAssembly.Global({ value: 'f32' }, 0.1)
+assert_return(() => ({ value: counter.value }), 5);
+assert_return(() => ({ value: counter.valueOf() }), 5);
+assert_return(() => ({ value: new WebAssembly.Global({ value: 'i64' }).value }), 0n);
+assert_return(() => ({ value: fixed.value === Math.fround(0.1) }), true);
+assert_return(() => throwsTypeError(() => fixed.value = 1), true);
+assert_return(() => throwsTypeError(() => new WebAssembly.Global({ value: 'i64' }, 5)), true);
+assert_return(() => throwsTypeError(() => wide.value = 5), true);
+assert_return(() => ({ value: wide.value }), 1n);
+// (module
+//   (import "env" "counter" (global $counter (mut i32)))
+//   (import "env" "wide" (global $wide (mut i64)))
+//   (export "counter" (global $counter))
+//   (func (export "bump") (result i32)
+//     (global.set $counter (i32.add (global.get $counter) (i32.const 1)))
+//     (global.get $counter))
+//   (func (export "shift")
+//     (global.set $wide (i64.shl (global.get $wide) (i64.const 32)))))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x08\x02\x60\x00\x01\x7f\x60\x00\x00\x02\x1c\x02\x03\x65\x6e\x76\x07\x63\x6f\x75\x6e\x74\x65\x72\x03\x7f\x01\x03\x65\x6e\x76\x04\x77\x69\x64\x65\x03\x7e\x01\x03\x03\x02\x00\x01\x07\x1a\x03\x07\x63\x6f\x75\x6e\x74\x65\x72\x03\x00\x04\x62\x75\x6d\x70\x00\x00\x05\x73\x68\x69\x66\x74\x00\x01\x0a\x17\x02\x0b\x00\x23\x00\x41\x01\x6a\x24\x00\x23\x00\x0b\x09\x00\x23\x01\x42\x20\x86\x24\x01\x0b", { env: { counter, wide } })
+// (module
+//   (import "env" "counter" (global $counter (mut i32)))
+//   (import "env" "wide" (global $wide (mut i64)))
+//   (func (export "counter") (result i32)
+//     (global.get $counter))
+//   (func (export "wide") (result i64)
+//     (global.get $wide)))
+let $2 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x09\x02\x60\x00\x01\x7f\x60\x00\x01\x7e\x02\x1c\x02\x03\x65\x6e\x76\x07\x63\x6f\x75\x6e\x74\x65\x72\x03\x7f\x01\x03\x65\x6e\x76\x04\x77\x69\x64\x65\x03\x7e\x01\x03\x03\x02\x00\x01\x07\x12\x02\x07\x63\x6f\x75\x6e\x74\x65\x72\x00\x00\x04\x77\x69\x64\x65\x00\x01\x0a\x0b\x02\x04\x00\x23\x00\x0b\x04\x00\x23\x01\x0b", { env: { counter, wide } })
+assert_return(() => ({ value: $1.value.exports.counter === counter }), true);
+assert_return(() => call($1, "bump", []), 6);
+assert_return(() => call($2, "counter", []), 6);
+assert_return(() => ({ value: counter.value }), 6);
+run(() => counter.value = -1);
+assert_return(() => call($2, "counter", []), -1);
+assert_return(() => call($1, "bump", []), 0);
+assert_return(() => call($1, "shift", []));
+assert_return(() => call($2, "wide", []), 4_294_967_296n);
+assert_return(() => ({ value: wide.value }), 4_294_967_296n);
+run(() => wide.value = -2n);
+assert_return(() => call($2, "wide", []), -2n);
+// (module
+//   (import "env" "counter" (global i32)))
+let $3 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x02\x10\x01\x03\x65\x6e\x76\x07\x63\x6f\x75\x6e\x74\x65\x72\x03\x7f\x00", { env: { counter } })
+assert_return(() => ({ value: $3.error instanceof WebAssembly.LinkError }), true);
+// (module
+//   (import "env" "counter" (global (mut i64))))
+let $4 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x02\x10\x01\x03\x65\x6e\x76\x07\x63\x6f\x75\x6e\x74\x65\x72\x03\x7e\x01", { env: { counter } })
+assert_return(() => ({ value: $4.error instanceof WebAssembly.LinkError }), true);
+// (module
+//   (import "env" "counter" (global (mut i32))))
+let $5 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x02\x10\x01\x03\x65\x6e\x76\x07\x63\x6f\x75\x6e\x74\x65\x72\x03\x7f\x01", { env: { counter: 5 } })
+assert_return(() => ({ value: $5.error instanceof WebAssembly.LinkError }), true);
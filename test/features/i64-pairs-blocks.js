@@ -0,0 +1,38 @@
+// With "pairs", a 64-bit value that a block produces or that a branch passes
+// to a block may share its variables with the operands used to compute it
+// (module
+//   (func (export "add") (param $x i64) (param $c i32) (result i64)
+//     (block (result i64)
+//       (local.get $x)
+//       (br_if 0 (local.get $c))
+//       (i64.const 7)
+//       (i64.add)))
+//   (func (export "sub") (param $x i64) (param $c i32) (result i64)
+//     (block (result i64)
+//       (local.get $x)
+//       (br_if 0 (local.get $c))
+//       (i64.const 1)
+//       (i64.sub)))
+//   (func (export "if") (param $x i64) (param $y i64) (param $c i32) (result i64)
+//     (local.get $x)
+//     (if (result i64) (local.get $c)
+//       (then (i64.const 1))
+//       (else (local.get $y)))
+//     (i64.add))
+//   (func (export "loop") (param $x i64) (param $n i32) (result i64)
+//     (local.get $x)
+//     (loop (param i64) (result i64)
+//       (i64.add (i64.const 0xFFFFFFFF))
+//       (local.tee $n (i32.sub (local.get $n) (i32.const 1)))
+//       (br_if 0))))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x13\x03\x60\x02\x7e\x7f\x01\x7e\x60\x03\x7e\x7e\x7f\x01\x7e\x60\x01\x7e\x01\x7e\x03\x05\x04\x00\x00\x01\x00\x07\x19\x04\x03\x61\x64\x64\x00\x00\x03\x73\x75\x62\x00\x01\x02\x69\x66\x00\x02\x04\x6c\x6f\x6f\x70\x00\x03\x0a\x47\x04\x0e\x00\x02\x7e\x20\x00\x20\x01\x0d\x00\x42\x07\x7c\x0b\x0b\x0e\x00\x02\x7e\x20\x00\x20\x01\x0d\x00\x42\x01\x7d\x0b\x0b\x0f\x00\x20\x00\x20\x02\x04\x7e\x42\x01\x05\x20\x01\x0b\x7c\x0b\x17\x00\x20\x00\x03\x02\x42\xff\xff\xff\xff\x0f\x7c\x20\x01\x41\x01\x6b\x22\x01\x0d\x00\x0b\x0b")
+assert_return(() => call($1, "add", [-1n, 0]), 6n);
+assert_return(() => call($1, "add", [-1n, 1]), -1n);
+assert_return(() => call($1, "add", [4_294_967_295n, 0]), 4_294_967_302n);
+assert_return(() => call($1, "sub", [0n, 0]), -1n);
+assert_return(() => call($1, "sub", [4_294_967_296n, 0]), 4_294_967_295n);
+assert_return(() => call($1, "sub", [0n, 1]), 0n);
+assert_return(() => call($1, "if", [4_294_967_295n, 0n, 1]), 4_294_967_296n);
+assert_return(() => call($1, "if", [-1n, -1n, 0]), -2n);
+assert_return(() => call($1, "loop", [1n, 3]), 12_884_901_886n);
+assert_return(() => call($1, "loop", [-12_884_901_885n, 3]), 0n);
@@ -0,0 +1,76 @@
+// Small 64-bit integers are computed using numbers, including when they stay
+// on the stack across a block and are converted back to BigInts afterward, but
+// the results must match 64-bit arithmetic even when they leave that range
+// (module
+//   (func (export "sub") (param $a i32) (param $c i32) (result i64) (local $x i64)
+//     (i64.mul (i64.extend_i32_s (local.get $a)) (i64.const 7))
+//     (local.set $x (i64.const 11))
+//     (if (local.get $c) (then (local.set $x (i64.const 12))))
+//     (local.get $x)
+//     (i64.sub))
+//   (func (export "add") (param $a i32) (param $c i32) (result i64) (local $x i64)
+//     (i64.extend_i32_s (local.get $a))
+//     (local.set $x (i64.const 5))
+//     (if (local.get $c) (then (local.set $x (i64.const -5))))
+//     (local.get $x)
+//     (i64.add))
+//   (func (export "shl") (param $a i32) (param $c i32) (result i64) (local $x i64)
+//     (i64.extend_i32_u (local.get $a))
+//     (local.set $x (i64.const 4))
+//     (if (local.get $c) (then (local.set $x (i64.const 32))))
+//     (local.get $x)
+//     (i64.shl)))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x07\x01\x60\x02\x7f\x7f\x01\x7e\x03\x04\x03\x00\x00\x00\x07\x13\x03\x03\x73\x75\x62\x00\x00\x03\x61\x64\x64\x00\x01\x03\x73\x68\x6c\x00\x02\x0a\x4c\x03\x1a\x01\x01\x7e\x20\x00\xac\x42\x07\x7e\x42\x0b\x21\x02\x20\x01\x04\x40\x42\x0c\x21\x02\x0b\x20\x02\x7d\x0b\x17\x01\x01\x7e\x20\x00\xac\x42\x05\x21\x02\x20\x01\x04\x40\x42\x7b\x21\x02\x0b\x20\x02\x7c\x0b\x17\x01\x01\x7e\x20\x00\xad\x42\x04\x21\x02\x20\x01\x04\x40\x42\x20\x21\x02\x0b\x20\x02\x86\x0b")
+assert_return(() => call($1, "sub", [1, 0]), -4n);
+assert_return(() => call($1, "sub", [1, 1]), -5n);
+assert_return(() => call($1, "sub", [-3, 0]), -32n);
+assert_return(() => call($1, "sub", [2, 0]), 3n);
+assert_return(() => call($1, "add", [-7, 0]), -2n);
+assert_return(() => call($1, "add", [-7, 1]), -12n);
+assert_return(() => call($1, "add", [3, 1]), -2n);
+assert_return(() => call($1, "shl", [-1, 0]), 68_719_476_720n);
+assert_return(() => call($1, "shl", [-1, 1]), -4_294_967_296n);
+// (module
+//   (memory 1)
+//   (data (i32.const 0) "\ff\ff\ff\ff\01\00\00\00")
+//   (func (export "mul_u") (param $a i32) (param $b i32) (result i64)
+//     (i64.mul (i64.extend_i32_u (local.get $a)) (i64.extend_i32_u (local.get $b))))
+//   (func (export "mask") (param $x i64) (result i64)
+//     (i64.add (i64.and (local.get $x) (i64.const 0xFFFF)) (i64.const 1)))
+//   (func (export "load") (param $i i32) (result i64)
+//     (i64.add (i64.load32_u (local.get $i)) (i64.load32_u offset=4 (local.get $i))))
+//   (func (export "lt_u") (param $a i32) (param $b i32) (result i32)
+//     (i64.lt_u (i64.extend_i32_u (local.get $a)) (i64.extend_i32_s (local.get $b))))
+//   (func (export "gt_s") (param $a i32) (param $b i32) (result i32)
+//     (i64.gt_s (i64.extend_i32_u (local.get $a)) (i64.extend_i32_s (local.get $b))))
+//   (func (export "shr_u") (param $a i32) (result i64)
+//     (i64.shr_u (i64.extend_i32_s (local.get $a)) (i64.const 1)))
+//   (func (export "shl") (param $a i32) (result i64)
+//     (i64.shl (i64.extend_i32_u (local.get $a)) (i64.const 40)))
+//   (func (export "div_s") (param $a i32) (result i64)
+//     (i64.div_s (i64.extend_i32_s (local.get $a)) (i64.const 3)))
+//   (func (export "rem_s") (param $a i32) (result i64)
+//     (i64.rem_s (i64.extend_i32_s (local.get $a)) (i64.const 3)))
+//   (func (export "sub") (param $a i32) (param $b i32) (result i64)
+//     (i64.sub (i64.extend_i32_u (local.get $a)) (i64.extend_i32_u (local.get $b))))
+//   (func (export "wrap") (param $a i32) (param $b i32) (result i32)
+//     (i32.wrap_i64 (i64.add (i64.extend_i32_u (local.get $a)) (i64.extend_i32_u (local.get $b))))))
+let $2 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x17\x04\x60\x02\x7f\x7f\x01\x7e\x60\x01\x7e\x01\x7e\x60\x01\x7f\x01\x7e\x60\x02\x7f\x7f\x01\x7f\x03\x0c\x0b\x00\x01\x02\x03\x03\x02\x02\x02\x02\x00\x03\x05\x03\x01\x00\x01\x07\x50\x0b\x05\x6d\x75\x6c\x5f\x75\x00\x00\x04\x6d\x61\x73\x6b\x00\x01\x04\x6c\x6f\x61\x64\x00\x02\x04\x6c\x74\x5f\x75\x00\x03\x04\x67\x74\x5f\x73\x00\x04\x05\x73\x68\x72\x5f\x75\x00\x05\x03\x73\x68\x6c\x00\x06\x05\x64\x69\x76\x5f\x73\x00\x07\x05\x72\x65\x6d\x5f\x73\x00\x08\x03\x73\x75\x62\x00\x09\x04\x77\x72\x61\x70\x00\x0a\x0a\x73\x0b\x09\x00\x20\x00\xad\x20\x01\xad\x7e\x0b\x0c\x00\x20\x00\x42\xff\xff\x03\x83\x42\x01\x7c\x0b\x0d\x00\x20\x00\x35\x02\x00\x20\x00\x35\x02\x04\x7c\x0b\x09\x00\x20\x00\xad\x20\x01\xac\x54\x0b\x09\x00\x20\x00\xad\x20\x01\xac\x55\x0b\x08\x00\x20\x00\xac\x42\x01\x88\x0b\x08\x00\x20\x00\xad\x42\x28\x86\x0b\x08\x00\x20\x00\xac\x42\x03\x7f\x0b\x08\x00\x20\x00\xac\x42\x03\x81\x0b\x09\x00\x20\x00\xad\x20\x01\xad\x7d\x0b\x0a\x00\x20\x00\xad\x20\x01\xad\x7c\xa7\x0b\x0b\x0e\x01\x00\x41\x00\x0b\x08\xff\xff\xff\xff\x01\x00\x00\x00")
+assert_return(() => call($2, "mul_u", [-1, -1]), -8_589_934_591n);
+assert_return(() => call($2, "mul_u", [100_000_000, 100_000_000]), 10_000_000_000_000_000n);
+assert_return(() => call($2, "mul_u", [3, 5]), 15n);
+assert_return(() => call($2, "mask", [-1n]), 65_536n);
+assert_return(() => call($2, "mask", [0x123456789n]), 26_506n);
+assert_return(() => call($2, "load", [0]), 4_294_967_296n);
+assert_return(() => call($2, "lt_u", [5, -1]), 1);
+assert_return(() => call($2, "lt_u", [-1, 5]), 0);
+assert_return(() => call($2, "gt_s", [-1, 5]), 1);
+assert_return(() => call($2, "gt_s", [0, -1]), 1);
+assert_return(() => call($2, "shr_u", [-2]), 9_223_372_036_854_775_807n);
+assert_return(() => call($2, "shr_u", [6]), 3n);
+assert_return(() => call($2, "shl", [-1]), -1_099_511_627_776n);
+assert_return(() => call($2, "div_s", [-7]), -2n);
+assert_return(() => call($2, "rem_s", [-7]), -1n);
+assert_return(() => call($2, "sub", [0, 1]), -1n);
+assert_return(() => call($2, "sub", [0, -1]), -4_294_967_295n);
+assert_return(() => call($2, "wrap", [-1, 2]), 1);
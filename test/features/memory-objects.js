@@ -0,0 +1,68 @@
+// Memory objects can be constructed from JavaScript and shared between
+// instances through imports, and every successful grow replaces the buffer
+let memory = new WebAssembly.Memory({ initial: 1, maximum: 3 })
+let buffer = memory.buffer
+assert_return(() => ({ value: buffer.byteLength }), 65_536);
+assert_return(() => ({ value: memory.grow(1) }), 1);
+assert_return(() => ({ value: buffer.byteLength }), 0);
+assert_return(() => ({ value: memory.buffer.byteLength }), 131_072);
+buffer = memory.buffer
+assert_return(() => ({ value: memory.grow(0) }), 2);
+assert_return(() => ({ value: buffer.byteLength }), 0);
+assert_return(() => ({ value: memory.buffer !== buffer && memory.buffer.byteLength }), 131_072);
+assert_return(() => {
+  try { memory.grow(2) } catch (error) { return { value: error instanceof RangeError } }
+  return { value: false }
+}, true);
+assert_return(() => {
+  try { new WebAssembly.Memory({ initial: 2, maximum: 1 }) } catch (error) { return { value: error instanceof RangeError } }
+  return { value: false }
+}, true);
+// (module
+//   (import "env" "memory" (memory 1))
+//   (func (export "store") (param $i i32) (param $v i32)
+//     (i32.store8 (local.get $i) (local.get $v)))
+//   (func (export "load") (param $i i32) (result i32)
+//     (i32.load8_u (local.get $i)))
+//   (func (export "grow") (param $n i32) (result i32)
+//     (memory.grow (local.get $n)))
+//   (func (export "size") (result i32)
+//     (memory.size)))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x0f\x03\x60\x02\x7f\x7f\x00\x60\x01\x7f\x01\x7f\x60\x00\x01\x7f\x02\x0f\x01\x03\x65\x6e\x76\x06\x6d\x65\x6d\x6f\x72\x79\x02\x00\x01\x03\x05\x04\x00\x01\x01\x02\x07\x1e\x04\x05\x73\x74\x6f\x72\x65\x00\x00\x04\x6c\x6f\x61\x64\x00\x01\x04\x67\x72\x6f\x77\x00\x02\x04\x73\x69\x7a\x65\x00\x03\x0a\x1f\x04\x09\x00\x20\x00\x20\x01\x3a\x00\x00\x0b\x07\x00\x20\x00\x2d\x00\x00\x0b\x06\x00\x20\x00\x40\x00\x0b\x04\x00\x3f\x00\x0b", { env: { memory } })
+// (module
+//   (import "env" "memory" (memory 1))
+//   (func (export "store") (param $i i32) (param $v i32)
+//     (i32.store8 (local.get $i) (local.get $v)))
+//   (func (export "load") (param $i i32) (result i32)
+//     (i32.load8_u (local.get $i)))
+//   (func (export "grow") (param $n i32) (result i32)
+//     (memory.grow (local.get $n)))
+//   (func (export "size") (result i32)
+//     (memory.size)))
+let $2 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x0f\x03\x60\x02\x7f\x7f\x00\x60\x01\x7f\x01\x7f\x60\x00\x01\x7f\x02\x0f\x01\x03\x65\x6e\x76\x06\x6d\x65\x6d\x6f\x72\x79\x02\x00\x01\x03\x05\x04\x00\x01\x01\x02\x07\x1e\x04\x05\x73\x74\x6f\x72\x65\x00\x00\x04\x6c\x6f\x61\x64\x00\x01\x04\x67\x72\x6f\x77\x00\x02\x04\x73\x69\x7a\x65\x00\x03\x0a\x1f\x04\x09\x00\x20\x00\x20\x01\x3a\x00\x00\x0b\x07\x00\x20\x00\x2d\x00\x00\x0b\x06\x00\x20\x00\x40\x00\x0b\x04\x00\x3f\x00\x0b", { env: { memory } })
+assert_return(() => call($1, "store", [10, 42]));
+assert_return(() => call($2, "load", [10]), 42);
+assert_return(() => ({ value: new Uint8Array(memory.buffer)[10] }), 42);
+run(() => new Uint8Array(memory.buffer)[11] = 43);
+assert_return(() => call($1, "load", [11]), 43);
+buffer = memory.buffer
+assert_return(() => call($1, "grow", [0]), 2);
+assert_return(() => ({ value: buffer.byteLength }), 0);
+assert_return(() => call($1, "grow", [1]), 2);
+assert_return(() => call($2, "size", []), 3);
+assert_return(() => ({ value: memory.buffer.byteLength }), 196_608);
+assert_return(() => call($2, "store", [131_072, 7]));
+assert_return(() => call($1, "load", [131_072]), 7);
+assert_return(() => call($2, "grow", [1]), -1);
+// (module
+//   (import "env" "memory" (memory 4)))
+let $3 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x02\x0f\x01\x03\x65\x6e\x76\x06\x6d\x65\x6d\x6f\x72\x79\x02\x00\x04", { env: { memory } })
+assert_return(() => ({ value: $3.error instanceof WebAssembly.LinkError }), true);
+// (module
+//   (import "env" "memory" (memory 1 2)))
+let $4 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x02\x10\x01\x03\x65\x6e\x76\x06\x6d\x65\x6d\x6f\x72\x79\x02\x01\x01\x02", { env: { memory } })
+assert_return(() => ({ value: $4.error instanceof WebAssembly.LinkError }), true);
+// (module
+//   (import "env" "memory" (memory 1 4)))
+let $5 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x02\x10\x01\x03\x65\x6e\x76\x06\x6d\x65\x6d\x6f\x72\x79\x02\x01\x01\x04", { env: { memory } })
+assert_return(() => ({ value: $5.error === undefined }), true);
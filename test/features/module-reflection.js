@@ -0,0 +1,35 @@
+// The imports, exports and custom sections of a module can be listed without
+// instantiating it
+// (module
+//   (import "env" "f" (func (param i32)))
+//   (import "env" "t" (table 1 funcref))
+//   (import "env" "m" (memory 1))
+//   (import "env" "g" (global i64))
+//   (func (export "h") (result i32) (i32.const 0))
+//   (global (export "k") (mut f32) (f32.const 0))
+//   (export "t2" (table 0))
+//   (export "m2" (memory 0))
+//   (@custom "hello" "abc")
+//   (@custom "other" "x")
+//   (@custom "hello" "de"))
+let $m = module("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x09\x02\x60\x01\x7f\x00\x60\x00\x01\x7f\x02\x25\x04\x03\x65\x6e\x76\x01\x66\x00\x00\x03\x65\x6e\x76\x01\x74\x01\x70\x00\x01\x03\x65\x6e\x76\x01\x6d\x02\x00\x01\x03\x65\x6e\x76\x01\x67\x03\x7e\x00\x03\x02\x01\x01\x06\x09\x01\x7d\x01\x43\x00\x00\x00\x00\x0b\x07\x13\x04\x01\x68\x00\x01\x01\x6b\x03\x01\x02\x74\x32\x01\x00\x02\x6d\x32\x02\x00\x0a\x06\x01\x04\x00\x41\x00\x0b\x00\x09\x05\x68\x65\x6c\x6c\x6f\x61\x62\x63\x00\x07\x05\x6f\x74\x68\x65\x72\x78\x00\x08\x05\x68\x65\x6c\x6c\x6f\x64\x65")
+let describe = list => list.map(item => (item.module ? item.module + '.' : '') + item.name + ':' + item.kind).join(' ')
+let text = buffer => String.fromCharCode(...new Uint8Array(buffer))
+assert_return(() => ({ value: describe(WebAssembly.Module.imports($m)) }), 'env.f:function env.t:table env.m:memory env.g:global');
+assert_return(() => ({ value: describe(WebAssembly.Module.exports($m)) }), 'h:function k:global t2:table m2:memory');
+assert_return(() => ({ value: WebAssembly.Module.customSections($m, 'hello').map(text).join() }), 'abc,de');
+assert_return(() => ({ value: WebAssembly.Module.customSections($m, 'other').map(text).join() }), 'x');
+assert_return(() => ({ value: WebAssembly.Module.customSections($m, 'missing').length }), 0);
+assert_return(() => {
+  const [section] = WebAssembly.Module.customSections($m, 'other')
+  new Uint8Array(section)[0] = 0
+  return { value: text(WebAssembly.Module.customSections($m, 'other')[0]) }
+}, 'x');
+assert_return(() => {
+  try { WebAssembly.Module.customSections($m) } catch (error) { return { value: error instanceof TypeError } }
+  return { value: false }
+}, true);
+assert_return(() => {
+  try { WebAssembly.Module.exports({}) } catch (error) { return { value: error instanceof TypeError } }
+  return { value: false }
+}, true);
@@ -0,0 +1,52 @@
+// Passive data segments are only copied into memory by "memory.init", each
+// instance drops them separately, and active segments are dropped once they
+// have been copied
+// (module
+//   (memory 1)
+//   (data $passive "\01\02\03\04")
+//   (data $active (i32.const 8) "\aa\bb")
+//   (func (export "init") (param $dest i32) (param $src i32) (param $n i32)
+//     (memory.init $passive (local.get $dest) (local.get $src) (local.get $n)))
+//   (func (export "init_active") (param $dest i32) (param $src i32) (param $n i32)
+//     (memory.init $active (local.get $dest) (local.get $src) (local.get $n)))
+//   (func (export "drop")
+//     (data.drop $passive))
+//   (func (export "load8") (param $i i32) (result i32)
+//     (i32.load8_u (local.get $i))))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x0f\x03\x60\x03\x7f\x7f\x7f\x00\x60\x00\x00\x60\x01\x7f\x01\x7f\x03\x05\x04\x00\x00\x01\x02\x05\x03\x01\x00\x01\x07\x25\x04\x04\x69\x6e\x69\x74\x00\x00\x0b\x69\x6e\x69\x74\x5f\x61\x63\x74\x69\x76\x65\x00\x01\x04\x64\x72\x6f\x70\x00\x02\x05\x6c\x6f\x61\x64\x38\x00\x03\x0c\x01\x02\x0a\x29\x04\x0c\x00\x20\x00\x20\x01\x20\x02\xfc\x08\x00\x00\x0b\x0c\x00\x20\x00\x20\x01\x20\x02\xfc\x08\x01\x00\x0b\x05\x00\xfc\x09\x00\x0b\x07\x00\x20\x00\x2d\x00\x00\x0b\x0b\x0e\x02\x01\x04\x01\x02\x03\x04\x00\x41\x08\x0b\x02\xaa\xbb")
+// (module
+//   (memory 1)
+//   (data $passive "\01\02\03\04")
+//   (data $active (i32.const 8) "\aa\bb")
+//   (func (export "init") (param $dest i32) (param $src i32) (param $n i32)
+//     (memory.init $passive (local.get $dest) (local.get $src) (local.get $n)))
+//   (func (export "init_active") (param $dest i32) (param $src i32) (param $n i32)
+//     (memory.init $active (local.get $dest) (local.get $src) (local.get $n)))
+//   (func (export "drop")
+//     (data.drop $passive))
+//   (func (export "load8") (param $i i32) (result i32)
+//     (i32.load8_u (local.get $i))))
+let $2 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x0f\x03\x60\x03\x7f\x7f\x7f\x00\x60\x00\x00\x60\x01\x7f\x01\x7f\x03\x05\x04\x00\x00\x01\x02\x05\x03\x01\x00\x01\x07\x25\x04\x04\x69\x6e\x69\x74\x00\x00\x0b\x69\x6e\x69\x74\x5f\x61\x63\x74\x69\x76\x65\x00\x01\x04\x64\x72\x6f\x70\x00\x02\x05\x6c\x6f\x61\x64\x38\x00\x03\x0c\x01\x02\x0a\x29\x04\x0c\x00\x20\x00\x20\x01\x20\x02\xfc\x08\x00\x00\x0b\x0c\x00\x20\x00\x20\x01\x20\x02\xfc\x08\x01\x00\x0b\x05\x00\xfc\x09\x00\x0b\x07\x00\x20\x00\x2d\x00\x00\x0b\x0b\x0e\x02\x01\x04\x01\x02\x03\x04\x00\x41\x08\x0b\x02\xaa\xbb")
+assert_return(() => call($1, "load8", [0]), 0);
+assert_return(() => call($1, "load8", [8]), 170);
+assert_return(() => call($1, "load8", [9]), 187);
+assert_return(() => call($1, "init", [100, 1, 3]));
+assert_return(() => call($1, "load8", [99]), 0);
+assert_return(() => call($1, "load8", [100]), 2);
+assert_return(() => call($1, "load8", [101]), 3);
+assert_return(() => call($1, "load8", [102]), 4);
+assert_return(() => call($1, "load8", [103]), 0);
+assert_return(() => call($1, "init", [65_536, 4, 0]));
+assert_trap(() => call($1, "init", [65_535, 0, 2]));
+assert_trap(() => call($1, "init", [0, 3, 2]));
+assert_trap(() => call($1, "init", [65_537, 0, 0]));
+assert_return(() => call($1, "init_active", [0, 0, 0]));
+assert_trap(() => call($1, "init_active", [0, 0, 1]));
+assert_return(() => call($1, "drop", []));
+assert_return(() => call($1, "drop", []));
+assert_return(() => call($1, "init", [0, 0, 0]));
+assert_trap(() => call($1, "init", [0, 0, 1]));
+assert_trap(() => call($1, "init", [0, 1, 0]));
+assert_return(() => call($2, "init", [0, 0, 4]));
+assert_return(() => call($2, "load8", [0]), 1);
+assert_return(() => call($2, "load8", [3]), 4);
@@ -0,0 +1,76 @@
+// Reference types: "externref" values passed through unchanged, "ref.null",
+// "ref.func" and "ref.is_null", the table instructions, multiple tables and
+// "select" with a reference type
+// (module
+//   (type $i32 (func (result i32)))
+//   (table $a 2 funcref)
+//   (table $b 1 4 externref)
+//   (global $g (mut externref) (ref.null extern))
+//   (elem declare func $one $two)
+//   (func $one (result i32) (i32.const 1))
+//   (func $two (result i32) (i32.const 2))
+//   (func (export "identity") (param externref) (result externref) (local externref)
+//     (local.set 1 (local.get 0))
+//     (local.get 1))
+//   (func (export "global") (param externref) (result externref)
+//     (global.set $g (local.get 0))
+//     (global.get $g))
+//   (func (export "is_null") (param externref) (result i32)
+//     (ref.is_null (local.get 0)))
+//   (func (export "is_null_func") (result i32)
+//     (ref.is_null (ref.func $one)))
+//   (func (export "set_a") (param $i i32) (param $which i32) (local $f funcref) (local $g funcref)
+//     (local.set $f (ref.func $one))
+//     (local.set $g (ref.func $two))
+//     (table.set $a (local.get $i)
+//       (select (result funcref) (local.get $f) (local.get $g) (local.get $which))))
+//   (func (export "call_a") (param $i i32) (result i32)
+//     (call_indirect $a (type $i32) (local.get $i)))
+//   (func (export "is_null_a") (param $i i32) (result i32)
+//     (ref.is_null (table.get $a (local.get $i))))
+//   (func (export "set_b") (param $i i32) (param externref)
+//     (table.set $b (local.get $i) (local.get 1)))
+//   (func (export "get_b") (param $i i32) (result externref)
+//     (table.get $b (local.get $i)))
+//   (func (export "size_a") (result i32) (table.size $a))
+//   (func (export "size_b") (result i32) (table.size $b))
+//   (func (export "grow_b") (param externref) (param $n i32) (result i32)
+//     (table.grow $b (local.get 0) (local.get $n)))
+//   (func (export "fill_b") (param $i i32) (param externref) (param $n i32)
+//     (table.fill $b (local.get $i) (local.get 1) (local.get $n))))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x2f\x09\x60\x00\x01\x7f\x60\x01\x6f\x01\x6f\x60\x01\x6f\x01\x7f\x60\x02\x7f\x7f\x00\x60\x01\x7f\x01\x7f\x60\x02\x7f\x6f\x00\x60\x01\x7f\x01\x6f\x60\x02\x6f\x7f\x01\x7f\x60\x03\x7f\x6f\x7f\x00\x03\x10\x0f\x00\x00\x01\x01\x02\x00\x03\x04\x04\x05\x06\x00\x00\x07\x08\x04\x08\x02\x70\x00\x02\x6f\x01\x01\x04\x06\x06\x01\x6f\x01\xd0\x6f\x0b\x07\x7f\x0d\x08\x69\x64\x65\x6e\x74\x69\x74\x79\x00\x02\x06\x67\x6c\x6f\x62\x61\x6c\x00\x03\x07\x69\x73\x5f\x6e\x75\x6c\x6c\x00\x04\x0c\x69\x73\x5f\x6e\x75\x6c\x6c\x5f\x66\x75\x6e\x63\x00\x05\x05\x73\x65\x74\x5f\x61\x00\x06\x06\x63\x61\x6c\x6c\x5f\x61\x00\x07\x09\x69\x73\x5f\x6e\x75\x6c\x6c\x5f\x61\x00\x08\x05\x73\x65\x74\x5f\x62\x00\x09\x05\x67\x65\x74\x5f\x62\x00\x0a\x06\x73\x69\x7a\x65\x5f\x61\x00\x0b\x06\x73\x69\x7a\x65\x5f\x62\x00\x0c\x06\x67\x72\x6f\x77\x5f\x62\x00\x0d\x06\x66\x69\x6c\x6c\x5f\x62\x00\x0e\x09\x06\x01\x03\x00\x02\x00\x01\x0a\x87\x01\x0f\x04\x00\x41\x01\x0b\x04\x00\x41\x02\x0b\x0a\x01\x01\x6f\x20\x00\x21\x01\x20\x01\x0b\x08\x00\x20\x00\x24\x00\x23\x00\x0b\x05\x00\x20\x00\xd1\x0b\x05\x00\xd2\x00\xd1\x0b\x19\x01\x02\x70\xd2\x00\x21\x02\xd2\x01\x21\x03\x20\x00\x20\x02\x20\x03\x20\x01\x1c\x01\x70\x26\x00\x0b\x07\x00\x20\x00\x11\x00\x00\x0b\x07\x00\x20\x00\x25\x00\xd1\x0b\x08\x00\x20\x00\x20\x01\x26\x01\x0b\x06\x00\x20\x00\x25\x01\x0b\x05\x00\xfc\x10\x00\x0b\x05\x00\xfc\x10\x01\x0b\x09\x00\x20\x00\x20\x01\xfc\x0f\x01\x0b\x0b\x00\x20\x00\x20\x01\x20\x02\xfc\x11\x01\x0b")
+assert_return(() => call($1, "identity", ["x"]), "x");
+assert_return(() => call($1, "identity", [null]), null);
+assert_return(() => call($1, "global", ["y"]), "y");
+assert_return(() => call($1, "is_null", [null]), 1);
+assert_return(() => call($1, "is_null", ["z"]), 0);
+assert_return(() => call($1, "is_null_func", []), 0);
+assert_return(() => call($1, "size_a", []), 2);
+assert_return(() => call($1, "size_b", []), 1);
+assert_return(() => call($1, "is_null_a", [0]), 1);
+assert_trap(() => call($1, "call_a", [0]));
+assert_return(() => call($1, "set_a", [0, 1]));
+assert_return(() => call($1, "set_a", [1, 0]));
+assert_return(() => call($1, "is_null_a", [0]), 0);
+assert_return(() => call($1, "call_a", [0]), 1);
+assert_return(() => call($1, "call_a", [1]), 2);
+assert_trap(() => call($1, "call_a", [2]));
+assert_trap(() => call($1, "is_null_a", [2]));
+assert_return(() => call($1, "get_b", [0]), null);
+assert_return(() => call($1, "set_b", [0, "p"]));
+assert_return(() => call($1, "get_b", [0]), "p");
+assert_trap(() => call($1, "get_b", [1]));
+assert_trap(() => call($1, "set_b", [1, "q"]));
+assert_return(() => call($1, "grow_b", ["q", 2]), 1);
+assert_return(() => call($1, "size_b", []), 3);
+assert_return(() => call($1, "get_b", [2]), "q");
+assert_return(() => call($1, "grow_b", [null, 2]), -1);
+assert_return(() => call($1, "size_b", []), 3);
+assert_return(() => call($1, "grow_b", [null, 0]), 3);
+assert_return(() => call($1, "fill_b", [1, "r", 2]));
+assert_return(() => call($1, "get_b", [0]), "p");
+assert_return(() => call($1, "get_b", [1]), "r");
+assert_return(() => call($1, "get_b", [2]), "r");
+assert_trap(() => call($1, "fill_b", [2, "s", 2]));
+assert_return(() => call($1, "fill_b", [3, "s", 0]));
+assert_trap(() => call($1, "fill_b", [4, "s", 0]));
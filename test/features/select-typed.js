@@ -0,0 +1,30 @@
+// The "select" instruction with an explicit type vector, followed by more code
+// (including blocks) so that the type vector must be skipped correctly
+// (module
+//   (func (export "i32") (param $a i32) (param $b i32) (param $c i32) (result i32)
+//     (select (result i32) (local.get $a) (local.get $b) (local.get $c))
+//     (block (result i32) (i32.const 1))
+//     (i32.add))
+//   (func (export "f64") (param $a f64) (param $b f64) (param $c i32) (result f64)
+//     (block (result f64)
+//       (select (result f64) (local.get $a) (local.get $b) (local.get $c))
+//       (br 0)))
+//   (func (export "i64") (param $a i64) (param $b i64) (param $c i32) (result i64)
+//     (if (result i64) (local.get $c)
+//       (then (select (result i64) (local.get $a) (local.get $b) (i32.const 0)))
+//       (else (select (result i64) (local.get $a) (local.get $b) (i32.const 1)))))
+//   (func (export "externref") (param $a externref) (param $b externref) (param $c i32) (result externref)
+//     (select (result externref) (local.get $a) (local.get $b) (local.get $c)))
+//   (func (export "null") (param $a externref) (param $c i32) (result i32)
+//     (ref.is_null (select (result externref) (local.get $a) (ref.null extern) (local.get $c)))))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x23\x05\x60\x03\x7f\x7f\x7f\x01\x7f\x60\x03\x7c\x7c\x7f\x01\x7c\x60\x03\x7e\x7e\x7f\x01\x7e\x60\x03\x6f\x6f\x7f\x01\x6f\x60\x02\x6f\x7f\x01\x7f\x03\x06\x05\x00\x01\x02\x03\x04\x07\x26\x05\x03\x69\x33\x32\x00\x00\x03\x66\x36\x34\x00\x01\x03\x69\x36\x34\x00\x02\x09\x65\x78\x74\x65\x72\x6e\x72\x65\x66\x00\x03\x04\x6e\x75\x6c\x6c\x00\x04\x0a\x58\x05\x11\x00\x20\x00\x20\x01\x20\x02\x1c\x01\x7f\x02\x7f\x41\x01\x0b\x6a\x0b\x10\x00\x02\x7c\x20\x00\x20\x01\x20\x02\x1c\x01\x7c\x0c\x00\x0b\x0b\x1a\x00\x20\x02\x04\x7e\x20\x00\x20\x01\x41\x00\x1c\x01\x7e\x05\x20\x00\x20\x01\x41\x01\x1c\x01\x7e\x0b\x0b\x0b\x00\x20\x00\x20\x01\x20\x02\x1c\x01\x6f\x0b\x0c\x00\x20\x00\xd0\x6f\x20\x01\x1c\x01\x6f\xd1\x0b")
+assert_return(() => call($1, "i32", [10, 20, 1]), 11);
+assert_return(() => call($1, "i32", [10, 20, 0]), 21);
+assert_return(() => call($1, "f64", [1.5, -2.5, 1]), 1.5);
+assert_return(() => call($1, "f64", [1.5, -2.5, 0]), -2.5);
+assert_return(() => call($1, "i64", [3n, 4n, 1]), 4n);
+assert_return(() => call($1, "i64", [3n, 4n, 0]), 3n);
+assert_return(() => call($1, "externref", ["a", "b", 1]), "a");
+assert_return(() => call($1, "externref", ["a", "b", 0]), "b");
+assert_return(() => call($1, "null", ["a", 1]), 0);
+assert_return(() => call($1, "null", ["a", 0]), 1);
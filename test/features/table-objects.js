@@ -0,0 +1,69 @@
+// Table objects can be constructed from JavaScript and shared between
+// instances through imports, and changes made from JavaScript and from
+// WebAssembly are visible to each other
+let table = new WebAssembly.Table({ element: 'anyfunc', initial: 2, maximum: 4 })
+assert_return(() => ({ value: table.length }), 2);
+assert_return(() => ({ value: table.get(0) }), null);
+assert_return(() => {
+  try { table.get(2) } catch (error) { return { value: error instanceof RangeError } }
+  return { value: false }
+}, true);
+assert_return(() => {
+  try { table.set(0, () => 0) } catch (error) { return { value: error instanceof TypeError } }
+  return { value: false }
+}, true);
+assert_return(() => {
+  try { new WebAssembly.Table({ element: 'anyfunc', initial: 2, maximum: 1 }) } catch (error) { return { value: error instanceof RangeError } }
+  return { value: false }
+}, true);
+let externs = new WebAssembly.Table({ element: 'externref', initial: 2 }, 'x')
+assert_return(() => ({ value: externs.get(1) }), 'x');
+run(() => externs.set(1, 'y'));
+assert_return(() => ({ value: externs.get(0) + externs.get(1) }), 'xy');
+// (module
+//   (import "env" "table" (table 2 funcref))
+//   (type $i32 (func (result i32)))
+//   (func $seven (export "seven") (result i32) (i32.const 7))
+//   (elem (i32.const 0) $seven)
+//   (export "table" (table 0))
+//   (func (export "grow") (param $n i32) (result i32)
+//     (table.grow (ref.null func) (local.get $n))))
+let $1 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x0a\x02\x60\x00\x01\x7f\x60\x01\x7f\x01\x7f\x02\x0f\x01\x03\x65\x6e\x76\x05\x74\x61\x62\x6c\x65\x01\x70\x00\x02\x03\x03\x02\x00\x01\x07\x18\x03\x05\x73\x65\x76\x65\x6e\x00\x00\x05\x74\x61\x62\x6c\x65\x01\x00\x04\x67\x72\x6f\x77\x00\x01\x09\x07\x01\x00\x41\x00\x0b\x01\x00\x0a\x10\x02\x04\x00\x41\x07\x0b\x09\x00\xd0\x70\x20\x00\xfc\x0f\x00\x0b", { env: { table } })
+// (module
+//   (import "env" "table" (table 2 funcref))
+//   (type $i32 (func (result i32)))
+//   (func $eight (export "eight") (result i32) (i32.const 8))
+//   (func (export "call") (param $i i32) (result i32)
+//     (call_indirect (type $i32) (local.get $i)))
+//   (func (export "set") (param $i i32)
+//     (table.set (local.get $i) (ref.func $eight))))
+let $2 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x01\x0e\x03\x60\x00\x01\x7f\x60\x01\x7f\x01\x7f\x60\x01\x7f\x00\x02\x0f\x01\x03\x65\x6e\x76\x05\x74\x61\x62\x6c\x65\x01\x70\x00\x02\x03\x04\x03\x00\x01\x02\x07\x16\x03\x05\x65\x69\x67\x68\x74\x00\x00\x04\x63\x61\x6c\x6c\x00\x01\x03\x73\x65\x74\x00\x02\x0a\x17\x03\x04\x00\x41\x08\x0b\x07\x00\x20\x00\x11\x00\x00\x0b\x08\x00\x20\x00\xd2\x00\x26\x00\x0b", { env: { table } })
+assert_return(() => ({ value: $1.value.exports.table === table }), true);
+assert_return(() => ({ value: table.get(0)() }), 7);
+assert_return(() => call($2, "call", [0]), 7);
+assert_trap(() => call($2, "call", [1]));
+run(() => table.set(1, $2.value.exports.eight));
+assert_return(() => call($2, "call", [1]), 8);
+run(() => table.set(1, $1.value.exports.seven));
+assert_return(() => call($2, "call", [1]), 7);
+assert_return(() => call($2, "set", [0]));
+assert_return(() => ({ value: table.get(0)() }), 8);
+assert_return(() => ({ value: table.grow(1) }), 2);
+assert_return(() => ({ value: table.length }), 3);
+assert_return(() => call($1, "grow", [1]), 3);
+assert_return(() => ({ value: table.length }), 4);
+assert_return(() => call($2, "set", [3]));
+assert_return(() => call($2, "call", [3]), 8);
+assert_return(() => call($1, "grow", [1]), -1);
+assert_return(() => {
+  try { table.grow(1) } catch (error) { return { value: error instanceof RangeError } }
+  return { value: false }
+}, true);
+// (module
+//   (import "env" "table" (table 5 funcref)))
+let $3 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x02\x0f\x01\x03\x65\x6e\x76\x05\x74\x61\x62\x6c\x65\x01\x70\x00\x05", { env: { table } })
+assert_return(() => ({ value: $3.error instanceof WebAssembly.LinkError }), true);
+// (module
+//   (import "env" "table" (table 1 funcref)))
+let $4 = instance("\x00\x61\x73\x6d\x01\x00\x00\x00\x02\x0f\x01\x03\x65\x6e\x76\x05\x74\x61\x62\x6c\x65\x01\x70\x00\x01", { env: { table: externs } })
+assert_return(() => ({ value: $4.error instanceof WebAssembly.LinkError }), true);
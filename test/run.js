@@ -13,19 +13,32 @@ import path from 'node:path'
 
 const coreTestDir = path.join(url.fileURLToPath(import.meta.url), '..', 'core')
 
-function runTests(wasm) {
+// The tests in "features" use the same format as the ones in "core", but are
+// written by hand for features that the specification tests here don't cover
+const featureTestDir = path.join(url.fileURLToPath(import.meta.url), '..', 'features')
+
+function testFiles() {
+  const files = []
+  for (const dir of [coreTestDir, featureTestDir]) {
+    for (const name of fs.readdirSync(dir)) {
+      if (name.endsWith('.js')) files.push([dir, name])
+    }
+  }
+  return files
+}
+
+function runTests(wasm, options) {
   const counters = {
     passed: 0,
     failed: 0,
   }
 
-  for (const name of fs.readdirSync(coreTestDir)) {
-    if (!name.endsWith('.js')) continue
+  for (const [dir, name] of testFiles()) {
     console.log(`🔹 ${name}`)
-    const file = path.join(coreTestDir, name)
+    const file = path.join(dir, name)
     const js = fs.readFileSync(file, 'utf8')
 
-    const fn = new Function('counters', 'WebAssembly', `
+    const fn = new Function('counters', 'WebAssembly', 'options', `
       const registry = {
         spectest: {
           print_i32() {},
@@ -58,20 +71,28 @@ function runTests(wasm) {
 
       let count = 1;
       function instance(bytes, imports = registry) {
-        bytes = new Uint8Array(bytes.split('').map(x => x.charCodeAt(0)))
+        bytes = toBytes(bytes)
         if (EXPORT_WASM) Deno.writeFileSync(
           "${path.join(coreTestDir, "decomp", name.slice(0, name.length - 3))}" + \`-\${count++}.wasm\`,
           bytes,
         )
         try {
-          const module = new WebAssembly.Module(bytes)
-          const instance = new WebAssembly.Instance(module, imports)
+          const module = new WebAssembly.Module(bytes, options)
+          const instance = new WebAssembly.Instance(module, imports, options)
           return { value: instance }
         } catch (error) {
           return { error }
         }
       }
 
+      function module(bytes) {
+        return new WebAssembly.Module(toBytes(bytes), options)
+      }
+
+      function toBytes(bytes) {
+        return new Uint8Array(bytes.split('').map(x => x.charCodeAt(0)))
+      }
+
       function exports(instance) {
         if (instance.value) return { value: { module: instance.value.exports } }
         return { error: instance.error }
@@ -107,11 +128,40 @@ function runTests(wasm) {
         }
       }
 
+      function assert_trap(fn) {
+        // Traps are only generated when they are enabled
+        if (options && !(options.traps && options.boundsChecks)) return
+        const result = fn()
+        if (result.error instanceof WebAssembly.RuntimeError) {
+          // console.log('✅ assert_trap: ' + fn)
+          counters.passed++
+        } else {
+          console.error('❌ assert_trap: ' + fn + ': ' + (result.error ? 'observed=' + result.error : 'expected a trap'))
+          counters.failed++
+        }
+      }
+
+      function assert_compile_error(kind, bytes) {
+        let error
+        try {
+          new WebAssembly.Module(toBytes(bytes), { validate: true })
+        } catch (e) {
+          error = e
+        }
+        if (error instanceof WebAssembly.CompileError) {
+          // console.log('✅ ' + kind)
+          counters.passed++
+        } else {
+          console.error('❌ ' + kind + ': ' + JSON.stringify(bytes) + ': ' + (error ? 'observed=' + error : 'expected a compile error'))
+          counters.failed++
+        }
+      }
+
+      const assert_invalid = bytes => assert_compile_error('assert_invalid', bytes)
+      const assert_malformed = bytes => assert_compile_error('assert_malformed', bytes)
+
       // These are ignored...
       const assert_exhaustion = () => {}
-      const assert_invalid = () => {}
-      const assert_malformed = () => {}
-      const assert_trap = () => {}
       const assert_uninstantiable = () => {}
       const assert_unlinkable = () => {}
 
@@ -122,7 +172,7 @@ function runTests(wasm) {
       ${js}
     `)
 
-    fn(counters, wasm)
+    fn(counters, wasm, options)
   }
 
   const total = counters.passed + counters.failed
@@ -133,11 +183,255 @@ function runTests(wasm) {
   `)
 }
 
+// These check features that the specification tests don't cover. They use a
+// small module that's assembled by hand to keep this file self-contained.
+const apiCounters = {
+  passed: 0,
+  failed: 0,
+}
+
+function check(name, ok) {
+  if (ok) {
+    apiCounters.passed++
+  } else {
+    console.error('❌ ' + name)
+    apiCounters.failed++
+  }
+}
+
+const str = s => [s.length, ...Array.from(s, c => c.charCodeAt(0))]
+const vec = items => [items.length, ...items.flat()]
+const section = (id, bytes) => [id, bytes.length, ...bytes]
+
+// The module exports "add" (i32, i32) => i32 and "abs" (f32) => f32, which
+// clears the sign bit using integer operations. It has a "producers" section
+// if the name of a tool that produced it is given.
+function testModule(producer) {
+  const add = [0, 0x20, 0, 0x20, 1, 0x6A, 0x0B]
+  const abs = [0, 0x20, 0, 0xBC, 0x41, 0xFF, 0xFF, 0xFF, 0xFF, 0x07, 0x71, 0xBE, 0x0B]
+  const bytes = [
+    0x00, 0x61, 0x73, 0x6D, 0x01, 0x00, 0x00, 0x00,
+    ...section(1, vec([[0x60, 2, 0x7F, 0x7F, 1, 0x7F], [0x60, 1, 0x7D, 1, 0x7D]])),
+    ...section(3, vec([[0], [1]])),
+    ...section(7, vec([[...str('add'), 0, 0], [...str('abs'), 0, 1]])),
+    ...section(10, vec([[add.length, ...add], [abs.length, ...abs]])),
+  ]
+  if (producer) bytes.push(...section(0, [...str('producers'), ...vec([[...str('processed-by'), ...vec([[...str(producer), ...str('1.0')]])]])]))
+  return new Uint8Array(bytes)
+}
+
+// The module imports the function "env.f" (i32) => i32, the table "env.t"
+// with at least 1 element, the memory "env.m" with at least 1 page and the
+// immutable global "env.g" of type i32
+function importingModule() {
+  return new Uint8Array([
+    0x00, 0x61, 0x73, 0x6D, 0x01, 0x00, 0x00, 0x00,
+    ...section(1, vec([[0x60, 1, 0x7F, 1, 0x7F]])),
+    ...section(2, vec([
+      [...str('env'), ...str('f'), 0, 0],
+      [...str('env'), ...str('t'), 1, 0x70, 0, 1],
+      [...str('env'), ...str('m'), 2, 0, 1],
+      [...str('env'), ...str('g'), 3, 0x7F, 0],
+    ])),
+  ])
+}
+
+// The module exports "run" (i32, i32) => i32, which calls the function at the
+// index given by the second argument in its table with the first argument.
+// The table holds the imported function "env.double" followed by a function
+// that adds the byte at address 0 (which is 5 after the data segment) to its
+// argument.
+function aotModule() {
+  const plus = [0, 0x20, 0, 0x41, 0, 0x2D, 0, 0, 0x6A, 0x0B]
+  const run = [0, 0x20, 0, 0x20, 1, 0x11, 0, 0, 0x0B]
+  return new Uint8Array([
+    0x00, 0x61, 0x73, 0x6D, 0x01, 0x00, 0x00, 0x00,
+    ...section(1, vec([[0x60, 1, 0x7F, 1, 0x7F], [0x60, 2, 0x7F, 0x7F, 1, 0x7F]])),
+    ...section(2, vec([[...str('env'), ...str('double'), 0, 0]])),
+    ...section(3, vec([[0], [1]])),
+    ...section(4, vec([[0x70, 0, 2]])),
+    ...section(5, vec([[0, 1]])),
+    ...section(7, vec([[...str('run'), 0, 2]])),
+    ...section(9, vec([[0, 0x41, 0, 0x0B, ...vec([[0], [1]])]])),
+    ...section(10, vec([[plus.length, ...plus], [run.length, ...run]])),
+    ...section(11, vec([[0, 0x41, 0, 0x0B, ...vec([[5]])]])),
+  ])
+}
+
+// This counts how often each function's code is looked up and stored
+function countingCache(cache) {
+  const counting = {
+    loaded: 0,
+    stored: 0,
+    get: key => (counting.loaded++, cache.get(key)),
+    set: (key, value) => (counting.stored++, cache.set(key, value)),
+  }
+  return counting
+}
+
+async function runAPITests(WebAssembly) {
+  // Modules generated ahead of time must load and run without generating
+  // code, including the wrappers for imports and the table's elements
+  const { compileToModule } = await import('../src/aot.ts')
+  const runtime = new URL('../src/index.ts', import.meta.url).href
+  const source = compileToModule(aotModule(), { runtime })
+  const { Function, eval: evaluate } = globalThis
+  let generatedCode = false
+  globalThis.Function = globalThis.eval = function () {
+    generatedCode = true
+    throw new EvalError('Code generation from strings disallowed')
+  }
+  try {
+    const generated = await import('data:text/javascript,' + encodeURIComponent(source))
+    const { exports } = generated.instantiate({ env: { double: x => x * 2 } })
+    check('aot: import', exports.run(3, 0) === 6)
+    check('aot: data', exports.run(3, 1) === 8)
+  } finally {
+    globalThis.Function = Function
+    globalThis.eval = evaluate
+  }
+  check('aot: no code generation', !generatedCode)
+
+  // Functions that are already in the cache aren't compiled again
+  const { createMemoryCache, prewarmCache } = await import('../src/fscache.ts')
+  const cache = countingCache(createMemoryCache())
+  prewarmCache(new WebAssembly.Module(testModule()), cache)
+  check('cache: prewarm stores every function', cache.stored === 2)
+  cache.loaded = cache.stored = 0
+  const cached = new WebAssembly.Instance(new WebAssembly.Module(testModule()), {}, { cache }).exports
+  check('cache: add', cached.add(2, 3) === 5)
+  check('cache: hit', cache.loaded === 1 && cache.stored === 0)
+
+  // Each compilation strategy compiles functions at a different time (new
+  // modules are used because compiled code is shared by a module's instances)
+  const lazy = countingCache(createMemoryCache())
+  new WebAssembly.Instance(new WebAssembly.Module(testModule()), {}, { cache: lazy })
+  check('compilation: lazy', lazy.stored === 0)
+  const eager = countingCache(createMemoryCache())
+  new WebAssembly.Instance(new WebAssembly.Module(testModule()), {}, { compilation: 'eager', cache: eager })
+  check('compilation: eager constructor', eager.stored === 2)
+  const eagerAsync = countingCache(createMemoryCache())
+  await WebAssembly.instantiate(testModule(), {}, { compilation: 'eager', cache: eagerAsync })
+  check('compilation: eager instantiate', eagerAsync.stored === 2)
+  const background = countingCache(createMemoryCache())
+  new WebAssembly.Instance(new WebAssembly.Module(testModule()), {}, { compilation: 'background', cache: background })
+  check('compilation: background starts later', background.stored === 0)
+  await new Promise(resolve => setTimeout(resolve, 100))
+  check('compilation: background', background.stored === 2)
+
+  // Instances of the same module share compiled code unless their options
+  // change the generated code
+  const shared = countingCache(createMemoryCache())
+  const sharedModule = new WebAssembly.Module(testModule())
+  new WebAssembly.Instance(sharedModule, {}, { compilation: 'eager', cache: shared })
+  shared.loaded = shared.stored = 0
+  const second = new WebAssembly.Instance(sharedModule, {}, { compilation: 'eager', cache: shared }).exports
+  check('sharing: add', second.add(2, 3) === 5)
+  check('sharing: same options', shared.loaded === 0 && shared.stored === 0)
+  new WebAssembly.Instance(sharedModule, {}, { compilation: 'eager', cache: shared, traps: true })
+  check('sharing: different options', shared.loaded === 2)
+
+  // Invalid optimization rules are rejected, and instance rules only apply
+  // to that instance
+  let ruleError
+  try {
+    WebAssembly.addOptimizationRules([{ match: ['i32_add', 'x'], replace: 'x' }])
+  } catch (error) {
+    ruleError = error
+  }
+  check('rules: invalid rule', ruleError instanceof TypeError && ruleError.message.includes('"rules[0].match"'))
+  const optimizationRules = [{ match: ['i32_add', 'x', 'y'], replace: ['i32_sub', 'x', 'y'] }]
+  check('rules: instance rules', new WebAssembly.Instance(new WebAssembly.Module(testModule()), {}, { optimizationRules }).exports.add(2, 3) === -1)
+  check('rules: other instances', new WebAssembly.Instance(new WebAssembly.Module(testModule())).exports.add(2, 3) === 5)
+
+  // Toolchain rules only apply to modules produced by that toolchain (or when
+  // they are forced), so only Rust's rules turn "abs" into "Math.abs"
+  const absCode = (producer, options) => {
+    let code = ''
+    const cache = { get() {}, set: (_key, value) => { code += value } }
+    const { exports } = new WebAssembly.Instance(new WebAssembly.Module(testModule(producer)), {}, { ...options, cache })
+    check('toolchain: abs', exports.abs(-1.5) === 1.5)
+    return code
+  }
+  check('toolchain: none', !absCode().includes('Math.abs'))
+  check('toolchain: rust', absCode('rustc').includes('Math.abs'))
+  check('toolchain: clang', !absCode('clang').includes('Math.abs'))
+  check('toolchain: forced', absCode('clang', { toolchain: 'rust' }).includes('Math.abs'))
+  check('toolchain: disabled', !absCode('rustc', { toolchain: 'none' }).includes('Math.abs'))
+
+  // Link errors name the import and the reason, and can be collected so
+  // that every import that fails to link is reported at once
+  const linkErrorFor = (imports, options) => {
+    try {
+      new WebAssembly.Instance(new WebAssembly.Module(importingModule()), imports, options)
+    } catch (error) {
+      return error
+    }
+  }
+  const linkImports = () => ({
+    env: {
+      f: x => x,
+      t: new WebAssembly.Table({ element: 'anyfunc', initial: 1 }),
+      m: new WebAssembly.Memory({ initial: 1 }),
+      g: 1,
+    },
+  })
+  const linkMessage = (imports, options) => {
+    const error = linkErrorFor(imports, options)
+    return error instanceof WebAssembly.LinkError ? error.message : String(error)
+  }
+  const withImport = (name, value) => {
+    const imports = linkImports()
+    imports.env[name] = value
+    return imports
+  }
+  const { add: importedAdd } = new WebAssembly.Instance(new WebAssembly.Module(testModule())).exports
+  check('link: valid', linkErrorFor(linkImports()) === undefined)
+  check('link: namespace', linkMessage({}) === 'Imported module "env" for "env"."f" must be an object')
+  check('link: function', linkMessage(withImport('f', 1)) === 'Imported function "env"."f" must be callable')
+  check('link: signature', linkMessage(withImport('f', importedAdd)) === 'Imported function "env"."f" must have the signature (i32) => (i32)')
+  check('link: table', linkMessage(withImport('t', new WebAssembly.Table({ element: 'anyfunc', initial: 0 }))) === 'Imported table "env"."t" has 0 elements but at least 1 are required')
+  check('link: memory', linkMessage(withImport('m', {})) === 'Imported memory "env"."m" must be a "Memory" object')
+  check('link: global', linkMessage(withImport('g', 1n)) === 'Imported global "env"."g" must be a number or a "Global" object')
+  check('link: first error', linkMessage({ env: {} }) === 'Imported function "env"."f" must be callable')
+  const collected = linkErrorFor({ env: {} }, { collectLinkErrors: true })
+  check('link: collected', collected instanceof WebAssembly.LinkError && collected.errors.length === 4 &&
+    collected.message.startsWith('4 imports failed to link:\n') && collected.errors.every(error => error instanceof WebAssembly.LinkError))
+  const single = linkErrorFor(withImport('f', 1), { collectLinkErrors: true })
+  check('link: collected one', single instanceof WebAssembly.LinkError && single.message === 'Imported function "env"."f" must be callable')
+
+  // Reflection includes the optional "type" field from the type reflection proposal
+  const [add, abs] = WebAssembly.Module.exports(new WebAssembly.Module(testModule()))
+  check('reflection: add', JSON.stringify(add.type) === '{"parameters":["i32","i32"],"results":["i32"]}')
+  check('reflection: abs', JSON.stringify(abs.type) === '{"parameters":["f32"],"results":["f32"]}')
+
+  const total = apiCounters.passed + apiCounters.failed
+  console.log(`
+  Passed: ${apiCounters.passed} (${(100 * apiCounters.passed / total).toFixed(1)}%)
+  Failed: ${apiCounters.failed} (${(100 * apiCounters.failed / total).toFixed(1)}%)
+  Total:  ${total}
+  `)
+}
+
 console.log('\n===== Native =====')
 runTests(WebAssembly)
 
 console.log('\n===== Shim =====')
-import('../src/index.ts').then(({ WebAssembly }) => runTests(WebAssembly))
+import('../src/index.ts').then(({ WebAssembly }) => {
+  runTests(WebAssembly, {})
+
+  console.log('\n===== Shim (validated, with traps) =====')
+  runTests(WebAssembly, { validate: true, traps: true, boundsChecks: true })
+
+  console.log('\n===== Interpreted Shim =====')
+  runTests(WebAssembly, { validate: true, traps: true, boundsChecks: true, interpreter: true })
+
+  console.log('\n===== Shim (i64 pairs) =====')
+  runTests(WebAssembly, { validate: true, traps: true, boundsChecks: true, i64: 'pairs' })
+
+  console.log('\n===== API =====')
+  return runAPITests(WebAssembly)
+})
 
   // .then(() => {
   //   console.log('\n===== Minified Shim =====')